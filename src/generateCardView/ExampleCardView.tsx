@@ -380,7 +380,11 @@ const commonHeaderConfig: HeaderCardViewOptions = {
       },
       sort: {
         visible: true,
-        multiSort: false
+        multiSort: true,
+        presets: [
+          { id: 'newest', label: 'Newest first', sort: [{ key: 'hireDate', order: 'desc' }] },
+          { id: 'top-rated-dept', label: 'Top rated in dept', sort: [{ key: 'department', order: 'asc' }, { key: 'rating', order: 'desc' }] }
+        ]
       },
       download: {
         visible: true,
@@ -536,6 +540,9 @@ export const defaultPaginationConfig: Required<PaginationConfig> = {
   showTotal: false,
   showQuickJumper: false,
   align: 'center',
+  mode: 'pages',
+  loadMoreLabel: 'Load more',
+  infiniteScrollRootMargin: '200px',
 };
 
 /**
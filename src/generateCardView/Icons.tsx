@@ -1,5 +1,10 @@
 import { Input } from "antd";
+import type { ComponentProps } from "react";
 import {
+  CheckOutlined,
+  CloseOutlined,
+  DownOutlined,
+  EditOutlined,
   DownloadOutlined,
   FilterOutlined,
   SortAscendingOutlined,
@@ -27,3 +32,19 @@ export const SortButton = (props: any) => (
 export const SortDownButton = (props: any) => (
   <SortDescendingOutlined {...props} className="sort-button" />
 );
+
+export const CollapseButton = (props: ComponentProps<typeof DownOutlined>) => (
+  <DownOutlined {...props} className="collapse-button" />
+);
+
+export const EditButton = (props: ComponentProps<typeof EditOutlined>) => (
+  <EditOutlined {...props} className="edit-button" />
+);
+
+export const SaveButton = (props: ComponentProps<typeof CheckOutlined>) => (
+  <CheckOutlined {...props} className="save-button" />
+);
+
+export const CancelButton = (props: ComponentProps<typeof CloseOutlined>) => (
+  <CloseOutlined {...props} className="cancel-button" />
+);
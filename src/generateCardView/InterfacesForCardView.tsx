@@ -1,3 +1,9 @@
+import type { CardViewEngine } from "./utils/CardViewEngine";
+import type { FilterValues, SortConfig as SortCriteriaList } from "./utils/FunctionalityHelperFunctionsForCardView";
+import type { SearchIndexOperator } from "./utils/SearchIndex";
+import type { SearchSuggestionSource } from "./utils/SearchSuggestions";
+import type { FilterTypeDefinition } from "./utils/FilterRegistry";
+
 /**
  * Represents a single data item in the card view
  * @interface DataItem
@@ -9,6 +15,41 @@ export interface DataItem {
   [key: string]: any;
 }
 
+/**
+ * Shape every typed item must have, used as the constraint of the generic options
+ * (interfaces without an index signature are not assignable to DataItem)
+ */
+export type DataItemShape = { id: string };
+
+/**
+ * Top-level keys of an item type, `string` for untyped items
+ * @example
+ * type Keys = FieldKey<Employee>; // 'id' | 'name' | 'address'
+ */
+export type FieldKey<T> = Extract<keyof T, string>;
+
+/** Values that are not walked into by FieldPath */
+type FieldPathLeaf = Date | File | unknown[] | ((...args: never[]) => unknown);
+
+/**
+ * Top-level keys and dotted paths of nested objects of an item type (up to 3 levels),
+ * `string` for untyped items (index signature), so untyped options keep compiling
+ * @example
+ * type Paths = FieldPath<Employee>; // 'id' | 'name' | 'address' | 'address.city' | ...
+ */
+export type FieldPath<T, Depth extends unknown[] = []> =
+  string extends keyof T
+    ? string
+    : Depth['length'] extends 3
+      ? never
+      : {
+          [K in FieldKey<T>]: NonNullable<T[K]> extends FieldPathLeaf
+            ? K
+            : NonNullable<T[K]> extends object
+              ? K | `${K}.${FieldPath<NonNullable<T[K]>, [...Depth, unknown]>}`
+              : K;
+        }[FieldKey<T>];
+
 /**
  * Configuration for card selection behavior
  * @interface CardSelectionOptions
@@ -106,6 +147,121 @@ export interface DataOperations {
   search?: SearchConfig;
 }
 
+/**
+ * Query sent to a server-side data source
+ * @interface DataSourceQuery
+ * @property {number} page - Requested page (1-based)
+ * @property {number} pageSize - Number of items per page
+ * @property {string} [cursor] - Cursor returned with the previous chunk (infinite modes, cursor based sources)
+ * @property {Array<{ field: string; direction: 'asc' | 'desc' }>} sort - Sort criteria, in priority order (DataSorter criteria)
+ * @property {FilterValues} filters - Active filter values keyed by filter id (FilterManager values)
+ * @property {object} search - Search query, searched fields and options
+ * @example
+ * {
+ *   page: 2,
+ *   pageSize: 20,
+ *   sort: [{ field: 'name', direction: 'asc' }],
+ *   filters: { department: 'Sales' },
+ *   search: { query: 'john', fields: ['name', 'email'], caseSensitive: false, exactMatch: false, fuzzy: false }
+ * }
+ */
+export interface DataSourceQuery {
+  page: number;
+  pageSize: number;
+  cursor?: string;
+  sort: SortCriteriaList;
+  filters: FilterValues;
+  search: {
+    query: string;
+    fields: string[];
+    /** Single field selected in the search bar */
+    scope?: string;
+    caseSensitive: boolean;
+    exactMatch: boolean;
+    /** Typo tolerant search requested (see SearchConfig.fuzzy) */
+    fuzzy: boolean;
+    /** Minimum similarity of a fuzzy match, sent when `fuzzy` is true */
+    fuzzyThreshold?: number;
+  };
+}
+
+/**
+ * Page of items returned by a server-side data source
+ * @interface DataSourceResult
+ * @property {T[]} items - Items of the requested page
+ * @property {number} [total] - Number of items matching the query (all pages), required for numbered pages
+ * @property {string | null} [nextCursor] - Opaque token of the next chunk, null when there is none
+ *   (cursor based sources in the infinite modes, `total` can then be omitted)
+ */
+export interface DataSourceResult<T extends DataItemShape = DataItem> {
+  items: T[];
+  total?: number;
+  nextCursor?: string | null;
+}
+
+/**
+ * Server-side data source: filtering, searching, sorting and paging are done by the backend
+ * @interface CardViewDataSource
+ * @property {Function} fetch - Loads a page for the query. The signal is aborted when a newer query replaces it.
+ * @example
+ * const dataSource: CardViewDataSource<Employee> = {
+ *   fetch: async (query, { signal }) => {
+ *     const response = await fetch('/api/employees/search', { method: 'POST', body: JSON.stringify(query), signal });
+ *     return response.json(); // { items, total }
+ *   }
+ * };
+ */
+export interface CardViewDataSource<T extends DataItemShape = DataItem> {
+  fetch: (query: DataSourceQuery, context: { signal: AbortSignal }) => Promise<DataSourceResult<T>>;
+}
+
+/**
+ * Processing of filters, search and sort in a Web Worker
+ * @interface WorkerProcessingOptions
+ * @property {boolean} enabled - Processes the data in a Web Worker, keeping typing and scrolling responsive
+ * @property {number} [minItems=10000] - Smaller data is processed on the main thread
+ * @example
+ * workerProcessing: { enabled: true, minItems: 5000 }
+ */
+export interface WorkerProcessingOptions {
+  enabled: boolean;
+  minItems?: number;
+}
+
+/**
+ * Indexed search: the searchable fields are tokenized once into an inverted index
+ * @interface SearchIndexOptions
+ * @property {boolean} enabled - Searches the index instead of scanning every item, results are ranked by relevance
+ * @property {'and'|'or'} [operator='and'] - Whether every term or any term of the query has to match
+ * @property {boolean} [prefix=true] - Query terms also match the words starting with them
+ * @property {boolean} [relevanceSort=true] - Adds a "Relevance" option to the sort menu
+ * @example
+ * searchIndex: { enabled: true, operator: 'or' }
+ */
+export interface SearchIndexOptions {
+  enabled: boolean;
+  operator?: SearchIndexOperator;
+  prefix?: boolean;
+  relevanceSort?: boolean;
+}
+
+/**
+ * Highlighting of the search matches inside the cards
+ * @interface SearchHighlightOptions
+ * @property {boolean} [enabled=true] - Highlights the matched parts of the displayed values while a search is active
+ * @property {React.CSSProperties} [style] - Style of the highlighted parts (default: yellow background)
+ * @property {string} [className] - Class of the highlighted parts, for stylesheets
+ * @property {boolean} [showMatchedFields=true] - Shows "Matched in: Email" when the matching fields are not displayed on the card
+ * @example
+ * searchHighlight: { style: { backgroundColor: '#d0ebff', fontWeight: 600 } }
+ */
+export interface SearchHighlightOptions {
+  enabled?: boolean;
+  style?: React.CSSProperties;
+  className?: string;
+  showMatchedFields?: boolean;
+}
+
 /**
  * Configuration for pagination
  * @interface PaginationConfig
@@ -117,6 +273,10 @@ export interface DataOperations {
  * @property {boolean} [showTotal=false] - Whether to display total item count
  * @property {boolean} [showQuickJumper=false] - Whether to allow quick page jumping
  * @property {'left'|'center'|'right'} [align='left'] - Alignment of pagination controls
+ * @property {'pages'|'infinite'|'load-more'} [mode='pages'] - Numbered pages, next chunk appended when the end of
+ *   the list becomes visible, or next chunk appended with a "Load more" button
+ * @property {string} [loadMoreLabel='Load more'] - Label of the "Load more" button
+ * @property {string} [infiniteScrollRootMargin='200px'] - How far before the end of the list the next chunk is loaded
  */
 export interface PaginationConfig {
   enabled?: boolean;
@@ -127,6 +287,9 @@ export interface PaginationConfig {
   showTotal?: boolean;
   showQuickJumper?: boolean;
   align?: 'left' | 'center' | 'right';
+  mode?: 'pages' | 'infinite' | 'load-more';
+  loadMoreLabel?: string;
+  infiniteScrollRootMargin?: string;
 }
 
 /**
@@ -587,12 +750,18 @@ export interface CardLayoutOptions {
 /**
  * Configuration for a single element within a card section
  */
-export interface CardElement {
+export interface CardElement<T extends DataItemShape = DataItem> {
   /**
    * Unique identifier for the element
    */
   id: string;
 
+  /**
+   * Key or dotted path of the displayed field (e.g. 'address.city').
+   * The component receives its value instead of the whole item.
+   */
+  field?: FieldPath<T>;
+
   /**
    * React component to render
    */
@@ -619,11 +788,11 @@ export interface CardElement {
 /**
  * Configuration for a section (left/center/right) of a card row
  */
-export interface CardSection {
+export interface CardSection<T extends DataItemShape = DataItem> {
   /**
    * Array of elements in this section
    */
-  elements: CardElement[];
+  elements: CardElement<T>[];
 
   /**
    * CSS styles for the section container
@@ -652,7 +821,7 @@ export interface CardSection {
 /**
  * Configuration for a single row in the card
  */
-export interface CardRow {
+export interface CardRow<T extends DataItemShape = DataItem> {
   /**
    * Unique identifier for the row
    */
@@ -661,17 +830,17 @@ export interface CardRow {
   /**
    * Left section configuration
    */
-  left?: CardSection;
+  left?: CardSection<T>;
 
   /**
    * Center section configuration
    */
-  center?: CardSection;
+  center?: CardSection<T>;
 
   /**
    * Right section configuration
    */
-  right?: CardSection;
+  right?: CardSection<T>;
 
   /**
    * CSS styles for the entire row container
@@ -903,11 +1072,11 @@ export interface CardRow {
  * };
  */
 
-export interface CardFieldConfig {
+export interface CardFieldConfig<T extends DataItemShape = DataItem> {
   /**
    * Array of row configurations
    */
-  rows: CardRow[];
+  rows: CardRow<T>[];
 
   /**
    * Global styles for the card container
@@ -946,12 +1115,12 @@ export interface CardFieldConfig {
  * };
  */
 
-export interface CardDefaultView {
+export interface CardDefaultView<T extends DataItemShape = DataItem> {
   /**
    * Keys to exclude from the default view
    * @default []
    */
-  excludeKeys?: string[];
+  excludeKeys?: FieldKey<T>[];
 }
 
 
@@ -966,6 +1135,20 @@ export interface CardStyle {
   style?: React.CSSProperties;
 
 }
+/**
+ * Named sort of the header sort menu, applied in one click
+ * @property {string} id - Unique identifier
+ * @property {string} label - Text of the preset, e.g. "Newest first"
+ * @property {Array<{ key: string; order: 'asc' | 'desc' }>} sort - Criteria in priority order, `RELEVANCE_SORT_KEY` sorts by search relevance
+ * @example
+ * { id: 'top-rated-dept', label: 'Top rated in dept', sort: [{ key: 'department', order: 'asc' }, { key: 'rating', order: 'desc' }] }
+ */
+export interface SortPreset<T extends DataItemShape = DataItem> {
+  id: string;
+  label: string;
+  sort: Array<{ key: FieldKey<T> | (string & {}); order: 'asc' | 'desc' }>;
+}
+
 /**
  * Header card view configuration
  * @interface HeaderCardViewOptions
@@ -980,7 +1163,7 @@ export interface CardStyle {
  * @property {string} [title] - Header title/text 
  * @property {React.ReactNode[]} [additionalActions] - Additional actions to show on the right side
  */
-export interface HeaderCardViewOptions {
+export interface HeaderCardViewOptions<T extends DataItemShape = DataItem> {
   /**
    * Configuration for header items and layout
    */
@@ -1000,17 +1183,48 @@ export interface HeaderCardViewOptions {
       search?: {
         visible: boolean;
         placeholder?: string;
+        /** Shows a dropdown to search a single searchable field */
+        fieldSelector?: boolean;
+        /**
+         * Typo tolerant search ("jonh" finds "John", accents are ignored):
+         * enabled initially, minimum similarity from 0 to 1 (default 0.7) and toggle in the search bar
+         */
+        fuzzy?: {
+          enabled?: boolean;
+          threshold?: number;
+          showToggle?: boolean;
+        };
+        /**
+         * Structured queries: `department:Engineering rating:>4.5 "senior dev" -status:terminated`
+         * filters the fields (they show up in the filter modal) and searches the rest as free text
+         */
+        querySyntax?: boolean;
+        /**
+         * Suggestions while typing: values of the searchable fields, field names of the query syntax
+         * and the last `recentSearches` searches (default 5, kept per `viewId`).
+         * `source` replaces the suggestions of the loaded items, e.g. with a server query
+         */
+        suggestions?: {
+          enabled: boolean;
+          source?: SearchSuggestionSource;
+          maxSuggestions?: number;
+          recentSearches?: number;
+        };
       };
       sort?: {
         visible: boolean;
         multiSort?: boolean;
+        /**
+         * Named sorts applied in one click, e.g. "Newest first" or "Top rated in dept"
+         */
+        presets?: SortPreset<T>[];
       };
       download?: {
         visible: boolean;
         allowedTypes?: string[];
         nameForDownloadFile?: string;
-        allowedColumnsToDownload?: string[];
-        excludeColumnsFromDownload?: string[];
+        allowedColumnsToDownload?: FieldKey<T>[];
+        excludeColumnsFromDownload?: FieldKey<T>[];
       };
       filter?: boolean;
     };
@@ -1060,7 +1274,7 @@ export interface HeaderCardViewOptions {
 /**
  * Section Configuration
  */
-export interface CardSection {
+export interface CardSection<T extends DataItemShape = DataItem> {
   /**
    * Unique identifier for the section
    */
@@ -1074,7 +1288,7 @@ export interface CardSection {
   /**
    * Section-specific header configuration
    */
-  headerConfig?: HeaderCardViewOptions;
+  headerConfig?: HeaderCardViewOptions<T>;
 
   /**
    * Section content data
@@ -1089,7 +1303,7 @@ export interface CardSection {
   /**
    * Section content configuration
    */
-  content: CardContentConfig;
+  content: CardContentConfig<T>;
 
   /**
    * Whether the section is collapsible
@@ -1112,16 +1326,16 @@ export interface CardSection {
 /**
  * Segregated Data Configuration with Multiple Sections
  */
-export interface SegregatedData {
+export interface SegregatedData<T extends DataItemShape = DataItem> {
   /**
    * Main header configuration (applies to entire card)
    */
-  globalHeader?: React.ReactNode | HeaderCardViewOptions;
+  globalHeader?: React.ReactNode | HeaderCardViewOptions<T>;
 
   /**
    * Array of card sections
    */
-  sections: CardSection[];
+  sections: CardSection<T>[];
 
   /**
    * Footer configuration (applies to entire card)
@@ -1209,6 +1423,33 @@ export type EditableFieldConfiguration = {
  */
 export type SortConfiguration = {
   canSort: boolean;
+
+  /**
+   * Natural (alphanumeric) ordering of text, the digits compare by value: "item 2" before "item 10".
+   */
+  natural?: boolean;
+
+  /**
+   * Locale(s) and sensitivity of the text collation (Intl.Collator), e.g. `locale: 'de'`, `sensitivity: 'base'` (default: the browser's locale).
+   */
+  locale?: string | string[];
+  sensitivity?: 'base' | 'accent' | 'case' | 'variant';
+
+  /**
+   * Where the empty values (null, undefined, '', invalid numbers and dates) go, in both directions (default: "last").
+   */
+  nulls?: 'first' | 'last';
+
+  /**
+   * Explicit order of the values, e.g. `['Active', 'On Leave', 'Inactive']` for a "status" field. The values not listed come after them.
+   */
+  rankOrder?: string[];
+
+  /**
+   * Comparator of two non-empty values, replaces the comparison of the `typeOfField`.
+   * Example: (a, b) => a.length - b.length
+   */
+  compareFn?(a: unknown, b: unknown): number;
 };
 
 /**
@@ -1229,12 +1470,65 @@ export type FilterConfiguration = {
    * - "range" → Numeric range selector (e.g., price, rating).
    * - "date" → Date picker or date range selector (e.g., hireDate).
    */
-  filterType?: "text" | "select" | "range" | "date";
+  filterType?: "text" | "select" | "range" | "date" | (string & {});
 
   /**
-   * Options for "select" filter types.
+   * Options for "select" filter types, the distinct values of the field in the data when not given.
    */
   filterOptions?: string[];
+
+  /**
+   * Bounds of "range" filters, the smallest and largest values of the field in the data when not given.
+   */
+  min?: number;
+  max?: number;
+
+  /**
+   * Step of the "range" slider (default: 1 for whole number bounds, a hundredth of the range rounded to a power of ten otherwise).
+   */
+  step?: number;
+
+  /**
+   * Unit of the "range" values, written after them ("4.5 kg") or before them ("$12") with `unitPosition: 'before'`.
+   */
+  unit?: string;
+  unitPosition?: 'before' | 'after';
+
+  /**
+   * First and last selectable days (YYYY-MM-DD) of "date" filters, the first and last dates of the field in the data when not given.
+   */
+  dateRange?: { start: string; end: string };
+
+  /**
+   * IANA timezone the days of "date" filters are compared in, e.g. 'America/New_York' (default: the browser's).
+   */
+  timezone?: string;
+};
+
+/**
+ * SearchConfiguration
+ * -------------------
+ * Configuration for searching capabilities of a field.
+ */
+export type SearchConfiguration = {
+  /**
+   * Whether the field is searched by the header search.
+   */
+  canSearch: boolean;
+
+  /**
+   * Relevance of a match in this field (default 1).
+   * Search results are ranked by the sum of the weights of their matching fields.
+   */
+  weight?: number;
+
+  /**
+   * How the field matches the search query:
+   * - "contains" → The value contains the query (default).
+   * - "startsWith" → The value starts with the query (e.g., codes, ticket ids).
+   * - "exact" → The value equals the query (e.g., SKU, email).
+   */
+  matchMode?: "contains" | "startsWith" | "exact";
 };
 
 /**
@@ -1243,12 +1537,12 @@ export type FilterConfiguration = {
  * A metadata schema that describes how each field in a data item should behave in a generic card view, table, or list.
  * This structure allows dynamic generation of UI components like filters, sorters, editors, and field renderers.
  */
-export type DataItemDescription = {
+export type DataItemDescription<T extends DataItemShape = DataItem> = {
   /**
    * The exact key from the data object.
    * Example: "name", "email", "hireDate".
    */
-  key: string;
+  key: FieldKey<T>;
 
   /**
    * The human-readable label to display for this field in the UI.
@@ -1279,6 +1573,12 @@ export type DataItemDescription = {
    */
   filterConfiguration?: FilterConfiguration;
 
+  /**
+   * Searching configuration for this field.
+   * When no field is searchable, the "string" fields are searched.
+   */
+  searchConfiguration?: SearchConfiguration;
+
   /**
    * Editing configuration for this field.
    */
@@ -1288,10 +1588,10 @@ export type DataItemDescription = {
 /**
  * Discriminated union type for card content configuration
  */
-export type CardContentConfig =
-  | { contentDisplayType: 'field-config'; content: CardFieldConfig }
+export type CardContentConfig<T extends DataItemShape = DataItem> =
+  | { contentDisplayType: 'field-config'; content: CardFieldConfig<T> }
   | { contentDisplayType: 'template-config'; content: CardTemplateConfig }
-  | { contentDisplayType: 'default-view'; content: CardDefaultView };
+  | { contentDisplayType: 'default-view'; content: CardDefaultView<T> };
 
 /**
 * Loader sizes available for the CardLoader component.
@@ -1551,23 +1851,36 @@ export type CardLoaderProps =
  *   ]
  * };
  */
-export interface CardViewOptions {
+export interface CardViewOptions<T extends DataItemShape = DataItem> {
   /**
    * Data mode identifier
    */
   dataMode: 'segregated' | 'normal';
 
   /**
-   * Normal data array
+   * Identifier of the view, the state kept across reloads (e.g. recent searches) is stored under it
    */
-  data: DataItem[];
+  viewId?: string;
 
-  dataItemDescription: DataItemDescription[];
+  /**
+   * Normal data array (ignored when `dataSource` is set)
+   */
+  data: T[];
+
+  /**
+   * Server-side data source, the view renders the items it returns for the current
+   * page, sort, filters and search instead of processing `data` in the browser
+   * @example
+   * dataSource: { fetch: (query, { signal }) => api.searchEmployees(query, signal) }
+   */
+  dataSource?: CardViewDataSource<T>;
+
+  dataItemDescription: DataItemDescription<T>[];
 
   /**
    * Segregated data structure with multiple sections
    */
-  segregatedData?: SegregatedData;
+  segregatedData?: SegregatedData<T>;
   /**
    * 
    * @param item 
@@ -1577,10 +1890,10 @@ export interface CardViewOptions {
    * as per their requirement
    * @returns 
    */
-  renderCard?: (item: DataItem) => React.ReactNode;
+  renderCard?: (item: T) => React.ReactNode;
 
   // Header card view 
-  headerCardView?: HeaderCardViewOptions;
+  headerCardView?: HeaderCardViewOptions<T>;
 
   /**
    * Content configuration with type discriminator
@@ -1613,7 +1926,7 @@ export interface CardViewOptions {
    *   }
    * }
    */
-  content: CardContentConfig;
+  content: CardContentConfig<T>;
 
   // Layout
   layout?: CardLayoutOptions;
@@ -1626,13 +1939,102 @@ export interface CardViewOptions {
 
   // Data
   dataOperations?: DataOperations;
+  /**
+   * Runs filters, search and sort in a Web Worker for large data.
+   * Function stages (dataOperations functions, instance filter/sort) stay on the main thread.
+   */
+  workerProcessing?: WorkerProcessingOptions;
+  /**
+   * Searches an inverted index of the searchable fields (multi-term queries, prefix matching,
+   * ranking by field weight and term frequency) instead of scanning every item
+   */
+  searchIndex?: SearchIndexOptions;
+  /**
+   * Highlights the search matches in the displayed values of the cards
+   */
+  searchHighlight?: SearchHighlightOptions;
+  /**
+   * Custom filter types of this view (handler, FilterModal input and chip text), usable as `filterConfiguration.filterType`.
+   * `registerFilterType` registers a type for every view.
+   */
+  filterTypes?: FilterTypeDefinition[];
 
   // Features
   paginationOptions?: PaginationConfig;
   zoom?: ZoomConfig;
   virtualScroll?: boolean;
+  /**
+   * Viewport settings used when `virtualScroll` is enabled
+   * @example
+   * virtualScrollOptions: { height: 800, estimatedRowHeight: 280 }
+   */
+  virtualScrollOptions?: {
+    /** Height of the scrollable viewport in px (default: 600) */
+    height?: number;
+    /** Estimated height of a row of cards in px, refined once rendered (default: 320) */
+    estimatedRowHeight?: number;
+    /** Rows rendered above/below the viewport (default: 3) */
+    overscan?: number;
+  };
   lazyLoad?: boolean;
   cardLoaderProps?: CardLoaderProps;
+  /**
+   * Create/edit form generated from `dataItemDescription`
+   * @example
+   * itemForm: { enabled: true, onSubmit: (values, { mode }) => api.save(values, mode) }
+   */
+  itemForm?: ItemFormOptions;
+}
+
+/**
+ * Field errors of the item form, keyed by field key
+ * @example
+ * { email: 'This email is already used' }
+ */
+export type DataItemFormErrors = Record<string, string>;
+
+/**
+ * Context passed to the item form submit handler
+ * @property {'create' | 'edit'} mode - Whether the form adds a new item or edits one
+ * @property {DataItem} [item] - The edited item (edit mode)
+ */
+export interface DataItemFormContext {
+  mode: 'create' | 'edit';
+  item?: DataItem;
+}
+
+/**
+ * Configuration of the item form (create and edit)
+ *
+ * Every described field is listed with the editor of its `editableConfiguration`
+ * (or the default editor of its `typeOfField`) and validated on submit.
+ *
+ * @property {boolean} enabled - Shows the "Add item" button and the edit button on cards
+ * @property {boolean} [allowCreate=true] - Shows the "Add item" button
+ * @property {boolean} [allowEdit=true] - Shows the edit button on cards
+ * @property {string} [addButtonLabel='Add item'] - Label of the "Add item" button
+ * @property {{ create?: string; edit?: string }} [title] - Titles of the form
+ * @property {number | string} [width=420] - Width of the form on desktop
+ * @property {Function} [onSubmit] - Save hook, may be async. Returning (or resolving) field errors keeps the form
+ *   open and shows them under the fields, throwing shows the error message. Otherwise the item is added
+ *   with `addDataItem` or updated with `updateDataItem`.
+ * @property {Function} [generateId] - Id of a created item (defaults to the submitted `id` or a generated one)
+ */
+export interface ItemFormOptions {
+  enabled: boolean;
+  allowCreate?: boolean;
+  allowEdit?: boolean;
+  addButtonLabel?: string;
+  title?: {
+    create?: string;
+    edit?: string;
+  };
+  width?: number | string;
+  onSubmit?: (
+    values: Partial<DataItem>,
+    context: DataItemFormContext
+  ) => void | DataItemFormErrors | Promise<void | DataItemFormErrors>;
+  generateId?: (values: Partial<DataItem>) => string;
 }
 
 /**
@@ -1640,10 +2042,12 @@ export interface CardViewOptions {
  * @interface RenderCardViewProps
  * @property {CardViewOptions} options - The configuration object for the card view
  * @property {HTMLDivElement | null} ref - Reference to the card view container
+ * @property {CardViewEngine} [engine] - Engine driving the view (created from options when omitted)
  */
 export interface RenderCardViewProps {
   options: CardViewOptions;
   refForFunctionalities: any;
+  engine?: CardViewEngine;
 }
 /**
  * -----------------------------
@@ -1704,8 +2108,8 @@ export interface ConfigState {
   filters: Record<string, any>;
   /** Current sorting configuration. */
   sortConfig: Record<string, any>;
-  /** Current search configuration (case/exact flags etc.). */
-  searchConfig: { caseSensitive: boolean; exactMatch: boolean };
+  /** Current search configuration (case/exact/fuzzy flags etc.). */
+  searchConfig: { caseSensitive: boolean; exactMatch: boolean; fuzzy?: boolean };
 }
 
 export interface ConfigMethods<T = any> {
@@ -1716,7 +2120,7 @@ export interface ConfigMethods<T = any> {
   /** Directly set sorting configuration. */
   setSortConfig: (sort: Record<string, any>) => void;
   /** Directly set search configuration. */
-  setSearchConfig: (config: { caseSensitive: boolean; exactMatch: boolean }) => void;
+  setSearchConfig: (config: { caseSensitive: boolean; exactMatch: boolean; fuzzy?: boolean; fuzzyThreshold?: number }) => void;
   /** Update table data externally. */
   setData: (data: T[]) => void;
 }
@@ -1726,6 +2130,8 @@ export interface ToggleMethods {
   toggleCaseSensitive: () => void;
   /** Toggle exact match mode in search. */
   toggleExactMatch: () => void;
+  /** Toggle fuzzy (typo tolerant) mode in search. */
+  toggleFuzzy: () => void;
 }
 
 export interface ResetMethods {
@@ -1733,12 +2139,12 @@ export interface ResetMethods {
   resetAll: () => void;
 }
 
-export interface CardViewConfigMethods {
+export interface CardViewConfigMethods<T extends DataItemShape = DataItem> {
   /**
    * General method to update any part of the configuration
    * @param updates - Partial configuration updates
    */
-  updateConfig: (updates: Partial<CardViewOptions>) => void;
+  updateConfig: (updates: Partial<CardViewOptions<T>>) => void;
 
   /**
    * Reset configuration to initial state
@@ -1749,7 +2155,7 @@ export interface CardViewConfigMethods {
    * Export current configuration
    * @returns Current card view configuration
    */
-  exportConfig: () => CardViewOptions;
+  exportConfig: () => CardViewOptions<T>;
 
   // Data management methods
   /**
@@ -1893,7 +2299,7 @@ export interface CardLoaderMethods {
 /**
  * Main interface for table functionalities exposed via useImperativeHandle
  */
-export interface CardFunctionalities<T = any> {
+export interface CardFunctionalities<T extends DataItemShape = any> {
   paginationFunctionalities: {
     paginationMethods: PaginationMethods;
     paginationUtils: PaginationUtils;
@@ -1906,13 +2312,21 @@ export interface CardFunctionalities<T = any> {
     toggleMethods: ToggleMethods;
     resetMethods: ResetMethods;
   };
-  updateOptionsForCardView: CardViewConfigMethods;
-  cardLoader: CardLoaderMethods
+  updateOptionsForCardView: CardViewConfigMethods<T>;
+  cardLoader: CardLoaderMethods;
+  /** Imperative card view API, see {@link CardViewInstance} */
+  instance: CardViewInstance;
 }
 
 
 /**
  * Card view instance API
+ * 
+ * Imperative handle for a mounted card view. It is exposed through the ref
+ * (as `instance` on {@link CardFunctionalities}) and through the card view
+ * context, and every call goes through the same filter/search/sort/pagination
+ * pipeline used by the header controls.
+ * 
  * @interface CardViewInstance
  * @property {Function} updateData - Updates the displayed data
  * @property {Function} updateConfig - Updates the configuration
@@ -1921,17 +2335,87 @@ export interface CardFunctionalities<T = any> {
  * @property {Function} filter - Applies custom filter
  * @property {Function} sort - Applies custom sort
  * @property {Function} refresh - Forces re-render
- * @property {Function} scrollToItem - Scrolls to specific item
+ * @property {Function} scrollToItem - Scrolls to specific item, false when the item is not in the (loaded) data
  * @property {Function} exportAs - Exports content in various formats
+ * 
+ * @example
+ * const cardViewRef = useRef<CardFunctionalities>(null);
+ * 
+ * cardViewRef.current?.instance.search('john', ['name', 'email']);
+ * cardViewRef.current?.instance.selectItem('emp-1001');
+ * const csv = await cardViewRef.current?.instance.exportAs('csv');
  */
 export interface CardViewInstance {
+  // Core methods
+  /** Replaces the complete data array */
   updateData: (newData: DataItem[]) => void;
+  /** Merges partial options into the current configuration */
   updateConfig: (newConfig: Partial<CardViewOptions>) => void;
+  /** Resets filters, search, sort, selection and loaders, and detaches the instance from context */
   destroy: () => void;
+  /** Returns the currently selected items */
   getSelected: () => DataItem[];
+  /** Applies a custom predicate on top of the active filters (replaces a previous predicate) */
   filter: (predicate: (item: DataItem) => boolean) => void;
+  /** Sorts with a custom comparator, overriding the field based sort until the next header sort */
   sort: (compareFn: (a: DataItem, b: DataItem) => number) => void;
+  /** Re-runs the processing pipeline and re-renders the view */
   refresh: () => void;
-  scrollToItem: (id: string) => void;
-  exportAs: (format: 'png' | 'svg' | 'json') => Promise<string>;
-}
\ No newline at end of file
+  /** Scrolls to the card with the given id, switching page first when pagination is enabled */
+  scrollToItem: (id: string) => boolean;
+  /**
+   * Exports the processed data ('json' | 'csv' as string, 'excel' as Blob)
+   * or the rendered view ('svg' markup, 'png' data url)
+   */
+  exportAs: (format: 'png' | 'svg' | 'json' | 'csv' | 'excel') => Promise<string | Blob>;
+
+  // Data management (not available with a `dataSource`: a warning is logged and nothing changes)
+  addItem: (item: DataItem) => void;
+  /** @returns false when no item with the id exists, or with a `dataSource` */
+  removeItem: (id: string) => boolean;
+  /** @returns false when no item with the id exists, or with a `dataSource` */
+  updateItem: (id: string, updates: Partial<DataItem>) => boolean;
+  getItem: (id: string) => DataItem | undefined;
+
+  // Selection management
+  selectItem: (id: string) => void;
+  deselectItem: (id: string) => void;
+  selectAll: () => void;
+  clearSelection: () => void;
+  isSelected: (id: string) => boolean;
+
+  // Section management (for segregated data)
+  addSection?: (section: CardSection) => void;
+  removeSection?: (sectionId: string) => boolean;
+  toggleSection?: (sectionId: string) => void;
+
+  // Layout control
+  setLayoutType: (type: CardLayoutOptions['type']) => void;
+  setColumns: (columns: number) => void;
+
+  // Pagination
+  nextPage: () => void;
+  previousPage: () => void;
+  goToPage: (page: number) => void;
+  getCurrentPage: () => number;
+
+  // Search and filter
+  /** Searches the given fields (defaults to the current search fields) */
+  search: (query: string, fields?: string[]) => void;
+  clearSearch: () => void;
+  /** Match score of an item for the current search query, undefined when it does not match */
+  getMatchScore: (id: string) => number | undefined;
+  /** Clears header filters as well as any predicate set through `filter` */
+  clearAllFilters: () => void;
+
+  // Item form
+  /** Opens the item form, to edit the item with the given id (ignored when it does not exist) or to add an item */
+  openItemForm: (id?: string) => void;
+  closeItemForm: () => void;
+
+  // Utility
+  getConfig: () => CardViewOptions;
+  getElement: () => HTMLElement;
+  /** Shows or hides a loader over the whole card view */
+  setLoading: (loading: boolean) => void;
+}
@@ -1,9 +1,19 @@
 import React, { useState, useMemo, useRef, useEffect, memo } from 'react';
-import type  { DataItem, CardInteractions, CardContentConfig, CardFieldConfig, CardTemplateConfig, CardDefaultView } from '../InterfacesForCardView';
+import type  { DataItem, CardInteractions, CardContentConfig, CardFieldConfig, CardTemplateConfig, CardDefaultView, CardSection, CardLoaderProps } from '../InterfacesForCardView';
 import { getCardViewOptions } from '../cardViewComponents/CardViewContext';
 import CardLayoutWrapper from '../reusableComponent/CardLayoutWrapper';
-import { SelectionModalExample } from '../modal/SelectionModal';
+import { SelectionModalExample, type SelectableItem } from '../modal/SelectionModal';
 import { useCardInteractions } from '../customHooks/useCardInteractions';
+import { useCardViewEngine } from '../customHooks/useCardViewEngine';
+import SectionHeader from '../header/SectionHeader';
+import VirtualCardGrid from '../reusableComponent/VirtualCardGrid';
+import InlineFieldEditor from '../reusableComponent/InlineFieldEditor';
+import { toStoredValue } from '../utils/FieldEditorHelpers';
+import { getHighlightRanges, getMatchedFields, getSearchedFields, highlightHtml, toCssText } from '../utils/SearchHighlight';
+import type { HighlightSearch } from '../utils/SearchHighlight';
+import HighlightedText from '../reusableComponent/HighlightedText';
+import { EditButton } from '../Icons';
+import { IconButton } from '@mui/material';
 import PropTypes from "prop-types";
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -28,6 +38,7 @@ const theme = {
     border: '#e9ecef',
     hover: '#f5f7ff',
     selected: '#e6eeff',
+    highlight: '#fff3bf',
   },
   spacing: {
     xs: '4px',
@@ -148,18 +159,518 @@ const globalStyles = `
   }
 `;
 
+/**
+ * Normalizes the data of a section (single record or array) into card items.
+ * Items without an id get one derived from the section id and their position.
+ * @param {CardSection} section - Section of the segregated data
+ * @returns {DataItem[]} The items to render in the section
+ */
+const getSectionItems = (section: CardSection): DataItem[] => {
+  const records = Array.isArray(section.data) ? section.data : [section.data];
+  return records
+    .filter(record => record && typeof record === 'object')
+    .map((record, index) => ({
+      ...record,
+      id: record.id != null ? String(record.id) : `${section.id}-${index}`
+    }));
+};
+
+/**
+ * CardLoader Component
+ *
+ * A flexible loading overlay with multiple animation variants.
+ * Designed to be placed inside a card, modal, or any container
+ * where asynchronous data fetching/loading occurs.
+ *
+ * @component
+ *
+ * @example
+ * // Default loader (medium spinner with overlay and message)
+ * <CardLoader />
+ *
+ * @example
+ * // Large dots loader with a custom message
+ * <CardLoader size="large" variant="dots" message="Fetching data..." />
+ *
+ * @example
+ * // Bars loader without overlay
+ * <CardLoader variant="bars" overlay={false} />
+ *
+ * @example
+ * // Small pulse-circle loader with custom background
+ * <CardLoader
+ *   variant="pulse-circle"
+ *   size="small"
+ *   message="Please wait..."
+ *   style={{ backgroundColor: "rgba(0,0,0,0.6)" }}
+ * />
+ *
+ * @param {Object} props - Component props
+ * @param {"small"|"medium"|"large"} [props.size="medium"] - Controls loader size (container dimensions & stroke thickness).
+ * @param {"spinner"|"dots"|"bars"|"pulse-circle"} [props.variant="spinner"] - The type of loader animation.
+ * @param {boolean} [props.overlay=true] - If true, displays a semi-transparent background overlay with blur.
+ * @param {string} [props.message="Loading..."] - Message text displayed under the loader (set empty string `""` to hide).
+ * @param {string} [props.className] - Custom CSS class for container.
+ * @param {Object} [props.style] - Inline style overrides for the container.
+ *
+ * @returns {JSX.Element} A styled loading indicator component with optional overlay and message.
+ */
+
+const CardLoader = ({
+  size = "medium",
+  variant = "spinner",
+  overlay = true,
+  message = "Loading...",
+  className = "",
+  style = {},
+}) => {
+  const sizeMap = {
+    small: { container: 24, stroke: 3 },
+    medium: { container: 32, stroke: 4 },
+    large: { container: 48, stroke: 5 },
+  };
+
+  const { container, stroke } = sizeMap[size] || sizeMap.medium;
+
+  // 🔹 Variants
+  const Spinner = memo(() => (
+    <motion.div
+      style={{
+        width: container,
+        height: container,
+        border: `${stroke}px solid ${theme.colors.primaryLight}`,
+        borderTop: `${stroke}px solid ${theme.colors.primary}`,
+        borderRadius: "50%",
+      }}
+      animate={{ rotate: 360 }}
+      transition={{
+        repeat: Infinity,
+        duration: 1,
+        ease: "linear",
+      }}
+    />
+  ));
+
+  const Dots = memo(() => (
+    <div style={{ display: "flex", gap: "6px" }}>
+      {[0, 1, 2].map((i) => (
+        <motion.div
+          key={i}
+          style={{
+            width: container / 3,
+            height: container / 3,
+            borderRadius: "50%",
+            backgroundColor: theme.colors.primary,
+          }}
+          animate={{ scale: [0.8, 1, 0.8], opacity: [0.3, 1, 0.3] }}
+          transition={{
+            repeat: Infinity,
+            duration: 1.4,
+            delay: i * 0.2,
+            ease: "easeInOut",
+          }}
+        />
+      ))}
+    </div>
+  ));
+
+  const Bars = memo(() => (
+    <div style={{ display: "flex", gap: "4px", width: container }}>
+      {[0, 1, 2].map((i) => (
+        <motion.div
+          key={i}
+          style={{
+            flex: 1,
+            height: container,
+            backgroundColor: theme.colors.primary,
+            borderRadius: 4,
+          }}
+          animate={{ scaleY: [0.5, 1, 0.5] }}
+          transition={{
+            repeat: Infinity,
+            duration: 1.2,
+            delay: i * 0.15,
+            ease: "easeInOut",
+          }}
+        />
+      ))}
+    </div>
+  ));
+
+  const PulseCircle = memo(() => (
+    <motion.div
+      style={{
+        width: container,
+        height: container,
+        borderRadius: "50%",
+        backgroundColor: theme.colors.primary,
+      }}
+      animate={{ scale: [0.8, 1, 0.8], opacity: [0.3, 1, 0.3] }}
+      transition={{
+        repeat: Infinity,
+        duration: 1.5,
+        ease: "easeInOut",
+      }}
+    />
+  ));
+
+  const LoaderComponent =
+    {
+      spinner: Spinner,
+      dots: Dots,
+      bars: Bars,
+      "pulse-circle": PulseCircle,
+    }[variant] || Spinner;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={className}
+      style={{
+        position: "absolute",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: overlay ? "rgba(255,255,255,0.9)" : "transparent",
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        borderRadius: theme.borderRadius.lg,
+        zIndex: 10,
+        backdropFilter: overlay ? "blur(3px)" : "none",
+        ...style,
+      }}
+    >
+      <LoaderComponent />
+      {message && (
+        <motion.p
+          style={{
+            marginTop: 12,
+            color: theme.colors.muted,
+            fontSize: "0.875rem",
+            fontWeight: 500,
+          }}
+          animate={{ opacity: [0.5, 1, 0.5] }}
+          transition={{ repeat: Infinity, duration: 1.5, ease: "easeInOut" }}
+        >
+          {message}
+        </motion.p>
+      )}
+    </div>
+  );
+};
+// 🔹 Prop validation
+CardLoader.propTypes = {
+  size: PropTypes.oneOf(["small", "medium", "large"]),
+  variant: PropTypes.oneOf(["spinner", "dots", "bars", "pulse-circle"]),
+  overlay: PropTypes.bool,
+  message: PropTypes.string,
+  className: PropTypes.string,
+  style: PropTypes.object,
+};
+
+/**
+ * Applies an inline edit of a card field (main view or section)
+ */
+type FieldEditHandler = (item: DataItem, key: string, value: unknown) => void;
+
+interface CardItemProps {
+  item: DataItem;
+  isSelected: boolean;
+  isLoading: boolean;
+  cardLoaderProps?: CardLoaderProps;
+  interactions?: CardInteractions;
+  onSelect: (item: DataItem) => void;
+  onFieldEdit?: FieldEditHandler;
+  onEdit?: (item: DataItem) => void;
+  /** Labels of the fields matching the search that the card does not display */
+  matchedFields?: string[];
+  contentConfig: CardContentConfig | null;
+  style?: React.CSSProperties;
+  allowAnimations: boolean;
+  renderDefaultView: (item: DataItem, config: CardDefaultView, onFieldEdit?: FieldEditHandler) => React.ReactNode;
+  renderTemplateView: (item: DataItem, config: CardTemplateConfig) => React.ReactNode;
+  renderFieldConfigView: (item: DataItem, config: CardFieldConfig, onFieldEdit?: FieldEditHandler) => React.ReactNode;
+}
+
+/**
+ * 
+ * @param param0 
+ * @description CardItem is a reusable component that can be used to render each card item.
+ * It lives outside CardViewRenderer so cards keep their state (hover, inline editors) across renders.
+ * @returns 
+ */
+const CardItem = ({
+  item,
+  isSelected,
+  isLoading,
+  cardLoaderProps,
+  interactions,
+  onSelect,
+  onFieldEdit,
+  onEdit,
+  matchedFields,
+  contentConfig,
+  style: parentStyle,
+  allowAnimations,
+  renderDefaultView,
+  renderTemplateView,
+  renderFieldConfigView
+}: CardItemProps) => {
+  // Now each card can safely use hooks
+  const {
+    clickAnimation,
+    ripplePosition,
+    isHovered,
+    cardRef,
+    handleClick,
+    handleMouseEnter,
+    handleMouseLeave
+  } = useCardInteractions(
+    (item, e) => {
+      if (interactions?.selectable) {
+        onSelect(item);
+      }
+      interactions?.onClick?.(item, e);
+    },
+    interactions?.onDoubleClick,
+    interactions?.onHover
+  );
+
+
+  // Enhanced item style with better interaction states
+  const itemStyle = {
+    margin: theme.spacing.sm,
+    border: isSelected
+      ? `2px solid ${theme.colors.primary}`
+      : `1px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.lg,
+    cursor: interactions?.selectable || interactions?.onClick ? 'pointer' : 'default',
+    transition: `all ${theme.transitions.normal}`,
+    transform: isSelected
+      ? 'translateY(-4px)'
+      : isHovered
+        ? 'translateY(-8px)'
+        : 'none',
+    boxShadow: isSelected
+      ? `${theme.shadows.lg}, 0 0 0 4px ${theme.colors.primaryLight}`
+      : isHovered
+        ? theme.shadows.md
+        : theme.shadows.sm,
+    position: 'relative',
+    overflow: 'hidden',
+    backgroundColor: isSelected ? theme.colors.selected : theme.colors.white,
+    animation: clickAnimation === 'single'
+      ? 'clickPulse 0.6s ease-out'
+      : clickAnimation === 'double'
+        ? 'doubleClickPulse 0.6s ease-out'
+        : isSelected
+          ? 'selectionPulse 2s ease-in-out infinite'
+          : 'none',
+    ...parentStyle,
+  };
+
+  const handleDragStart = (e: any) => {
+    e.dataTransfer.setData('text/plain', JSON.stringify(item));
+    interactions?.onDragStart?.(item, e);
+  };
+
+  const handleDragEnd = (e: any) => {
+    interactions?.onDragEnd?.(item, e);
+  };
+
+  return (
+    <motion.div
+      ref={cardRef}
+      style={{
+        ...(allowAnimations ? itemStyle : parentStyle),
+        position: "relative",
+        overflow: "hidden",
+      }}
+      onClick={(e) => {
+        if (!isLoading) handleClick(item, e);
+      }}
+      onMouseEnter={(e) => {
+        if (!isLoading) handleMouseEnter(item, e);
+      }}
+      onMouseLeave={handleMouseLeave}
+      draggable={interactions?.draggable && !isLoading}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      data-card-id={item.id}
+      aria-selected={isSelected}
+      aria-busy={isLoading}
+      role={interactions?.selectable ? "option" : undefined}
+      layout
+    >
+      {/* Loading overlay with fade animation */}
+      <AnimatePresence>
+        {isLoading && (
+          <motion.div
+            key="loader"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+            style={{
+              position: "absolute",
+              top: 0,
+              left: 0,
+              width: "100%",
+              height: "100%",
+              backgroundColor: "rgba(255,255,255,0.7)",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              zIndex: 2,
+            }}
+          >
+            <CardLoader {...cardLoaderProps} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Selection indicator */}
+      {interactions?.selectable && (
+        <div
+          style={{
+            position: "absolute",
+            top: theme.spacing.xs,
+            right: theme.spacing.xs,
+            width: "20px",
+            height: "20px",
+            borderRadius: "50%",
+            backgroundColor: isSelected ? theme.colors.primary : theme.colors.border,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 1,
+          }}
+        >
+          {isSelected && (
+            <svg
+              width="12"
+              height="12"
+              viewBox="0 0 24 24"
+              fill="none"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path
+                d="M20 6L9 17L4 12"
+                stroke="white"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          )}
+        </div>
+      )}
+
+      {/* Opens the item form (itemForm option) */}
+      {onEdit && !isLoading && (
+        <IconButton
+          size="small"
+          aria-label="Edit item"
+          onClick={(e) => {
+            e.stopPropagation();
+            onEdit(item);
+          }}
+          onDoubleClick={(e) => e.stopPropagation()}
+          style={{ position: "absolute", top: theme.spacing.xs, left: theme.spacing.xs, zIndex: 1 }}
+        >
+          <EditButton style={{ fontSize: "14px" }} />
+        </IconButton>
+      )}
+
+      {/* Ripple effect */}
+      {ripplePosition && !isLoading && (
+        <span
+          style={{
+            position: "absolute",
+            borderRadius: "50%",
+            backgroundColor:
+              clickAnimation === "single"
+                ? "rgba(72, 149, 239, 0.3)"
+                : "rgba(63, 55, 201, 0.3)",
+            transform: "scale(0)",
+            animation: "rippleEffect 0.6s linear",
+            width: "20px",
+            height: "20px",
+            left: ripplePosition.x - 10,
+            top: ripplePosition.y - 10,
+            pointerEvents: "none",
+            zIndex: 1,
+          }}
+        />
+      )}
+
+      {/* Card content - no animation to prevent re-trigger */}
+      <div style={{ opacity: isLoading ? 0.5 : 1, transition: "opacity 0.3s" }}>
+        {contentConfig?.contentDisplayType === "default-view" &&
+          renderDefaultView(item, contentConfig?.content, onFieldEdit)}
+        {contentConfig?.contentDisplayType === "template-config" &&
+          renderTemplateView(item, contentConfig?.content)}
+        {contentConfig?.contentDisplayType === "field-config" &&
+          renderFieldConfigView(item, contentConfig?.content, onFieldEdit)}
+      </div>
+
+      {/* Why the card matched the search, when the matching fields are not displayed */}
+      {matchedFields && matchedFields.length > 0 && (
+        <div
+          style={{
+            padding: `${theme.spacing.xs} ${theme.spacing.md} ${theme.spacing.sm}`,
+            fontSize: '0.75rem',
+            color: theme.colors.muted,
+          }}
+        >
+          Matched in: {matchedFields.join(', ')}
+        </div>
+      )}
+    </motion.div>
+  );
+
+}
+
+/**
+ * Builds the update of a (possibly nested, e.g. 'address.city') field of an item
+ * @param {Record<string, any>} item - The item being edited
+ * @param {string} path - Key or dotted path of the field
+ * @param {unknown} value - The new value
+ * @returns {Partial<DataItem>} The top level update to apply to the item
+ */
+const setFieldValue = (item: Record<string, any>, path: string, value: unknown): Partial<DataItem> => {
+  const [key, ...rest] = path.split('.');
+  if (!rest.length) return { [key]: value };
+  return { [key]: { ...item[key], ...setFieldValue(item[key] || {}, rest.join('.'), value) } };
+};
+
+interface CardViewRendererProps {
+  /** Opens the item form for a card, shows the edit button on the cards when provided */
+  onEditItem?: (item: DataItem) => void;
+}
 
-const CardViewRenderer = () => {
-  const { options, customProperties } = getCardViewOptions();
-  const { data, content, interactions, cardStyle } = options
+const CardViewRenderer = ({ onEditItem }: CardViewRendererProps = {}) => {
+  const { options, engine, configMethods } = getCardViewOptions();
+  const { data, content, interactions, cardStyle, dataMode, segregatedData, virtualScroll } = options
   const contentConfig = content || null
   const { style } = cardStyle || {}
-  const [selectedItems, setSelectedItems] = useState<any[]>([]);
+  // Selection, loaders and the items to render live in the engine
+  const { data: engineData, pageData, selectedIds, loadingIds, collapsedSections, searchConfig } = useCardViewEngine(engine);
+  // Selected item ids per section (segregated data mode), sections are not part of the engine data
+  const [sectionSelection, setSectionSelection] = useState<Record<string, string[]>>({});
+  // Same result as engine.getSelected(), built from the snapshot so it follows data and selection changes
+  const selectedItems = useMemo(
+    () => selectedIds
+      .map(id => engineData.find(item => item.id === id))
+      .filter(item => item !== undefined),
+    [engineData, selectedIds]
+  );
   const { cardLoaderProps } = options || {};
-  const [loadingCards, setLoadingCards] = useState<Set<string>>(new Set());
-  const dataToRender = customProperties?.isDataProcessed
-    ? customProperties?.useProcessedData?.processedData
-    : data;
+  const dataToRender = pageData;
 
   /**
    * Determines whether the selection modal should be shown
@@ -168,7 +679,38 @@ const CardViewRenderer = () => {
    */
   const canSeeSelectModal = interactions?.selectable && interactions?.multiSelect;
   const { allowAnimations = true } = interactions || {};
-  console.log("dataToRender", customProperties, dataToRender)
+
+  // Search matches are highlighted in the searched items of the main view (sections are not searched)
+  const { searchHighlight, searchIndex } = options;
+  const {
+    enabled: isHighlightEnabled = true,
+    style: highlightStyle,
+    className: highlightClassName,
+    showMatchedFields = true
+  } = searchHighlight || {};
+  const highlightSearch = useMemo<HighlightSearch | null>(() => (
+    isHighlightEnabled && dataMode !== 'segregated' && searchConfig.query?.trim()
+      ? { ...searchConfig, indexed: searchIndex?.enabled && !searchConfig.fuzzy ? { prefix: searchIndex.prefix } : undefined }
+      : null
+  ), [isHighlightEnabled, dataMode, searchConfig, searchIndex?.enabled, searchIndex?.prefix]);
+  const highlightMarkStyle = useMemo<React.CSSProperties>(() => ({
+    backgroundColor: theme.colors.highlight,
+    color: 'inherit',
+    padding: 0,
+    borderRadius: theme.borderRadius.sm,
+    ...highlightStyle
+  }), [highlightStyle]);
+  const highlightMarkClassName = ['card-view-search-highlight', highlightClassName].filter(Boolean).join(' ');
+
+  /**
+   * Notify the host whenever the selection changes (clicks, selection modal or instance calls)
+   */
+  useEffect(() => {
+    return engine.on('selectionChange', () => {
+      interactions?.onSelect?.(engine.getSelected());
+    });
+  }, [engine, interactions]);
+
   /**
    * Handles item selection logic with visual feedback
    * @param {DataItem} item - The item being selected/deselected
@@ -176,29 +718,179 @@ const CardViewRenderer = () => {
   const handleSelect = (item: DataItem) => {
     if (!interactions?.selectable) return;
 
-    let newSelectedItems: DataItem[];
-    if (interactions.multiSelect) {
-      const isSelected = selectedItems.some(selected => selected.id === item.id);
-      newSelectedItems = isSelected
-        ? selectedItems.filter(selected => selected.id !== item.id)
-        : [...selectedItems, item];
-    } else {
-      newSelectedItems = selectedItems.some(selected => selected.id === item.id)
-        ? []
-        : [item];
+    // Single or multi selection is handled by the engine (kept in sync with interactions.multiSelect)
+    engine.toggleSelection(item.id);
+  };
+
+  /**
+   * Handles item selection inside a section (segregated data mode)
+   * @param {CardSection} section - The section the item belongs to
+   * @param {CardInteractions} sectionInteractions - Interactions applied to the section
+   * @param {DataItem} item - The item being selected/deselected
+   */
+  const handleSectionSelect = (section: CardSection, sectionInteractions: CardInteractions | undefined, item: DataItem) => {
+    if (!sectionInteractions?.selectable) return;
+
+    const selected = sectionSelection[section.id] || [];
+    const newSelected = selected.includes(item.id)
+      ? selected.filter(id => id !== item.id)
+      : sectionInteractions.multiSelect ? [...selected, item.id] : [item.id];
+
+    setSectionSelection(prev => ({ ...prev, [section.id]: newSelected }));
+    sectionInteractions.onSelect?.(getSectionItems(section).filter(sectionItem => newSelected.includes(sectionItem.id)));
+  };
+
+  /**
+   * Returns the editing configuration of a field, when it is editable
+   * @param {string} key - Key of the field in the data item description
+   */
+  const getEditableConfiguration = (key: string) => {
+    const configuration = options?.dataItemDescription?.find(description => description.key === key)?.editableConfiguration;
+    return configuration?.isEditable ? configuration : undefined;
+  };
+
+  /**
+   * Applies an inline edit: calls the field's onEdit, then updates the item.
+   * Files are passed to onEdit as they are, the item keeps the file name.
+   * @param {DataItem} item - The edited item
+   * @param {string} key - Key of the edited field
+   * @param {unknown} value - The validated new value
+   * @returns {Partial<DataItem>} The update applied to the item
+   */
+  const applyFieldEdit = (item: DataItem, key: string, value: unknown) => {
+    getEditableConfiguration(key)?.onEdit?.(item.id, value);
+    return setFieldValue(item, key, toStoredValue(value));
+  };
+
+  /**
+   * Handles an inline edit of a card of the main view
+   */
+  const handleFieldEdit = (item: DataItem, key: string, value: unknown) => {
+    const updates = applyFieldEdit(item, key, value);
+    // With a data source, onEdit saves the value: the loaded item is updated until the next fetch
+    if (engine.getSnapshot().dataSource) {
+      engine.updateItem(item.id, updates);
+      return;
+    }
+    configMethods.updateDataItem(item.id, updates);
+  };
+
+  /**
+   * Handles an inline edit of a card inside a section (segregated data mode)
+   */
+  const handleSectionFieldEdit = (section: CardSection, item: DataItem, key: string, value: unknown) => {
+    const updates = applyFieldEdit(item, key, value);
+    configMethods.updateSection(section.id, {
+      data: Array.isArray(section.data)
+        ? section.data.map((record, index) =>
+          (record?.id != null ? String(record.id) : `${section.id}-${index}`) === item.id ? { ...record, ...updates } : record)
+        : { ...section.data, ...updates }
+    });
+  };
+
+  /**
+   * Wraps the display of a field with its inline editor when the field is editable
+   * @param {DataItem} item - The item the field belongs to
+   * @param {string} key - Key (or dotted path) of the field
+   * @param {unknown} value - Current value of the field
+   * @param {React.ReactNode} display - Read-only display of the value
+   * @param {Function} onFieldEdit - Applies the edit (main view or section)
+   */
+  const renderEditableValue = (
+    item: DataItem,
+    key: string,
+    value: unknown,
+    display: React.ReactNode,
+    onFieldEdit?: FieldEditHandler
+  ) => {
+    const configuration = getEditableConfiguration(key);
+    if (!configuration || !onFieldEdit) return display;
+
+    return (
+      <InlineFieldEditor
+        itemId={item.id}
+        field={key}
+        value={value}
+        configuration={configuration}
+        onSave={(newValue) => onFieldEdit(item, key, newValue)}
+      >
+        {display}
+      </InlineFieldEditor>
+    );
+  };
+
+  /**
+   * Displays a searched field value with its search matches highlighted
+   * @param {DataItem} item - The item the field belongs to
+   * @param {string} key - Key of the field
+   * @param {unknown} value - Current value of the field
+   * @param {React.ReactNode} display - Display of the value without highlights (default: the value)
+   */
+  const renderHighlightedValue = (item: DataItem, key: string, value: unknown, display = value as React.ReactNode) => {
+    if (!highlightSearch || value == null || typeof value === 'object') return display;
+    if (!getSearchedFields(item, highlightSearch).includes(key)) return display;
+    return (
+      <HighlightedText
+        text={String(value)}
+        ranges={getHighlightRanges(value, highlightSearch, key)}
+        style={highlightMarkStyle}
+        className={highlightMarkClassName}
+      />
+    );
+  };
+
+  /**
+   * Fields displayed by the content configuration of a card
+   * @param {DataItem} item - The item of the card
+   * @returns {Set<string>} Keys of the displayed fields (first key of nested paths)
+   */
+  const getDisplayedFields = (item: DataItem): Set<string> => {
+    switch (contentConfig?.contentDisplayType) {
+      case 'default-view': {
+        const excludeKeys: string[] = contentConfig.content.excludeKeys || [];
+        return new Set(Object.keys(item).filter(key => !excludeKeys.includes(key)));
+      }
+      case 'field-config':
+        return new Set(contentConfig.content.rows
+          .filter(row => row.visible !== false)
+          .flatMap(row => [row.left, row.center, row.right])
+          .flatMap(section => section?.elements || [])
+          .filter(element => element.field)
+          .map(element => String(element.field).split('.')[0]));
+      case 'template-config': {
+        // Placeholders and helper arguments
+        const references = contentConfig.content.template.match(/{{[^}]*}}/g) || [];
+        return new Set(references.flatMap(reference => reference.match(/[\w$-]+/g) || []));
+      }
+      default:
+        return new Set();
     }
+  };
 
-    setSelectedItems(newSelectedItems);
-    interactions?.onSelect?.(newSelectedItems);
+  /**
+   * Labels of the fields of an item matching the search that its card does not display
+   * @param {DataItem} item - The item of the card
+   */
+  const getHiddenMatchedFields = (item: DataItem): string[] => {
+    if (!highlightSearch || !showMatchedFields) return [];
+    const displayedFields = getDisplayedFields(item);
+    return getMatchedFields(item, highlightSearch)
+      .filter(field => !displayedFields.has(field))
+      .map(field => options?.dataItemDescription?.find(description => description.key === field)?.label || field);
   };
 
   /**
    * Renders a default key-value view of the data item
    * @param {DataItem} item - The data item to render
    * @param {CardDefaultView} config - Configuration for the default view
+   * @param {Function} onFieldEdit - Applies inline edits of the editable fields
    * @returns {React.ReactElement} A styled key-value grid
    */
-  const renderDefaultView = (item: DataItem, config: CardDefaultView) => {
+  const renderDefaultView = (
+    item: DataItem,
+    config: CardDefaultView,
+    onFieldEdit?: FieldEditHandler
+  ) => {
     const excludeKeys = config.excludeKeys || [];
     const keys = Object.keys(item).filter(key => key !== 'id' && !excludeKeys.includes(key));
     return (
@@ -233,7 +925,7 @@ const CardViewRenderer = () => {
                 }}
               >
                 {/* find the label for the key from the dataItemDescription  and so that  */}
-                {options?.dataItemDescription.find(dataItem => dataItem.key === key)?.label || key}
+                {options?.dataItemDescription?.find(dataItem => dataItem.key === key)?.label || key}
 
               </div>
 
@@ -247,7 +939,7 @@ const CardViewRenderer = () => {
                   whiteSpace: "nowrap",
                 }}
               >
-                {String(item[key])}
+                {renderEditableValue(item, key, item[key], renderHighlightedValue(item, key, item[key], String(item[key])), onFieldEdit)}
               </div>
             </div>
           ))}
@@ -289,11 +981,17 @@ const CardViewRenderer = () => {
         </div>
       `;
 
-      // Replace placeholders with actual values
+      // Replace placeholders with actual values, the search matches of the searched fields are highlighted
+      const searchedFields = highlightSearch ? getSearchedFields(item, highlightSearch) : [];
+      const markAttributes = { class: highlightMarkClassName, style: toCssText(highlightMarkStyle) };
       Object.keys(item).forEach(key => {
+        const value = String(item[key]);
+        // Values with markup or entities are inserted as they are, the matches are found in their raw text
+        const canHighlight = highlightSearch && searchedFields.includes(key) && !/[<&]/.test(value);
+        const ranges = canHighlight ? getHighlightRanges(item[key], highlightSearch, key) : [];
         renderedTemplate = renderedTemplate.replace(
           new RegExp(`{{${key}}}`, 'g'),
-          String(item[key])
+          () => (ranges.length ? highlightHtml(value, ranges, markAttributes) : value)
         );
       });
 
@@ -351,9 +1049,14 @@ const CardViewRenderer = () => {
    * Renders an item using a fully configurable field-based layout
    * @param {DataItem} item - The data item to render
    * @param {CardFieldConfig} config - Field configuration
+   * @param {Function} onFieldEdit - Applies inline edits of the editable fields
    * @returns {React.ReactElement} A component with configured layout
    */
-  const renderFieldConfigView = (item: DataItem, config: CardFieldConfig) => {
+  const renderFieldConfigView = (
+    item: DataItem,
+    config: CardFieldConfig,
+    onFieldEdit?: FieldEditHandler
+  ) => {
     const cardStyle = {
       width: '100%',
       maxWidth: '100%',
@@ -370,18 +1073,23 @@ const CardViewRenderer = () => {
       return fieldPath.split('.').reduce((obj, key) => obj?.[key], item);
     };
 
-    // Render element content
+    // Render element content, fields described as editable get an inline editor
     const renderElementContent = (element: any) => {
-      if (element.component) {
-        if (typeof element.component === 'function') {
-          return element.component(element.field ? getFieldValue(element.field) : item);
+      const content = (() => {
+        if (element.component) {
+          if (typeof element.component === 'function') {
+            return element.component(element.field ? getFieldValue(element.field) : item);
+          }
+          return element.component;
         }
-        return element.component;
-      }
-      if (element.field) {
-        return getFieldValue(element.field);
-      }
-      return null;
+        if (element.field) {
+          return renderHighlightedValue(item, element.field, getFieldValue(element.field));
+        }
+        return null;
+      })();
+      return element.field
+        ? renderEditableValue(item, element.field, getFieldValue(element.field), content, onFieldEdit)
+        : content;
     };
 
     return (
@@ -617,19 +1325,15 @@ const CardViewRenderer = () => {
 
   // Updated handlers for working with complete objects
   const handleSelectAll = () => {
-    setSelectedItems([...dataToRender]); // Store complete objects
+    engine.selectAll();
   };
 
   const handleClearAll = () => {
-    setSelectedItems([]);
+    engine.clearSelection();
   };
 
   const handleToggleItem = (item: any) => {
-    setSelectedItems(prev =>
-      prev.some(selectedItem => selectedItem.id === item.id)
-        ? prev.filter(selectedItem => selectedItem.id !== item.id)
-        : [...prev, item]
-    );
+    engine.toggleSelection(item.id);
   };
 
   /**
@@ -637,7 +1341,7 @@ const CardViewRenderer = () => {
    * @param cardId - The ID of the card to show loader for
    */
   const showCardLoader = (cardId: string) => {
-      setLoadingCards(prev => new Set(prev).add(cardId));
+    engine.showLoader(cardId);
   };
 
   /**
@@ -645,11 +1349,7 @@ const CardViewRenderer = () => {
    * @param cardId - The ID of the card to hide loader for
    */
   const hideCardLoader = (cardId: string) => {
-    setLoadingCards(prev => {
-      const newSet = new Set(prev);
-      newSet.delete(cardId);
-      return newSet;
-    });
+    engine.hideLoader(cardId);
   };
 
   /**
@@ -658,447 +1358,137 @@ const CardViewRenderer = () => {
    * @returns boolean indicating if the card is loading
    */
   const isCardLoading = (cardId: string): boolean => {
-    return loadingCards.has(cardId);
+    return loadingIds.includes(cardId);
   };
   /**
-   * CardLoader Component
-   *
-   * A flexible loading overlay with multiple animation variants.
-   * Designed to be placed inside a card, modal, or any container
-   * where asynchronous data fetching/loading occurs.
-   *
-   * @component
-   *
-   * @example
-   * // Default loader (medium spinner with overlay and message)
-   * <CardLoader />
-   *
-   * @example
-   * // Large dots loader with a custom message
-   * <CardLoader size="large" variant="dots" message="Fetching data..." />
-   *
-   * @example
-   * // Bars loader without overlay
-   * <CardLoader variant="bars" overlay={false} />
-   *
-   * @example
-   * // Small pulse-circle loader with custom background
-   * <CardLoader
-   *   variant="pulse-circle"
-   *   size="small"
-   *   message="Please wait..."
-   *   style={{ backgroundColor: "rgba(0,0,0,0.6)" }}
-   * />
-   *
-   * @param {Object} props - Component props
-   * @param {"small"|"medium"|"large"} [props.size="medium"] - Controls loader size (container dimensions & stroke thickness).
-   * @param {"spinner"|"dots"|"bars"|"pulse-circle"} [props.variant="spinner"] - The type of loader animation.
-   * @param {boolean} [props.overlay=true] - If true, displays a semi-transparent background overlay with blur.
-   * @param {string} [props.message="Loading..."] - Message text displayed under the loader (set empty string `""` to hide).
-   * @param {string} [props.className] - Custom CSS class for container.
-   * @param {Object} [props.style] - Inline style overrides for the container.
-   *
-   * @returns {JSX.Element} A styled loading indicator component with optional overlay and message.
+   * Renders a card of the main (normal mode) view
+   * @param {DataItem} item - The item to render
+   * @returns {React.ReactElement} The card
    */
-
-  const CardLoader = ({
-    size = "medium",
-    variant = "spinner",
-    overlay = true,
-    message = "Loading...",
-    className = "",
-    style = {},
-  }) => {
-    const sizeMap = {
-      small: { container: 24, stroke: 3 },
-      medium: { container: 32, stroke: 4 },
-      large: { container: 48, stroke: 5 },
-    };
-
-    const { container, stroke } = sizeMap[size] || sizeMap.medium;
-
-    // 🔹 Variants
-    const Spinner = memo(() => (
-      <motion.div
-        style={{
-          width: container,
-          height: container,
-          border: `${stroke}px solid ${theme.colors.primaryLight}`,
-          borderTop: `${stroke}px solid ${theme.colors.primary}`,
-          borderRadius: "50%",
-        }}
-        animate={{ rotate: 360 }}
-        transition={{
-          repeat: Infinity,
-          duration: 1,
-          ease: "linear",
-        }}
-      />
-    ));
-
-    const Dots = memo(() => (
-      <div style={{ display: "flex", gap: "6px" }}>
-        {[0, 1, 2].map((i) => (
-          <motion.div
-            key={i}
-            style={{
-              width: container / 3,
-              height: container / 3,
-              borderRadius: "50%",
-              backgroundColor: theme.colors.primary,
-            }}
-            animate={{ scale: [0.8, 1, 0.8], opacity: [0.3, 1, 0.3] }}
-            transition={{
-              repeat: Infinity,
-              duration: 1.4,
-              delay: i * 0.2,
-              ease: "easeInOut",
-            }}
-          />
-        ))}
-      </div>
-    ));
-
-    const Bars = memo(() => (
-      <div style={{ display: "flex", gap: "4px", width: container }}>
-        {[0, 1, 2].map((i) => (
-          <motion.div
-            key={i}
-            style={{
-              flex: 1,
-              height: container,
-              backgroundColor: theme.colors.primary,
-              borderRadius: 4,
-            }}
-            animate={{ scaleY: [0.5, 1, 0.5] }}
-            transition={{
-              repeat: Infinity,
-              duration: 1.2,
-              delay: i * 0.15,
-              ease: "easeInOut",
-            }}
-          />
-        ))}
-      </div>
-    ));
-
-    const PulseCircle = memo(() => (
-      <motion.div
-        style={{
-          width: container,
-          height: container,
-          borderRadius: "50%",
-          backgroundColor: theme.colors.primary,
-        }}
-        animate={{ scale: [0.8, 1, 0.8], opacity: [0.3, 1, 0.3] }}
-        transition={{
-          repeat: Infinity,
-          duration: 1.5,
-          ease: "easeInOut",
-        }}
-      />
-    ));
-
-    const LoaderComponent =
-      {
-        spinner: Spinner,
-        dots: Dots,
-        bars: Bars,
-        "pulse-circle": PulseCircle,
-      }[variant] || Spinner;
-
-    return (
-      <div
-        role="status"
-        aria-live="polite"
-        className={className}
-        style={{
-          position: "absolute",
-          top: 0,
-          left: 0,
-          right: 0,
-          bottom: 0,
-          backgroundColor: overlay ? "rgba(255,255,255,0.9)" : "transparent",
-          display: "flex",
-          flexDirection: "column",
-          alignItems: "center",
-          justifyContent: "center",
-          borderRadius: theme.borderRadius.lg,
-          zIndex: 10,
-          backdropFilter: overlay ? "blur(3px)" : "none",
-          ...style,
-        }}
-      >
-        <LoaderComponent />
-        {message && (
-          <motion.p
-            style={{
-              marginTop: 12,
-              color: theme.colors.muted,
-              fontSize: "0.875rem",
-              fontWeight: 500,
-            }}
-            animate={{ opacity: [0.5, 1, 0.5] }}
-            transition={{ repeat: Infinity, duration: 1.5, ease: "easeInOut" }}
-          >
-            {message}
-          </motion.p>
-        )}
-      </div>
-    );
-  };
-  // 🔹 Prop validation
-  CardLoader.propTypes = {
-    size: PropTypes.oneOf(["small", "medium", "large"]),
-    variant: PropTypes.oneOf(["spinner", "dots", "bars", "pulse-circle"]),
-    overlay: PropTypes.bool,
-    message: PropTypes.string,
-    className: PropTypes.string,
-    style: PropTypes.object,
-  };
+  const renderCardItem = (item: DataItem) => (
+    <CardItem
+      key={item.id}
+      item={item}
+      isSelected={selectedIds.includes(item.id)}
+      isLoading={isCardLoading(item.id)}
+      cardLoaderProps={cardLoaderProps}
+      interactions={interactions}
+      onSelect={handleSelect}
+      onFieldEdit={handleFieldEdit}
+      onEdit={onEditItem}
+      matchedFields={getHiddenMatchedFields(item)}
+      contentConfig={contentConfig}
+      style={style}
+      allowAnimations={allowAnimations}
+      renderDefaultView={renderDefaultView}
+      renderTemplateView={renderTemplateView}
+      renderFieldConfigView={renderFieldConfigView}
+    />
+  );
 
   /**
-   * 
-   * @param param0 
-   * @description CardItem is a reusable component that can be used to render each card item
-   * @returns 
+   * Renders the segregated data mode: global header, one area per section
+   * (own header, content config, interactions and collapse state) and the footer
+   * @returns {React.ReactElement} The segregated card view
    */
-  const CardItem = ({
-    item,
-    isSelected,
-    interactions,
-    onSelect,
-    contentConfig,
-    style: parentStyle,
-    allowAnimations,
-    renderDefaultView,
-    renderTemplateView,
-    renderFieldConfigView
-  }) => {
-    // Now each card can safely use hooks
-    const {
-      clickAnimation,
-      ripplePosition,
-      isHovered,
-      cardRef,
-      handleClick,
-      handleMouseEnter,
-      handleMouseLeave
-    } = useCardInteractions(
-      (item, e) => {
-        if (interactions?.selectable) {
-          onSelect(item);
-        }
-        interactions?.onClick?.(item, e);
-      },
-      interactions?.onDoubleClick,
-      interactions?.onHover
-    );
-
-
-    // Enhanced item style with better interaction states
-    const itemStyle = {
-      margin: theme.spacing.sm,
-      border: isSelected
-        ? `2px solid ${theme.colors.primary}`
-        : `1px solid ${theme.colors.border}`,
-      borderRadius: theme.borderRadius.lg,
-      cursor: interactions?.selectable || interactions?.onClick ? 'pointer' : 'default',
-      transition: `all ${theme.transitions.normal}`,
-      transform: isSelected
-        ? 'translateY(-4px)'
-        : isHovered
-          ? 'translateY(-8px)'
-          : 'none',
-      boxShadow: isSelected
-        ? `${theme.shadows.lg}, 0 0 0 4px ${theme.colors.primaryLight}`
-        : isHovered
-          ? theme.shadows.md
-          : theme.shadows.sm,
-      position: 'relative',
-      overflow: 'hidden',
-      backgroundColor: isSelected ? theme.colors.selected : theme.colors.white,
-      animation: clickAnimation === 'single'
-        ? 'clickPulse 0.6s ease-out'
-        : clickAnimation === 'double'
-          ? 'doubleClickPulse 0.6s ease-out'
-          : isSelected
-            ? 'selectionPulse 2s ease-in-out infinite'
-            : 'none',
-      ...parentStyle,
-    };
-
-    const handleDragStart = (e: any) => {
-      e.dataTransfer.setData('text/plain', JSON.stringify(item));
-      interactions?.onDragStart?.(item, e);
-    };
-
-    const handleDragEnd = (e: any) => {
-      interactions?.onDragEnd?.(item, e);
-    };
-
-    // Your rendering functions (renderDefaultView, renderTemplateView, renderFieldConfigView)
-    // can be moved here or kept as utilities
-
-    const isLoading = isCardLoading(item.id);
-
-
+  const renderSegregatedView = () => {
+    const { globalHeader, sections = [], footer, globalStyle, sectionContainerStyle } = segregatedData || {};
 
     return (
-      <motion.div
-        ref={cardRef}
-        style={{
-          ...(allowAnimations ? itemStyle : parentStyle),
-          position: "relative",
-          overflow: "hidden",
-        }}
-        onClick={(e) => {
-          if (!isLoading) handleClick(item, e);
-        }}
-        onMouseEnter={(e) => {
-          if (!isLoading) handleMouseEnter(item, e);
-        }}
-        onMouseLeave={handleMouseLeave}
-        draggable={interactions?.draggable && !isLoading}
-        onDragStart={handleDragStart}
-        onDragEnd={handleDragEnd}
-        aria-selected={isSelected}
-        aria-busy={isLoading}
-        role={interactions?.selectable ? "option" : undefined}
-        layout
-      >
-        {/* Loading overlay with fade animation */}
-        <AnimatePresence>
-          {isLoading && (
-            <motion.div
-              key="loader"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              transition={{ duration: 0.3 }}
-              style={{
-                position: "absolute",
-                top: 0,
-                left: 0,
-                width: "100%",
-                height: "100%",
-                backgroundColor: "rgba(255,255,255,0.7)",
-                display: "flex",
-                alignItems: "center",
-                justifyContent: "center",
-                zIndex: 2,
-              }}
-            >
-              <CardLoader {...cardLoaderProps} />
-            </motion.div>
-          )}
-        </AnimatePresence>
-
-        {/* Selection indicator */}
-        {interactions?.selectable && (
-          <div
-            style={{
-              position: "absolute",
-              top: theme.spacing.xs,
-              right: theme.spacing.xs,
-              width: "20px",
-              height: "20px",
-              borderRadius: "50%",
-              backgroundColor: isSelected ? theme.colors.primary : theme.colors.border,
-              display: "flex",
-              alignItems: "center",
-              justifyContent: "center",
-              zIndex: 1,
-            }}
-          >
-            {isSelected && (
-              <svg
-                width="12"
-                height="12"
-                viewBox="0 0 24 24"
-                fill="none"
-                xmlns="http://www.w3.org/2000/svg"
-              >
-                <path
-                  d="M20 6L9 17L4 12"
-                  stroke="white"
-                  strokeWidth="2"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              </svg>
-            )}
-          </div>
-        )}
+      <div style={globalStyle}>
+        <style>{globalStyles}</style>
+        {globalHeader && <SectionHeader header={globalHeader} />}
+        {sections.map(section => {
+          const sectionInteractions = section.interactions || interactions;
+          const isCollapsed = !!section.collapsible && collapsedSections.includes(section.id);
+          const selected = sectionSelection[section.id] || [];
+          const sectionItems = getSectionItems(section);
 
-        {/* Ripple effect */}
-        {ripplePosition && !isLoading && (
-          <span
-            style={{
-              position: "absolute",
-              borderRadius: "50%",
-              backgroundColor:
-                clickAnimation === "single"
-                  ? "rgba(72, 149, 239, 0.3)"
-                  : "rgba(63, 55, 201, 0.3)",
-              transform: "scale(0)",
-              animation: "rippleEffect 0.6s linear",
-              width: "20px",
-              height: "20px",
-              left: ripplePosition.x - 10,
-              top: ripplePosition.y - 10,
-              pointerEvents: "none",
-              zIndex: 1,
-            }}
-          />
+          return (
+            <section
+              key={section.id}
+              data-section-id={section.id}
+              style={{ ...sectionContainerStyle, ...section.style }}
+            >
+              <SectionHeader
+                header={section.header}
+                headerConfig={section.headerConfig}
+                collapsible={section.collapsible}
+                collapsed={isCollapsed}
+                onToggle={() => engine.toggleSection(section.id)}
+              />
+              <AnimatePresence initial={false}>
+                {!isCollapsed && sectionItems.length > 0 && (
+                  <motion.div
+                    key="content"
+                    initial={{ height: 0, opacity: 0 }}
+                    animate={{ height: 'auto', opacity: 1 }}
+                    exit={{ height: 0, opacity: 0 }}
+                    transition={{ duration: 0.3 }}
+                    style={{ overflow: 'hidden' }}
+                  >
+                    <CardLayoutWrapper>
+                      {sectionItems.map(item =>
+                        <CardItem
+                          key={item.id}
+                          item={item}
+                          isSelected={selected.includes(item.id)}
+                          isLoading={isCardLoading(item.id)}
+                          cardLoaderProps={cardLoaderProps}
+                          interactions={sectionInteractions}
+                          onSelect={(selectedItem: DataItem) => handleSectionSelect(section, sectionInteractions, selectedItem)}
+                          onFieldEdit={(editedItem: DataItem, key: string, value: unknown) => handleSectionFieldEdit(section, editedItem, key, value)}
+                          contentConfig={section.content || contentConfig}
+                          style={style}
+                          allowAnimations={sectionInteractions?.allowAnimations ?? allowAnimations}
+                          renderDefaultView={renderDefaultView}
+                          renderTemplateView={renderTemplateView}
+                          renderFieldConfigView={renderFieldConfigView}
+                        />
+                      )}
+                    </CardLayoutWrapper>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </section>
+          );
+        })}
+        {footer && (
+          React.isValidElement(footer) || typeof footer !== 'object'
+            ? <div style={{ padding: theme.spacing.md }}>{footer}</div>
+            : <SectionHeader header={footer} />
         )}
-
-        {/* Card content - no animation to prevent re-trigger */}
-        <div style={{ opacity: isLoading ? 0.5 : 1, transition: "opacity 0.3s" }}>
-          {contentConfig?.contentDisplayType === "default-view" &&
-            renderDefaultView(item, contentConfig?.content)}
-          {contentConfig?.contentDisplayType === "template-config" &&
-            renderTemplateView(item, contentConfig?.content)}
-          {contentConfig?.contentDisplayType === "field-config" &&
-            renderFieldConfigView(item, contentConfig?.content)}
-        </div>
-      </motion.div>
+      </div>
     );
+  };
 
-  }
   // Return the component with the loader functions exposed
   return {
-    CardView: (
+    CardView: dataMode === 'segregated' ? renderSegregatedView() : (
       <div style={{
         display: 'grid',
       }}>
         {canSeeSelectModal && (
           <SelectionModalExample
             items={data as any}
-            selectedItems={selectedItems}
+            selectedItems={selectedItems as SelectableItem[]}
             onSelectAll={handleSelectAll}
             onClearAll={handleClearAll}
             onToggleItem={handleToggleItem}
           />
         )}
         <style>{globalStyles}</style>
-        <CardLayoutWrapper>
-          {dataToRender.map((item: any) =>
-            <CardItem
-              key={item.id}
-              item={item}
-              isSelected={selectedItems.some(selected => selected.id === item.id)}
-              interactions={interactions}
-              onSelect={handleSelect}
-              contentConfig={contentConfig}
-              style={style}
-              allowAnimations={allowAnimations}
-              renderDefaultView={renderDefaultView}
-              renderTemplateView={renderTemplateView}
-              renderFieldConfigView={renderFieldConfigView}
-            />
-          )}
-        </CardLayoutWrapper>
+        {virtualScroll ? (
+          // Only the rows in the viewport are rendered (large data sets)
+          <VirtualCardGrid
+            items={dataToRender}
+            renderCard={(item) => renderCardItem(item)}
+          />
+        ) : (
+          <CardLayoutWrapper>
+            {dataToRender.map((item: any) => renderCardItem(item))}
+          </CardLayoutWrapper>
+        )}
       </div>
     ),
     showCardLoader,
@@ -1,12 +1,22 @@
 // CardViewContext.tsx
 import React, { createContext, useContext, ReactNode } from 'react';
-import type { CardViewOptions, CardViewInstance } from '../InterfacesForCardView';
+import type { CardViewOptions, CardViewInstance, CardViewConfigMethods } from '../InterfacesForCardView';
+import { CardViewEngine } from '../utils/CardViewEngine';
+import { toFilterHandlers } from '../utils/FilterRegistry';
+import { useCardViewConfig } from '../customHooks/useCardViewConfig';
+import { useDestroyOwnedEngine } from '../customHooks/useCardViewEngine';
+import type { VirtualCardGridHandle } from '../reusableComponent/VirtualCardGrid';
 
 /**
  * Defines the shape of the context value for the Card View system.
  * 
- * - `options`: Current card view options passed to the main component.
- * - `instance`: Optional reference to the live card view instance (if needed).
+ * - `options`: Current card view options (the `options` prop, plus the changes made through `configMethods`).
+ * - `configMethods`: Methods to update parts of the options (data, layout, sections...).
+ * - `engine`: Headless engine holding data, filters, sort, search, pagination, selection and loaders.
+ * - `instance`: Reference to the live card view instance, once it has been registered.
+ * - `registerInstance`: Registers (or clears) the live card view instance.
+ * - `virtualGrid`: Handle of the mounted virtual grid, when `virtualScroll` is enabled.
+ * - `registerVirtualGrid`: Registers (or clears) the virtual grid handle.
  * - `updateOptions`: A method to update the current options dynamically.
  * - `customProperties`: Object containing custom properties added dynamically.
  * - `addCustomProperty`: Method to add custom properties to the context.
@@ -14,8 +24,13 @@ import type { CardViewOptions, CardViewInstance } from '../InterfacesForCardView
  */
 interface CardViewContextType {
   options: CardViewOptions;
+  configMethods: Omit<CardViewConfigMethods, 'updateContent'>;
+  engine: CardViewEngine;
   refForFunctionalities?: any;
   instance?: CardViewInstance;
+  registerInstance: (instance?: CardViewInstance) => void;
+  virtualGrid?: VirtualCardGridHandle;
+  registerVirtualGrid: (grid?: VirtualCardGridHandle) => void;
   updateOptions?: (newOptions: Partial<CardViewOptions>) => void;
   customProperties: Record<string, any>;
   addCustomProperty: (key: string, value: any) => void;
@@ -34,12 +49,14 @@ const CardViewContext = createContext<CardViewContextType | undefined>(undefined
  * 
  * - `options`: The initial configuration for the card view component.
  * - `instance`: Optional card view instance object.
+ * - `engine`: Optional engine to drive the view from outside (created from `options` otherwise).
  * - `children`: React children that should have access to the context.
  */
 interface CardViewProviderProps {
   options: CardViewOptions;
   refForFunctionalities: any;
   instance?: CardViewInstance;
+  engine?: CardViewEngine;
   children?: ReactNode;
 }
 
@@ -62,19 +79,81 @@ export const CardViewProvider: React.FC<CardViewProviderProps> = ({
   options,
   refForFunctionalities,
   instance,
+  engine,
   children,
 }) => {
-  const [currentOptions, setCurrentOptions] = React.useState<CardViewOptions>(options);
+  const { config: currentOptions, methods: configMethods } = useCardViewConfig(options);
+  const [cardViewEngine] = React.useState(() => engine ?? new CardViewEngine({
+    data: options.dataSource ? [] : options.data || [],
+    dataOperations: options.dataOperations,
+    dataSource: options.dataSource,
+    filterHandlers: toFilterHandlers(options.filterTypes),
+    workerProcessing: options.workerProcessing,
+    searchIndex: options.searchIndex,
+    pagination: {
+      enabled: !!options.paginationOptions?.enabled,
+      pageSize: options.paginationOptions?.itemsPerPage || 10,
+    },
+    multiSelect: !!options.interactions?.multiSelect,
+    collapsedSections: (options.segregatedData?.sections || [])
+      .filter(section => section.collapsible && section.initiallyCollapsed)
+      .map(section => section.id),
+  }));
+  // The engine created here (not the one of the host) is destroyed on unmount and hard refresh
+  useDestroyOwnedEngine(cardViewEngine, !engine);
+
+  /**
+   * Follow the filter types of the view (e.g. changed through updateConfig).
+   * An external engine keeps its own handlers until the view sets filter types.
+   */
+  const viewFilterTypes = currentOptions.filterTypes;
+  const syncedFilterTypes = React.useRef(engine ? undefined : options.filterTypes);
+  React.useEffect(() => {
+    if (syncedFilterTypes.current === viewFilterTypes) return;
+    syncedFilterTypes.current = viewFilterTypes;
+    cardViewEngine.setFilterHandlers(toFilterHandlers(viewFilterTypes));
+  }, [cardViewEngine, viewFilterTypes]);
   const [customProperties, setCustomProperties] = React.useState<Record<string, any>>({});
+  const [currentInstance, setCurrentInstance] = React.useState<CardViewInstance | undefined>(instance);
+  const [virtualGrid, setVirtualGrid] = React.useState<VirtualCardGridHandle | undefined>();
+  const previousOptions = React.useRef(options);
+
+  /**
+   * Follow the options passed by the host application.
+   * A new `options` object replaces the current options, runtime changes included.
+   */
+  React.useEffect(() => {
+    if (previousOptions.current === options) return;
+    previousOptions.current = options;
+    configMethods.updateConfig(options);
+  }, [options, configMethods]);
+
+  /**
+   * Registers the live card view instance so nested components can use it.
+   * Passing nothing clears the instance (e.g. after `destroy`).
+   * 
+   * @param newInstance The instance built by the card view.
+   */
+  const registerInstance = React.useCallback((newInstance?: CardViewInstance) => {
+    setCurrentInstance(newInstance);
+  }, []);
+
+  /**
+   * Registers the virtual grid so the instance can scroll to cards that are not mounted.
+   * Passing nothing clears the handle (grid unmounted).
+   * 
+   * @param grid The handle exposed by the virtual grid.
+   */
+  const registerVirtualGrid = React.useCallback((grid?: VirtualCardGridHandle) => {
+    setVirtualGrid(grid);
+  }, []);
 
   /**
    * Updates the current card view options by merging with new partial values.
    * 
    * @param newOptions Partial updates to the card view options.
    */
-  const updateOptions = (newOptions: Partial<CardViewOptions>) => {
-    setCurrentOptions(prev => ({ ...prev, ...newOptions }));
-  };
+  const updateOptions = configMethods.updateConfig;
 
   /**
    * Adds a custom property to the context.
@@ -105,8 +184,13 @@ export const CardViewProvider: React.FC<CardViewProviderProps> = ({
   return (
     <CardViewContext.Provider value={{
       options: currentOptions,
+      configMethods,
+      engine: cardViewEngine,
       refForFunctionalities : refForFunctionalities,
-      instance,
+      instance: currentInstance,
+      registerInstance,
+      virtualGrid,
+      registerVirtualGrid,
       updateOptions,
       customProperties,
       addCustomProperty,
@@ -126,8 +210,9 @@ export const CardViewProvider: React.FC<CardViewProviderProps> = ({
  * 
  * @example
  * ```tsx
- * const { options, updateOptions, addCustomProperty, customProperties } = getCardViewOptions();
+ * const { options, updateOptions, addCustomProperty, customProperties, instance } = getCardViewOptions();
  * updateOptions({ visible: false });
+ * instance?.selectAll();
  * addCustomProperty('userPreferences', { theme: 'dark' });
  * ```
  */
@@ -0,0 +1,74 @@
+// CardViewRefreshBoundary.tsx
+import React, { useRef } from 'react';
+import type { ReactNode } from 'react';
+import { CardViewRefreshContext } from '../customHooks/useCardViewRefresh';
+
+/**
+ * Props for the `CardViewRefreshBoundary` component.
+ *
+ * - `children`: React children, every card view rendered inside them can be refreshed.
+ */
+interface CardViewRefreshBoundaryProps {
+  children?: ReactNode;
+}
+
+/**
+ * CardViewRefreshBoundary
+ *
+ * Parent wrapper that refreshes every card view rendered inside it, so host
+ * applications never have to pass dummy props to force an update.
+ *
+ * - Soft refresh: re-runs the data pipeline, filters, search, sort, pagination and selection are kept.
+ * - Hard refresh: remounts the card views with the `options` they were rendered with,
+ *   every runtime change (config methods, filters, selection...) is dropped. An external
+ *   `engine` is kept and reset (filters, sort, search, selection and loaders).
+ *
+ * @example
+ * ```tsx
+ * <CardViewRefreshBoundary>
+ *   <RefreshButtons />
+ *   <ValidateCardView options={employeesOptions} />
+ *   <ValidateCardView options={productsOptions} />
+ * </CardViewRefreshBoundary>
+ *
+ * const RefreshButtons = () => {
+ *   const { softRefresh, hardRefresh } = useCardViewRefresh();
+ *   return (
+ *     <>
+ *       <Button onClick={softRefresh}>Refresh</Button>
+ *       <Button onClick={hardRefresh}>Reset</Button>
+ *     </>
+ *   );
+ * };
+ * ```
+ */
+export const CardViewRefreshBoundary: React.FC<CardViewRefreshBoundaryProps> = ({ children }) => {
+  const [hardRefreshKey, setHardRefreshKey] = React.useState(0);
+  const cardViews = useRef(new Set<() => void>());
+
+  const registerCardView = React.useCallback((softRefresh: () => void) => {
+    cardViews.current.add(softRefresh);
+    return () => {
+      cardViews.current.delete(softRefresh);
+    };
+  }, []);
+
+  const softRefresh = React.useCallback(() => {
+    cardViews.current.forEach(refresh => refresh());
+  }, []);
+
+  const hardRefresh = React.useCallback(() => {
+    setHardRefreshKey(key => key + 1);
+  }, []);
+
+  const value = React.useMemo(
+    () => ({ hardRefreshKey, softRefresh, hardRefresh, registerCardView }),
+    [hardRefreshKey, softRefresh, hardRefresh, registerCardView]
+  );
+
+  return (
+    <CardViewRefreshContext.Provider value={value}>
+      {children}
+    </CardViewRefreshContext.Provider>
+  );
+};
@@ -1,15 +1,33 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { CardViewProvider } from './CardViewContext';
 import type {  RenderCardViewProps } from '../InterfacesForCardView';
 import ErrorBoundary from '../errorBoundary/ErrorBoundary';
 import RenderCardViewElements from './RenderCardViewElements';
+import { useCardViewHardRefreshKey } from '../customHooks/useCardViewRefresh';
 
 const RenderCardView: React.FC<RenderCardViewProps  > = (props) => {
+    // A hard refresh of the surrounding CardViewRefreshBoundary remounts the card view
+    const hardRefreshKey = useCardViewHardRefreshKey();
+    const previousHardRefreshKey = useRef(hardRefreshKey);
+    const { engine } = props;
+
+    // An external engine outlives the remount, reset it like a new one
+    useEffect(() => {
+      if (previousHardRefreshKey.current === hardRefreshKey) return;
+      previousHardRefreshKey.current = hardRefreshKey;
+      if (!engine) return;
+      engine.resetAll();
+      engine.clearSelection();
+      engine.hideAllLoaders();
+      engine.setLoading(false);
+    }, [hardRefreshKey, engine]);
     return (
     
      <CardViewProvider
+      key={hardRefreshKey}
       options={props.options}
       refForFunctionalities={props.refForFunctionalities}
+      engine={engine}
     >
       <ErrorBoundary>
          <RenderCardViewElements />
@@ -1,15 +1,24 @@
-import React, { useEffect, useState, useImperativeHandle } from 'react';
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
 import CardViewHeader from '../header/CardViewHeader';
 import CardContentViewRenderer from './CardContentViewRenderer';
 import { getCardViewOptions } from './CardViewContext';
 import { useAdvancedDataProcessing } from '../customHooks/useAdvancedDataProcessing';
 import useValuesForFunctionalitiesButtons from '../customHooks/useValuiesForFunctionalitiesButtons';
 import { AdvancedPagination } from "../reusableComponent/PaginationRenderer"
-import { usePaginatedData } from '../customHooks/usePaginatedData';
-import { usePaginationControls } from '../customHooks/usePaginationControls';
-import { useCardViewConfig } from '../customHooks/useCardViewConfig';
 import { Button } from '@mui/material';
 import CardViewRenderer from './CardContentViewRenderer';
+import { useCardViewInstance } from '../customHooks/useCardViewInstance';
+import { useCardViewEngine } from '../customHooks/useCardViewEngine';
+import { useRegisterCardViewRefresh } from '../customHooks/useCardViewRefresh';
+import CardLoader from '../reusableComponent/CardLoader';
+import InfiniteScrollSentinel from '../reusableComponent/InfiniteScrollSentinel';
+import { DataItemFormModal } from '../modal/DataItemFormModal';
+import { toStoredValue } from '../utils/FieldEditorHelpers';
+import type { DataItem, DataItemDescription, DataItemFormContext } from '../InterfacesForCardView';
+
+// Stable fallbacks, new objects would re-run the pipeline on every render
+const EMPTY_DATA_OPERATIONS = {};
+const EMPTY_DATA_ITEM_DESCRIPTIONS: DataItemDescription[] = [];
 
 const DEFAULT_PAGINATION_OPTIONS = {
   showSizeChanger: true,
@@ -38,13 +47,30 @@ const DEFAULT_PAGINATION_OPTIONS = {
  */
 const RenderCardViewElements: React.FC = () => {
   // Retrieve card view options and methods from context
-  const { options, refForFunctionalities, addCustomProperty, updateOptions } = getCardViewOptions();
-  const { configToApplyFilters } = useValuesForFunctionalitiesButtons(options?.dataItemDescription);
+  const { options, configMethods: methods, engine, refForFunctionalities, registerInstance, virtualGrid } = getCardViewOptions();
+  const { configToApplyFilters, searchOptions, sortFields } = useValuesForFunctionalitiesButtons(options?.dataItemDescription || EMPTY_DATA_ITEM_DESCRIPTIONS);
   const { paginationOptions } = options || {};
-  const { config, methods } = useCardViewConfig(options);
-  const [refresh, setRefresh] = useState(0);
-  const isPaginationEnabled = paginationOptions?.enabled;
-  const { CardView, showCardLoader, hideCardLoader } = CardViewRenderer();
+  // Sections are rendered as they are in segregated mode (no header controls or pagination)
+  const isSegregated = options?.dataMode === 'segregated';
+  const isPaginationEnabled = paginationOptions?.enabled && !isSegregated;
+  // Infinite scrolling needs the end of the list in the page viewport, the virtual grid scrolls
+  // inside its own viewport so it gets the "Load more" button instead
+  const paginationMode = paginationOptions?.mode === 'infinite' && options?.virtualScroll
+    ? 'load-more'
+    : paginationOptions?.mode || 'pages';
+  // Create/edit form generated from the data item descriptions (normal mode only)
+  const itemFormOptions = options?.itemForm;
+  const isItemFormEnabled = !!itemFormOptions?.enabled && !isSegregated;
+  const [itemForm, setItemForm] = useState<DataItemFormContext | null>(null);
+  const openItemForm = (item?: DataItem) => setItemForm({ mode: item ? 'edit' : 'create', item });
+  const { CardView, showCardLoader, hideCardLoader } = CardViewRenderer({
+    onEditItem: isItemFormEnabled && itemFormOptions?.allowEdit !== false ? openItemForm : undefined
+  });
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Pagination, the view loader (instance.setLoading) and the data source requests are held by the engine
+  const { pagination, pageData, isLoading: isViewLoading, isFetching, error: dataSourceError } = useCardViewEngine(engine);
+  // Filtering, searching, sorting and paging are done by the backend with a data source
+  const dataSource = options?.dataSource;
 
   /**
    * Handler for filter display toggle
@@ -78,6 +104,7 @@ const RenderCardViewElements: React.FC = () => {
    * @property {Function} setData - Function to update the base data
    * @property {Function} toggleCaseSensitive - Toggle case sensitivity in search
    * @property {Function} toggleExactMatch - Toggle exact match in search
+   * @property {Function} toggleFuzzy - Toggle fuzzy (typo tolerant) matching in search
    * @property {Function} resetAll - Reset all data processing to initial state
    * @property {Function} setSortConfig - Function to set sort configuration
    * @property {number} originalCount - Count of original data items
@@ -94,49 +121,64 @@ const RenderCardViewElements: React.FC = () => {
     setData,
     toggleCaseSensitive,
     toggleExactMatch,
+    toggleFuzzy,
     resetAll,
     setSortConfig,
     originalCount,
     filteredCount
   } = useAdvancedDataProcessing<any>({
-    initialData: options?.data,
-    filterConfig: configToApplyFilters || [],
+    engine,
+    initialData: options?.data || [],
+    filterConfig: configToApplyFilters,
     defaultSort: [],
-    defaultSearch: { fields: ['name', 'description'], query: '' },
+    sortFields,
+    defaultSearch: { ...searchOptions, query: '' },
     defaultCaseSensitive: false,
-    defaultExactMatch: false
-  });
-  const [current, setCurrent] = useState(1);
-  const [pageSize, setPageSize] = useState(10);
-  const returnedPaginatedData = usePaginatedData({
-    data: processedData,
-    total: processedData.length,
-    defaultPageSize: pageSize,
-    defaultCurrent: current,
+    defaultExactMatch: false,
+    dataOperations: options?.dataOperations || EMPTY_DATA_OPERATIONS
   });
+
   /**
-   * Handles pagination controls and state
-   * @function usePaginationControls
+   * Pagination controls, all of them delegate to the engine
    * @description Provides comprehensive pagination controls and utilities
-   * @returns {Object} An object containing pagination control functions and state information
    */
-  const {
-    goToPage,
-    nextPage,
-    previousPage,
-    goToFirstPage,
-    goToLastPage,
-    quickJumpToPage,
-    resetToFirstPage,
-
-    // Utility functions
-    isFirstPage,
-    isLastPage,
-    getPaginationState,
-    getPageRange,
-    currentPage,
-    totalPages
-  } = usePaginationControls(returnedPaginatedData);
+  const goToPage = (page: number) => engine.goToPage(page);
+  const nextPage = () => engine.nextPage();
+  const previousPage = () => engine.previousPage();
+  const goToFirstPage = () => engine.goToFirstPage();
+  const goToLastPage = () => engine.goToLastPage();
+  const quickJumpToPage = goToPage;
+  const resetToFirstPage = goToFirstPage;
+
+  // Utility functions
+  const isFirstPage = () => pagination.current === 1;
+  const isLastPage = () => pagination.current === pagination.totalPages;
+  const getPaginationState = () => engine.getPaginationState();
+  const getPageRange = (range?: number) => engine.getPageRange(range);
+  const currentPage = pagination.current;
+  const totalPages = pagination.totalPages;
+
+  /**
+   * Imperative card view API, shared by the ref and the context
+   */
+  const instance = useCardViewInstance({
+    config: options,
+    methods,
+    engine,
+    refresh: () => engine.refresh(),
+    openItemForm,
+    closeItemForm: () => setItemForm(null),
+    getContainer: () => containerRef.current,
+    getVirtualGrid: () => virtualGrid,
+    onDestroy: () => registerInstance(undefined),
+  });
+
+  // Make the instance available to nested components through the context
+  useEffect(() => {
+    registerInstance(instance);
+    return () => registerInstance(undefined);
+  }, [instance, registerInstance]);
+
   // Expose imperative functionalities from this component to parent via ref
 
   useImperativeHandle(refForFunctionalities, () => ({
@@ -208,6 +250,7 @@ const RenderCardViewElements: React.FC = () => {
       toggleMethods: {
         toggleCaseSensitive, // Toggle case sensitivity in search
         toggleExactMatch,    // Toggle exact match mode in search
+        toggleFuzzy,         // Toggle fuzzy (typo tolerant) mode in search
       },
 
       // Reset methods: revert all configurations and states back to default
@@ -318,7 +361,19 @@ const RenderCardViewElements: React.FC = () => {
        * <Button onClick={() => hideCardLoader("emp-1001")}>Hide Card</Button>
        */
       hideCardLoader: hideCardLoader
-    }
+    },
+
+    /**
+     * --------------------------
+     * CARD VIEW INSTANCE
+     * --------------------------
+     * Flat imperative API (data, selection, layout, pagination, search,
+     * export...) that goes through the same pipeline as the header controls.
+     * 
+     * @example
+     * ref.current.instance.scrollToItem("emp-1001");
+     */
+    instance
   }));
 
 
@@ -331,23 +386,10 @@ const RenderCardViewElements: React.FC = () => {
    */
 
   const handleSort = (newSortConfig: SortConfig | SortConfig[]) => {
-    // Clear all existing sorts first
-    setSortConfig([]);
-
-    // Apply each sort in the new config
-    if (Array.isArray(newSortConfig)) {
-      console.log("Sort clicked", processedData, newSortConfig);
-      newSortConfig.forEach(item => {
-        if (item.order !== 'none') {
-          updateSort(item.key, item.order);
-        }
-      });
-    } else {
-      console.log("Sort clicked", processedData, newSortConfig);
-      updateSort(newSortConfig?.key, newSortConfig?.order);
-    }
-
-
+    console.log("Sort clicked", processedData, newSortConfig);
+    // Applied in one update (one pipeline run or data source request), replaces a comparator set through the instance
+    const criteria = Array.isArray(newSortConfig) ? newSortConfig : newSortConfig ? [newSortConfig] : [];
+    setSortConfig(criteria.flatMap(item => (item.order === 'none' ? [] : [{ field: item.key, direction: item.order }])));
   };
   const handleFilterChange = (filters: Record<string, any>) => {
     console.log('Filter changed:', filters, configToApplyFilters);
@@ -355,74 +397,190 @@ const RenderCardViewElements: React.FC = () => {
     // You can perform additional actions here when filters change
   };
 
-  const handleSearch = (query: string) => {
-    setSearchConfig({ ...searchConfig, query });
+  const handleSearch = (query: string, field?: string) => {
+    setSearchConfig(prev => ({ ...prev, query, scope: field }));
     console.log('Search query:', query);
   };
-  const [, setTick] = useState(0);
+  /**
+   * Keep the engine in sync with the configured data, so that
+   * updateData/addDataItem/updateDataItem/removeDataItem are reflected
+   * (skipped when an external engine or a data source provides the data)
+   */
+  useEffect(() => {
+    if (options?.data && !dataSource) setData(options.data);
+  }, [options?.data, dataSource, setData]);
 
-  const reRender = () => {
-    setTick((t) => t + 1); // triggers re-render
-  };
   /**
-   * Whenever the card view configuration changes,
-   * update the card view options in the context with the new configuration
+   * Keep the worker pipeline in sync with the workerProcessing option
    */
+  const { enabled: isWorkerEnabled, minItems: workerMinItems } = options?.workerProcessing || {};
   useEffect(() => {
-    if (config) {
-      updateOptions(config);
-      reRender();
-      console.log("in config")
-    }
-  }, [JSON.stringify(config)]);
+    engine.setWorkerProcessing({ enabled: !!isWorkerEnabled, minItems: workerMinItems });
+  }, [engine, isWorkerEnabled, workerMinItems]);
+
+  /**
+   * Keep the indexed search in sync with the searchIndex option
+   */
+  const { enabled: isSearchIndexEnabled, operator: searchOperator, prefix: searchPrefix } = options?.searchIndex || {};
+  useEffect(() => {
+    engine.setSearchIndex({ enabled: !!isSearchIndexEnabled, operator: searchOperator, prefix: searchPrefix });
+  }, [engine, isSearchIndexEnabled, searchOperator, searchPrefix]);
+
+  /**
+   * Keep the engine in sync with the data source (fetches the first page when it changes)
+   */
+  useEffect(() => {
+    engine.setDataSource(dataSource || null);
+  }, [engine, dataSource]);
+
+  /**
+   * Keep the searchable fields in sync with the data item descriptions
+   */
+  useEffect(() => {
+    engine.setSearchFields(searchOptions.fields, searchOptions.fieldOptions);
+  }, [engine, searchOptions]);
 
   /**
-   * After data is processed, add a custom property to the card view
-   * to indicate that the data has been processed
-   * so that the card view can use the new  processed data
+   * Apply the fuzzy search settings of the header search (when configured)
    */
+  const fuzzySearchOptions = options?.headerCardView?.headerConfig?.defaultItems?.search?.fuzzy;
+  const hasFuzzySearchOptions = !!fuzzySearchOptions;
+  const { enabled: isFuzzyEnabled, threshold: fuzzyThreshold } = fuzzySearchOptions || {};
   useEffect(() => {
-    addCustomProperty('isDataProcessed', true);
-    addCustomProperty("useProcessedData", {
-      processedData: paginationOptions.enabled ? returnedPaginatedData.paginatedData : processedData
+    if (hasFuzzySearchOptions) engine.setFuzzySearch(!!isFuzzyEnabled, fuzzyThreshold);
+  }, [engine, hasFuzzySearchOptions, isFuzzyEnabled, fuzzyThreshold]);
+
+  /**
+   * Keep the engine in sync with the pagination and selection options
+   */
+  useEffect(() => {
+    engine.setPagination({
+      enabled: !!isPaginationEnabled,
+      pageSize: paginationOptions?.itemsPerPage,
+      mode: paginationMode === 'pages' ? 'pages' : 'infinite'
     });
-  }, [JSON.stringify(processedData), JSON.stringify(returnedPaginatedData), options]);
+  }, [engine, isPaginationEnabled, paginationOptions?.itemsPerPage, paginationMode]);
 
+  useEffect(() => {
+    engine.setMultiSelect(!!options?.interactions?.multiSelect);
+  }, [engine, options?.interactions?.multiSelect]);
+
+  // Soft refresh from a surrounding CardViewRefreshBoundary re-runs the pipeline
+  useRegisterCardViewRefresh(() => engine.refresh());
+
+  /**
+   * Saves the item form: runs the itemForm.onSubmit hook first (field errors keep the form open),
+   * then adds or updates the item
+   */
+  const handleItemFormSubmit = async (values: Partial<DataItem>) => {
+    if (!itemForm) return;
+    const serverErrors = await itemFormOptions?.onSubmit?.(values, itemForm);
+    if (serverErrors && Object.keys(serverErrors).length) return serverErrors;
+
+    // The item was saved by onSubmit, the current page is fetched again
+    if (dataSource) {
+      await engine.reload();
+      return;
+    }
+
+    const storedValues: Partial<DataItem> = {};
+    Object.entries(values).forEach(([key, value]) => {
+      storedValues[key] = toStoredValue(value);
+    });
+
+    if (itemForm.mode === 'create') {
+      methods.addDataItem({
+        ...storedValues,
+        id: itemFormOptions?.generateId?.(values) || String(storedValues.id || `item-${Date.now()}`)
+      });
+    } else if (itemForm.item) {
+      methods.updateDataItem(itemForm.item.id, storedValues);
+    }
+  };
 
   const handlePageChange = (page: number, size?: number) => {
     console.log('Page: ', page, 'PageSize: ', size);
 
-    returnedPaginatedData.updatePage(page);
-    setCurrent(page);
-    if (size != pageSize) {
-      returnedPaginatedData.updatePageSize(size);
-      setPageSize(size);
+    if (size && size !== pagination.pageSize) {
+      engine.setPageSize(size);
+    } else {
+      engine.goToPage(page);
     }
   };
 
   return (
-    <div>
+    <div ref={containerRef} style={{ position: 'relative' }}>
       {/* <Button onClick={() => previousPage()}>Previous Page </Button>
       <Button onClick={() => nextPage()}>Next Page </Button>
 
       <Button onClick={() => showCardLoader("emp-1001")}>Load Card</Button>
       <Button onClick={() => hideCardLoader("emp-1001")}>Hide Card</Button> */}
       {/* Header component with sorting capabilities */}
-      <CardViewHeader
-        onSort={handleSort}
-        onFilter={handleFilterChange}
-        onSearch={handleSearch}
-      // Additional props can be added here for filtering, search, etc.
-      />
+      {!isSegregated && (
+        <CardViewHeader
+          onSort={handleSort}
+          onFilter={handleFilterChange}
+          onSearch={handleSearch}
+          activeFilters={filters}
+          searchQuery={searchConfig.query}
+        // Additional props can be added here for filtering, search, etc.
+        />
+      )}
+      {isItemFormEnabled && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <DataItemFormModal
+            trigger={itemFormOptions?.allowCreate !== false && (
+              <Button variant="contained" size="small" onClick={() => openItemForm()}>
+                {itemFormOptions?.addButtonLabel || 'Add item'}
+              </Button>
+            )}
+            show={!!itemForm}
+            setShow={(show) => {
+              if (!show) setItemForm(null);
+            }}
+            mode={itemForm?.mode || 'create'}
+            item={itemForm?.item}
+            descriptions={options?.dataItemDescription || EMPTY_DATA_ITEM_DESCRIPTIONS}
+            title={itemForm?.mode === 'edit' ? itemFormOptions?.title?.edit : itemFormOptions?.title?.create}
+            width={itemFormOptions?.width}
+            onSubmit={handleItemFormSubmit}
+          />
+        </div>
+      )}
+      {dataSourceError && (
+        <div
+          role="alert"
+          style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', padding: '8px 12px', margin: '8px 0', borderRadius: '8px', background: 'rgba(247, 37, 133, 0.08)', color: '#f72585' }}
+        >
+          <span>{dataSourceError.message || 'The items could not be loaded'}</span>
+          <Button size="small" color="inherit" onClick={() => engine.reload()}>
+            Retry
+          </Button>
+        </div>
+      )}
       {/*Main content renderer that displays the processed data */}
       {CardView}
-      {isPaginationEnabled && (
+      {isPaginationEnabled && paginationMode === 'infinite' && (
+        <InfiniteScrollSentinel
+          onVisible={() => engine.loadMore()}
+          disabled={!pagination.hasMore || isFetching || !!dataSourceError}
+          itemCount={pageData.length}
+          rootMargin={paginationOptions?.infiniteScrollRootMargin}
+        />
+      )}
+      {isPaginationEnabled && paginationMode === 'load-more' && pagination.hasMore && (
+        <div style={{ display: 'flex', justifyContent: 'center', padding: '16px 0' }}>
+          <Button variant="outlined" onClick={() => engine.loadMore()} disabled={isFetching || !!dataSourceError}>
+            {isFetching ? 'Loading...' : paginationOptions?.loadMoreLabel || 'Load more'}
+          </Button>
+        </div>
+      )}
+      {isPaginationEnabled && paginationMode === 'pages' && (
         <AdvancedPagination
-          key={refresh}
-          currentPage={returnedPaginatedData.pagination.current}
-          totalPages={returnedPaginatedData.pagination.totalPages}
-          pageSize={returnedPaginatedData.pagination.pageSize}
-          total={processedData.length}
+          currentPage={pagination.current}
+          totalPages={pagination.totalPages}
+          pageSize={pagination.pageSize}
+          total={pagination.total}
           showSizeChanger={
             paginationOptions?.showSizeChanger
             ||
@@ -452,6 +610,7 @@ const RenderCardViewElements: React.FC = () => {
         />
 
       )}
+      {(isViewLoading || isFetching) && <CardLoader variant="spinner" {...options?.cardLoaderProps} />}
 
 
     </div>
@@ -1,28 +1,39 @@
-import { useMemo, useState } from 'react';
-import { FilterManager, DataSorter, DataSearcher } from '../utils/FunctionalityHelperFunctionsForCardView';
-import type { Filter, SortConfig, SearchConfig } from '../utils/FunctionalityHelperFunctionsForCardView';
+import { useEffect, useMemo, useState } from 'react';
+import { CardViewEngine } from '../utils/CardViewEngine';
+import { useCardViewEngine, useDestroyOwnedEngine } from './useCardViewEngine';
+import type { Filter, FilterValues, SortConfig, SortFieldOptions, SearchConfig } from '../utils/FunctionalityHelperFunctionsForCardView';
+import type { DataItem, DataOperations } from '../InterfacesForCardView';
 
 /**
  * Props interface for the useAdvancedDataProcessing hook
  * @template T - The type of items in the data array
  */
-interface UseAdvancedDataProcessingProps<T> {
+interface UseAdvancedDataProcessingProps<T extends DataItem> {
+  /** Engine holding the state (optional, a private engine is created otherwise) */
+  engine?: CardViewEngine<T>;
   /** Initial data array */
   initialData: T[];
   /** Configuration for available filters */
-  filterConfig: any[];
+  filterConfig: Filter[];
   /** Default sort configuration (optional) */
   defaultSort?: SortConfig;
-  /** Default search configuration (optional, without case sensitivity/exact match) */
-  defaultSearch?: Omit<SearchConfig, 'caseSensitive' | 'exactMatch'>;
+  /** How the values of each field are compared by the sort (optional) */
+  sortFields?: Record<string, SortFieldOptions>;
+  /** Default search configuration (optional, without case sensitivity/exact match/fuzzy) */
+  defaultSearch?: Omit<SearchConfig, 'caseSensitive' | 'exactMatch' | 'fuzzy'>;
   /** Default case sensitivity setting (optional) */
   defaultCaseSensitive?: boolean;
   /** Default exact match setting (optional) */
   defaultExactMatch?: boolean;
+  /** Default fuzzy (typo tolerant) setting (optional) */
+  defaultFuzzy?: boolean;
+  /** Base filter, custom search and default comparator stages (optional) */
+  dataOperations?: DataOperations;
 }
 /**
  * A comprehensive data processing hook that handles filtering, sorting, and searching
- * with full state management and control functions
+ * with full state management and control functions.
+ * The state lives in a CardViewEngine, this hook only exposes it to React.
  * 
  * @template T - The type of items in the data array
  * @param {UseAdvancedDataProcessingProps<T>} props - Configuration object
@@ -34,7 +45,7 @@ interface UseAdvancedDataProcessingProps<T> {
  * import { type Filter } from './utils/FunctionalityHelperFunctionsForCardView';
  * 
  * interface Product {
- *   id: number;
+ *   id: string;
  *   name: string;
  *   price: number;
  *   category: string;
@@ -88,130 +99,122 @@ interface UseAdvancedDataProcessingProps<T> {
  * ```
  */
 
-export function useAdvancedDataProcessing<T>({
+export function useAdvancedDataProcessing<T extends DataItem>({
+  engine: externalEngine,
   initialData,
   filterConfig,
   defaultSort = [],
+  sortFields,
   defaultSearch = { fields: [], query: '' },
   defaultCaseSensitive = false,
-  defaultExactMatch = false
+  defaultExactMatch = false,
+  defaultFuzzy = false,
+  dataOperations
 }: UseAdvancedDataProcessingProps<T>) {
-  // State management for all data processing aspects
-  const [data, setData] = useState<T[]>(initialData); // Original data
-  const [filters, setFilters] = useState<Record<string, any>>({}); // Current filter values
-  const [sortConfig, setSortConfig] = useState<SortConfig>(defaultSort); // Current sort configuration
-  const [searchConfig, setSearchConfig] = useState<SearchConfig>({ // Current search configuration
-    ...defaultSearch,
-    caseSensitive: defaultCaseSensitive,
-    exactMatch: defaultExactMatch
-  });
-  
-  // Search behavior toggles
-  const [caseSensitive, setCaseSensitive] = useState(defaultCaseSensitive);
-  const [exactMatch, setExactMatch] = useState(defaultExactMatch);
+  // The engine holds data, filters, sort and search (created once)
+  const [engine] = useState(() => externalEngine ?? new CardViewEngine<T>({
+    data: initialData,
+    filterConfig,
+    defaultSort,
+    sortFields,
+    defaultSearch,
+    defaultCaseSensitive,
+    defaultExactMatch,
+    defaultFuzzy,
+    dataOperations
+  }));
+  useDestroyOwnedEngine(engine, !externalEngine);
+  const state = useCardViewEngine(engine);
 
-  /**
-   * Memoized data processing pipeline:
-   * 1. Apply filters
-   * 2. Apply search (with current case sensitivity and exact match settings)
-   * 3. Apply sorting
-   * Only recalculates when dependencies change
-   */
-  const processedData = useMemo(() => {
-    // Step 1: Filter the data based on current filter values
-    const filteredData = new FilterManager().applyFilters(data, filters, filterConfig);
-    
-    // Step 2: Search within filtered results
-    const searchedData = DataSearcher.search(filteredData, {
-      ...searchConfig,
-      caseSensitive,
-      exactMatch
-    });
-    
-    // Step 3: Sort the final results
-    return DataSorter.sort(searchedData, sortConfig);
-  }, [data, filters, filterConfig, sortConfig, searchConfig, caseSensitive, exactMatch]);
+  // Keep the available filters in sync (memoized by the callers)
+  useEffect(() => {
+    engine.setFilterConfig(filterConfig);
+  }, [engine, filterConfig]);
+
+  // Keep the sort options of the fields in sync (memoized by the callers)
+  useEffect(() => {
+    if (sortFields) engine.setSortFields(sortFields);
+  }, [engine, sortFields]);
+
+  // Keep the dataOperations stages in sync (updateDataOperations creates a new object)
+  useEffect(() => {
+    if (dataOperations) engine.setDataOperations(dataOperations);
+  }, [engine, dataOperations]);
 
   //#region Control Functions
 
   /**
-   * Updates a specific filter value
-   * @param filterId - The ID of the filter to update
-   * @param value - The new value for the filter
+   * Stable control functions, all of them delegate to the engine
    */
-  const updateFilter = (newFilters: Record<string, any>) => {
-    setFilters(newFilters);
-  };
+  const controls = useMemo(() => ({
+    /**
+     * Replaces the active filter values
+     * @param newFilters - Filter values keyed by filter ID
+     */
+    updateFilter: (newFilters: FilterValues) => engine.setFilters(newFilters),
 
-  /**
-   * Updates the sort configuration for a specific field
-   * @param field - The field to sort by
-   * @param direction - The sort direction ('asc' or 'desc')
-   */
-  // In your useAdvancedDataProcessing hook, update the updateSort function:
-  const updateSort = (field: string, direction: 'asc' | 'desc' | 'none') => {
-    setSortConfig(prev => {
-      if (direction === 'none') {
-        // Remove the sort for this field
-        return prev.filter(s => s.field !== field);
-      }
-
-      // Check if this field is already in the sort configuration
-      const existingIndex = prev.findIndex(s => s.field === field);
-      if (existingIndex >= 0) {
-        // Update existing sort entry
-        const updated = [...prev];
-        updated[existingIndex] = { field, direction };
-        return updated;
-      }
-      // Add new sort entry
-      return [...prev, { field, direction }];
-    });
-  };
+    /**
+     * Updates the sort configuration for a specific field
+     * @param field - The field to sort by
+     * @param direction - The sort direction ('asc', 'desc' or 'none' to remove it)
+     */
+    updateSort: (field: string, direction: 'asc' | 'desc' | 'none') => engine.updateSort(field, direction),
 
-  /** Toggles case sensitivity for text search */
-  const toggleCaseSensitive = () => setCaseSensitive(prev => !prev);
-
-  /** Toggles exact match mode for text search */
-  const toggleExactMatch = () => setExactMatch(prev => !prev);
-
-  /** Resets all filters, sorting, and search to their default states */
-  const resetAll = () => {
-    setFilters({});
-    setSortConfig(defaultSort);
-    setSearchConfig({
-      ...defaultSearch,
-      caseSensitive: defaultCaseSensitive,
-      exactMatch: defaultExactMatch
-    });
-    setCaseSensitive(defaultCaseSensitive);
-    setExactMatch(defaultExactMatch);
-  };
+    /** Replaces the sort configuration (value or updater) */
+    setSortConfig: (config: SortConfig | ((prev: SortConfig) => SortConfig)) =>
+      engine.setSortConfig(typeof config === 'function' ? config(engine.getSnapshot().sortConfig) : config),
+
+    /** Replaces the search configuration (value or updater) */
+    setSearchConfig: (config: SearchConfig | ((prev: SearchConfig) => SearchConfig)) => engine.setSearchConfig(config),
+
+    /** Replaces the base data */
+    setData: (data: T[]) => engine.setData(data),
+
+    /** Toggles case sensitivity for text search */
+    toggleCaseSensitive: () => engine.toggleCaseSensitive(),
+
+    /** Toggles exact match mode for text search */
+    toggleExactMatch: () => engine.toggleExactMatch(),
+
+    /** Toggles fuzzy (typo tolerant) mode for text search */
+    toggleFuzzy: () => engine.toggleFuzzy(),
+
+    /** Resets all filters, sorting, and search to their default states */
+    resetAll: () => engine.resetAll(),
+
+    /**
+     * Sets a custom predicate applied together with the filters
+     * @param predicate - Predicate to keep an item, or null to remove it
+     */
+    setCustomFilter: (predicate: ((item: T) => boolean) | null) => engine.setCustomFilter(predicate),
+
+    /**
+     * Sets a custom comparator that replaces the field based sort
+     * @param compareFn - Comparator, or null to go back to sortConfig
+     */
+    setCustomSort: (compareFn: ((a: T, b: T) => number) | null) => engine.setCustomSort(compareFn)
+  }), [engine]);
 
   //#endregion
 
   return {
     // Processed Data
-    processedData, // The final filtered, searched, and sorted data array
-    
+    processedData: state.processedData, // The final filtered, searched, and sorted data array
+
     // State Values
-    filters, // Current filter values
-    sortConfig, // Current sort configuration
-    searchConfig, // Current search configuration (excluding behavior toggles)
-    caseSensitive, // Current case sensitivity setting
-    exactMatch, // Current exact match setting
-    
+    filters: state.filters, // Current filter values
+    sortConfig: state.sortConfig, // Current sort configuration
+    searchConfig: state.searchConfig, // Current search configuration
+    caseSensitive: !!state.searchConfig.caseSensitive, // Current case sensitivity setting
+    exactMatch: !!state.searchConfig.exactMatch, // Current exact match setting
+    fuzzy: !!state.searchConfig.fuzzy, // Current fuzzy setting
+
     // Control Functions
-    updateFilter, // Function to update a specific filter
-    updateSort, // Function to update sorting
-    setSearchConfig, // Function to update search configuration
-    setData, // Function to update the base data
-    toggleCaseSensitive, // Function to toggle case sensitivity
-    toggleExactMatch, // Function to toggle exact match
-    resetAll, // Function to reset all settings
-    setSortConfig,
+    ...controls, // updateFilter, updateSort, setSortConfig, setSearchConfig, setData, toggles, resetAll, custom filter/sort
+    engine, // The underlying engine
+
     // Metadata
-    originalCount: data.length, // Count of original items
-    filteredCount: processedData.length // Count after all processing
+    originalCount: state.data.length, // Count of original items
+    filteredCount: state.processedData.length // Count after all processing
   };
-}
\ No newline at end of file
+}
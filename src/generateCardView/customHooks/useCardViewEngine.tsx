@@ -0,0 +1,43 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import type { CardViewEngine, CardViewEngineState } from '../utils/CardViewEngine';
+import type { DataItem } from '../InterfacesForCardView';
+
+/**
+ * Subscribes a component to a CardViewEngine and returns its current state.
+ * The component re-renders whenever the engine emits a change.
+ *
+ * @template T - The type of the data items
+ * @param engine - The engine to subscribe to
+ * @returns The current engine state snapshot
+ *
+ * @example
+ * const { engine } = getCardViewOptions();
+ * const { pageData, selectedIds } = useCardViewEngine(engine);
+ */
+export const useCardViewEngine = <T extends DataItem = DataItem>(engine: CardViewEngine<T>): CardViewEngineState<T> => {
+  return useSyncExternalStore(engine.subscribe, engine.getSnapshot);
+};
+
+/**
+ * Destroys an engine created by the component when it unmounts (worker, pending request, listeners).
+ * Engines passed in by the host application are left alone.
+ *
+ * @param engine - The engine used by the component
+ * @param owned - Whether the component created the engine
+ *
+ * @example
+ * const [engine] = useState(() => externalEngine ?? new CardViewEngine(options));
+ * useDestroyOwnedEngine(engine, !externalEngine);
+ */
+export const useDestroyOwnedEngine = <T extends DataItem>(engine: CardViewEngine<T>, owned: boolean) => {
+  const pendingDestroy = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => {
+    // StrictMode unmounts and mounts again right away, the engine is only destroyed on a real unmount
+    clearTimeout(pendingDestroy.current);
+    if (!owned) return;
+    return () => {
+      pendingDestroy.current = setTimeout(() => engine.destroy());
+    };
+  }, [engine, owned]);
+};
@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type {
+  DataItem,
+  CardViewInstance,
+  CardViewOptions,
+  CardViewConfigMethods
+} from '../InterfacesForCardView';
+import type { CardViewEngine } from '../utils/CardViewEngine';
+import type { VirtualCardGridHandle } from '../reusableComponent/VirtualCardGrid';
+import { CardViewExporter } from '../utils/CardViewExporter';
+
+/**
+ * Everything the instance needs from the card view.
+ * Values are read lazily, so the instance always sees the latest render.
+ */
+interface UseCardViewInstanceProps {
+  /** Current card view configuration (useCardViewConfig) */
+  config: CardViewOptions;
+  /** Configuration update methods (useCardViewConfig) */
+  methods: Omit<CardViewConfigMethods, 'updateContent'>;
+  /** Engine holding data, query, pagination, selection and loaders */
+  engine: CardViewEngine;
+  refresh: () => void;
+  /** Opens the item form (edit when an item is given, create otherwise) */
+  openItemForm: (item?: DataItem) => void;
+  closeItemForm: () => void;
+  /** Root element of the card view */
+  getContainer: () => HTMLElement | null;
+  /** Mounted virtual grid (`virtualScroll`), off-screen cards are not in the DOM */
+  getVirtualGrid?: () => VirtualCardGridHandle | undefined;
+  /** Called once the instance has been destroyed */
+  onDestroy?: () => void;
+}
+
+/**
+ * Builds the imperative {@link CardViewInstance} for a card view.
+ *
+ * The returned object is stable for the lifetime of the component, while every
+ * method reads the latest pipeline state, so it can safely be stored by the host
+ * application (ref, context, event handlers).
+ *
+ * @param props - Pipeline state and methods, see UseCardViewInstanceProps
+ * @returns The card view instance
+ *
+ * @example
+ * const instance = useCardViewInstance({ config, methods, engine, refresh, getContainer });
+ * instance.search('john');
+ * instance.goToPage(2);
+ */
+export const useCardViewInstance = (props: UseCardViewInstanceProps): CardViewInstance => {
+  const latest = useRef(props);
+  latest.current = props;
+
+  // Item to scroll to once it has been rendered (it may live on another page)
+  const [pendingScrollId, setPendingScrollId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pendingScrollId) return;
+    const { config, engine, getVirtualGrid } = latest.current;
+    const virtualGrid = config.virtualScroll ? getVirtualGrid?.() : undefined;
+    if (virtualGrid) {
+      const index = engine.getSnapshot().pageData.findIndex(item => item.id === pendingScrollId);
+      if (index !== -1) virtualGrid.scrollToIndex(index);
+      setPendingScrollId(null);
+      return;
+    }
+    const element = latest.current.getContainer()
+      ?.querySelector(`[data-card-id="${CSS.escape(pendingScrollId)}"]`);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setPendingScrollId(null);
+  }, [pendingScrollId]);
+
+  return useMemo<CardViewInstance>(() => {
+    const getDownloadColumns = () => {
+      const download = latest.current.config.headerCardView?.headerConfig?.defaultItems?.download;
+      return {
+        allowedColumnsToDownload: download?.allowedColumnsToDownload,
+        excludeColumnsFromDownload: download?.excludeColumnsFromDownload
+      };
+    };
+
+    const getElement = () => latest.current.getContainer() as HTMLElement;
+
+    // Data changes are not possible with a data source, they would never be displayed
+    const hasDataSource = (method: string) => {
+      if (!latest.current.engine.getSnapshot().dataSource) return false;
+      console.warn(`${method}: not available with a dataSource, change the item on the server and call refresh()`);
+      return true;
+    };
+
+    return {
+      // Core methods
+      updateData: (newData) => latest.current.methods.updateData(newData),
+      updateConfig: (newConfig) => latest.current.methods.updateConfig(newConfig),
+      destroy: () => {
+        const { engine, onDestroy } = latest.current;
+        engine.resetAll();
+        engine.clearSelection();
+        engine.hideAllLoaders();
+        engine.setLoading(false);
+        onDestroy?.();
+      },
+      getSelected: () => latest.current.engine.getSelected(),
+      filter: (predicate) => latest.current.engine.setCustomFilter(predicate),
+      sort: (compareFn) => latest.current.engine.setCustomSort(compareFn),
+      refresh: () => latest.current.refresh(),
+      scrollToItem: (id) => {
+        const { engine } = latest.current;
+        const { processedData, pagination, dataSource } = engine.getSnapshot();
+        const index = processedData.findIndex(item => item.id === id);
+        if (index === -1) {
+          console.warn(dataSource
+            ? `scrollToItem: item "${id}" is not loaded from the data source`
+            : `scrollToItem: item "${id}" is not part of the processed data`);
+          return false;
+        }
+        // With a data source, processedData only holds the loaded page(s): the item is already rendered
+        if (pagination.enabled && !dataSource) {
+          const page = Math.floor(index / pagination.pageSize) + 1;
+          // In infinite mode the chunks up to the current page are rendered, only later items need loading
+          const needsPage = pagination.mode === 'infinite' ? page > pagination.current : page !== pagination.current;
+          if (needsPage) engine.goToPage(page);
+        }
+        setPendingScrollId(id);
+        return true;
+      },
+      exportAs: async (format) => {
+        const { processedData } = latest.current.engine.getSnapshot();
+        switch (format) {
+          case 'json':
+            return CardViewExporter.toJSON(processedData, getDownloadColumns());
+          case 'csv':
+            return CardViewExporter.toCSV(processedData, getDownloadColumns());
+          case 'excel':
+            return CardViewExporter.toExcel(processedData, getDownloadColumns());
+          case 'svg':
+            return CardViewExporter.toSVG(getElement());
+          case 'png':
+            return CardViewExporter.toPNG(getElement());
+          default:
+            throw new Error(`Unsupported export format: ${format}`);
+        }
+      },
+
+      // Data management (the data source owns the items, they are changed on the server)
+      addItem: (item) => {
+        if (hasDataSource('addItem')) return;
+        latest.current.methods.addDataItem(item);
+      },
+      removeItem: (id) => {
+        if (hasDataSource('removeItem')) return false;
+        const exists = !!latest.current.engine.getItem(id);
+        if (exists) latest.current.methods.removeDataItem(id);
+        return exists;
+      },
+      updateItem: (id, updates) => {
+        if (hasDataSource('updateItem')) return false;
+        const exists = !!latest.current.engine.getItem(id);
+        if (exists) latest.current.methods.updateDataItem(id, updates);
+        return exists;
+      },
+      getItem: (id) => latest.current.engine.getItem(id),
+
+      // Selection management
+      selectItem: (id) => latest.current.engine.select(id),
+      deselectItem: (id) => latest.current.engine.deselect(id),
+      selectAll: () => latest.current.engine.selectAll(),
+      clearSelection: () => latest.current.engine.clearSelection(),
+      isSelected: (id) => latest.current.engine.isSelected(id),
+
+      // Section management
+      addSection: (section) => latest.current.methods.addSection(section),
+      removeSection: (sectionId) => {
+        const sections = latest.current.config.segregatedData?.sections || [];
+        const exists = sections.some(section => section.id === sectionId);
+        if (exists) latest.current.methods.removeSection(sectionId);
+        return exists;
+      },
+      toggleSection: (sectionId) => latest.current.engine.toggleSection(sectionId),
+
+      // Layout control
+      setLayoutType: (type) => latest.current.methods.updateLayout({ type }),
+      setColumns: (columns) => latest.current.methods.updateLayout({ columns }),
+
+      // Pagination
+      nextPage: () => latest.current.engine.nextPage(),
+      previousPage: () => latest.current.engine.previousPage(),
+      goToPage: (page) => latest.current.engine.goToPage(page),
+      getCurrentPage: () => latest.current.engine.getSnapshot().pagination.current,
+
+      // Search and filter
+      search: (query, fields) => latest.current.engine.search(query, fields),
+      clearSearch: () => latest.current.engine.clearSearch(),
+      getMatchScore: (id) => latest.current.engine.getRelevance(id),
+      clearAllFilters: () => latest.current.engine.clearFilters(),
+
+      // Item form
+      openItemForm: (id) => {
+        const { engine, openItemForm } = latest.current;
+        if (!id) return openItemForm();
+        const item = engine.getItem(id);
+        if (item) openItemForm(item);
+      },
+      closeItemForm: () => latest.current.closeItemForm(),
+
+      // Utility
+      getConfig: () => latest.current.config,
+      getElement,
+      setLoading: (loading) => latest.current.engine.setLoading(loading)
+    };
+  }, []);
+};
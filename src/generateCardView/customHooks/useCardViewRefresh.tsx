@@ -0,0 +1,69 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+
+/**
+ * Defines the shape of the context value for the refresh boundary.
+ *
+ * - `hardRefreshKey`: Incremented on every hard refresh, card views use it as a `key` to remount.
+ * - `softRefresh`: Re-runs the filter/search/sort/pagination pipeline of every card view inside the boundary.
+ * - `hardRefresh`: Remounts every card view inside the boundary with its initial options.
+ * - `registerCardView`: Registers the soft refresh of a card view, returns the unregister function.
+ */
+export interface CardViewRefreshContextType {
+  hardRefreshKey: number;
+  softRefresh: () => void;
+  hardRefresh: () => void;
+  registerCardView: (softRefresh: () => void) => () => void;
+}
+
+/**
+ * React context shared by the refresh boundary and the card views inside it.
+ */
+export const CardViewRefreshContext = createContext<CardViewRefreshContextType | undefined>(undefined);
+
+/**
+ * Returns the refresh methods of the closest `CardViewRefreshBoundary`.
+ *
+ * Must be used inside a `CardViewRefreshBoundary` or it will throw an error.
+ *
+ * @returns `softRefresh` and `hardRefresh`
+ *
+ * @example
+ * ```tsx
+ * const { softRefresh, hardRefresh } = useCardViewRefresh();
+ * softRefresh(); // re-run filters, search, sort and pagination
+ * hardRefresh(); // remount with the initial options
+ * ```
+ */
+export const useCardViewRefresh = () => {
+  const context = useContext(CardViewRefreshContext);
+  if (context === undefined) {
+    throw new Error('useCardViewRefresh must be used within a CardViewRefreshBoundary');
+  }
+  const { softRefresh, hardRefresh } = context;
+  return { softRefresh, hardRefresh };
+};
+
+/**
+ * Returns the key used to remount a card view on hard refresh (0 outside a boundary).
+ * Used by `RenderCardView`.
+ */
+export const useCardViewHardRefreshKey = () => {
+  return useContext(CardViewRefreshContext)?.hardRefreshKey ?? 0;
+};
+
+/**
+ * Registers the soft refresh of a card view with the closest boundary (no-op outside a boundary).
+ * Used by `RenderCardViewElements`.
+ *
+ * @param softRefresh - Re-runs the pipeline of the card view
+ */
+export const useRegisterCardViewRefresh = (softRefresh: () => void) => {
+  const registerCardView = useContext(CardViewRefreshContext)?.registerCardView;
+  const latestRefresh = useRef(softRefresh);
+  latestRefresh.current = softRefresh;
+
+  useEffect(() => {
+    if (!registerCardView) return;
+    return registerCardView(() => latestRefresh.current());
+  }, [registerCardView]);
+};
@@ -0,0 +1,145 @@
+import { useCallback, useMemo, useState } from 'react';
+import type {
+  DataItem,
+  DataItemDescription,
+  DataItemFormErrors,
+  EditableFieldConfiguration
+} from '../InterfacesForCardView';
+import {
+  fromEditorValue,
+  getFormFieldConfiguration,
+  toEditorValue,
+  validateFieldValue
+} from '../utils/FieldEditorHelpers';
+
+interface UseDataItemFormProps {
+  /** Described fields of the items */
+  descriptions: DataItemDescription[];
+  /** Whether the form adds a new item or edits `item` */
+  mode: 'create' | 'edit';
+  /** The edited item (edit mode) */
+  item?: DataItem;
+  /**
+   * Saves the validated values, may be async.
+   * Returning (or resolving) field errors maps them back to the fields, throwing sets `formError`.
+   */
+  onSubmit: (values: Partial<DataItem>) => void | DataItemFormErrors | Promise<void | DataItemFormErrors>;
+}
+
+/** A field listed in the form */
+export interface DataItemFormField {
+  description: DataItemDescription;
+  configuration: EditableFieldConfiguration;
+}
+
+/**
+ * State of a create/edit form generated from the data item descriptions:
+ * editor values, validation (client side and server side) and async submit.
+ *
+ * @param props - See UseDataItemFormProps
+ * @returns The form fields, values, errors and handlers
+ *
+ * @example
+ * const { fields, values, errors, formError, isSubmitting, setFieldValue, submit } = useDataItemForm({
+ *   descriptions: options.dataItemDescription,
+ *   mode: 'edit',
+ *   item,
+ *   onSubmit: async (values) => {
+ *     const response = await api.updateEmployee(item.id, values);
+ *     return response.fieldErrors; // e.g. { email: 'Already used' }
+ *   }
+ * });
+ */
+export const useDataItemForm = ({ descriptions, mode, item, onSubmit }: UseDataItemFormProps) => {
+  const fields = useMemo(() => descriptions
+    .map(description => ({ description, configuration: getFormFieldConfiguration(description, mode) }))
+    .filter((field): field is DataItemFormField => !!field.configuration),
+  [descriptions, mode]);
+
+  const getInitialValues = useCallback(() => {
+    const initialValues: Record<string, unknown> = {};
+    fields
+      .filter(({ configuration }) => configuration.isEditable)
+      .forEach(({ description, configuration }) => {
+        initialValues[description.key] = toEditorValue(item?.[description.key], configuration.editorType);
+      });
+    return initialValues;
+  }, [fields, item]);
+
+  const [values, setValues] = useState(getInitialValues);
+  const [errors, setErrors] = useState<DataItemFormErrors>({});
+  const [formError, setFormError] = useState<string>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /** Updates the editor value of a field and clears its error */
+  const setFieldValue = useCallback((key: string, value: unknown) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+    setErrors(prev => {
+      if (!prev[key]) return prev;
+      const rest = { ...prev };
+      delete rest[key];
+      return rest;
+    });
+  }, []);
+
+  /** Restores the initial values and clears every error */
+  const reset = useCallback(() => {
+    setValues(getInitialValues());
+    setErrors({});
+    setFormError(undefined);
+  }, [getInitialValues]);
+
+  /**
+   * Validates every editable field, then calls onSubmit with the field values
+   * @returns true when the values were saved
+   */
+  const submit = useCallback(async (): Promise<boolean> => {
+    const submittedValues: Partial<DataItem> = {};
+    const validationErrors: DataItemFormErrors = {};
+
+    fields
+      .filter(({ configuration }) => configuration.isEditable)
+      .forEach(({ description: { key }, configuration }) => {
+        const value = fromEditorValue(values[key], item?.[key], configuration.editorType);
+        const error = validateFieldValue(value, configuration.validation);
+        if (error) validationErrors[key] = error;
+        submittedValues[key] = value;
+      });
+
+    setFormError(undefined);
+    if (Object.keys(validationErrors).length) {
+      setErrors(validationErrors);
+      return false;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const serverErrors = await onSubmit(submittedValues);
+      if (serverErrors && Object.keys(serverErrors).length) {
+        // Errors of fields that are not in the form are shown as a form error
+        const unknownKeys = Object.keys(serverErrors).filter(key => !fields.some(({ description }) => description.key === key));
+        setErrors(serverErrors);
+        if (unknownKeys.length) setFormError(unknownKeys.map(key => serverErrors[key]).join(' '));
+        return false;
+      }
+      return true;
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'The item could not be saved');
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [fields, values, item, onSubmit]);
+
+  return {
+    fields,
+    values,
+    errors,
+    formError,
+    isSubmitting,
+    setFieldValue,
+    setErrors,
+    reset,
+    submit
+  };
+};
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const getStorageKey = (viewId: string) => `card-view:${viewId}:recent-searches`;
+
+// localStorage is not available during SSR and can throw (private mode, quota)
+const readRecentSearches = (viewId?: string): string[] => {
+  if (!viewId || typeof localStorage === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(getStorageKey(viewId)) || '[]');
+    return Array.isArray(stored) ? stored.filter(search => typeof search === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeRecentSearches = (viewId: string | undefined, searches: string[]) => {
+  if (!viewId || typeof localStorage === 'undefined') return;
+  try {
+    if (searches.length) localStorage.setItem(getStorageKey(viewId), JSON.stringify(searches));
+    else localStorage.removeItem(getStorageKey(viewId));
+  } catch {
+    // The history is only kept for the session
+  }
+};
+
+/**
+ * Keeps the last searches of a card view, most recent first.
+ *
+ * The searches are persisted in localStorage under the view id, so every view keeps
+ * its own history across reloads. Without a view id they are only kept in memory.
+ *
+ * @param viewId - `CardViewOptions.viewId`
+ * @param limit - Number of searches kept (0 disables the history)
+ * @returns `recentSearches`, `addRecentSearch` and `clearRecentSearches`
+ *
+ * @example
+ * ```tsx
+ * const { recentSearches, addRecentSearch, clearRecentSearches } = useRecentSearches('employees', 5);
+ * addRecentSearch('department:Engineering');
+ * ```
+ */
+export const useRecentSearches = (viewId?: string, limit = 5) => {
+  const [recentSearches, setRecentSearches] = useState<string[]>(() => readRecentSearches(viewId).slice(0, limit));
+
+  // Another view id (or limit) reads its own history
+  useEffect(() => {
+    setRecentSearches(readRecentSearches(viewId).slice(0, limit));
+  }, [viewId, limit]);
+
+  const addRecentSearch = useCallback((query: string) => {
+    const search = query.trim();
+    if (!search || limit <= 0) return;
+    setRecentSearches(prev => {
+      const searches = [search, ...prev.filter(previous => previous !== search)].slice(0, limit);
+      writeRecentSearches(viewId, searches);
+      return searches;
+    });
+  }, [viewId, limit]);
+
+  const clearRecentSearches = useCallback(() => {
+    writeRecentSearches(viewId, []);
+    setRecentSearches([]);
+  }, [viewId]);
+
+  return { recentSearches, addRecentSearch, clearRecentSearches };
+};
@@ -1,15 +1,21 @@
 import { useMemo } from 'react';
-import dayjs from 'dayjs';
-import type { DataItemDescription } from '../InterfacesForCardView';
+import type { DataItem, DataItemDescription } from '../InterfacesForCardView';
+import type { Filter, SearchFieldOptions, SortFieldOptions } from '../utils/FunctionalityHelperFunctionsForCardView';
+import { deriveFieldBounds } from '../utils/FilterFacets';
+import type { FieldBounds } from '../utils/FilterFacets';
+
+const EMPTY_DATA: DataItem[] = [];
+const BUILT_IN_FILTER_TYPES = ['text', 'select', 'checkbox', 'radio', 'date', 'dateRange', 'range'];
 
 /**
  * Custom hook to generate sorting options and filter configurations
  * based on provided data item descriptions
  * 
  * @param {Array} dataItemDescriptions - Array of objects describing each data field
- * @returns {Object} Object containing sortingOptions, filterConfigurations, and configToApplyFilters
+ * @param {Array} data - Items the filter options, numeric bounds and date bounds are derived from when the descriptions do not give them
+ * @returns {Object} Object containing sortingOptions, sortFields, filterConfigurations, configToApplyFilters, searchOptions and searchableFields
  */
-const useValuesForFunctionalitiesButtons = (dataItemDescriptions: DataItemDescription[]) => {
+const useValuesForFunctionalitiesButtons = (dataItemDescriptions: DataItemDescription[], data: DataItem[] = EMPTY_DATA) => {
   // Generate sorting options from data item descriptions
   const sortingOptions = useMemo(() => {
     return dataItemDescriptions
@@ -22,6 +28,34 @@ const useValuesForFunctionalitiesButtons = (dataItemDescriptions: DataItemDescri
       }));
   }, [dataItemDescriptions]);
 
+  // DataSorter comparison of each field, from its type and sortConfiguration
+  const sortFields = useMemo(() => {
+    const fields: Record<string, SortFieldOptions> = {};
+    dataItemDescriptions.forEach(({ key, typeOfField, sortConfiguration }) => {
+      fields[key] = {
+        type: typeOfField,
+        natural: sortConfiguration?.natural,
+        locale: sortConfiguration?.locale,
+        sensitivity: sortConfiguration?.sensitivity,
+        nulls: sortConfiguration?.nulls,
+        rankOrder: sortConfiguration?.rankOrder,
+        compareFn: sortConfiguration?.compareFn,
+      };
+    });
+    return fields;
+  }, [dataItemDescriptions]);
+
+  // Option lists and bounds found in the data (text filters do not need them)
+  const derivedBounds = useMemo(() => {
+    const bounds: Record<string, FieldBounds> = {};
+    dataItemDescriptions
+      .filter(item => item.filterConfiguration?.canFilter && item.filterConfiguration.filterType !== 'text')
+      .forEach(item => {
+        bounds[item.key] = deriveFieldBounds(data, item.key, item.typeOfField);
+      });
+    return bounds;
+  }, [dataItemDescriptions, data]);
+
   // Generate filter configurations from data item descriptions (original structure)
   const filterConfigurations = useMemo(() => {
     return dataItemDescriptions
@@ -39,14 +73,14 @@ const useValuesForFunctionalitiesButtons = (dataItemDescriptions: DataItemDescri
           case 'radio':
             return {
               ...baseConfig,
-              values: item.filterConfiguration.filterOptions || [],
+              values: item.filterConfiguration.filterOptions || derivedBounds[item.key]?.options || [],
               singleSelect: baseConfig.type === 'radio'
             };
           
           case 'select':
             return {
               ...baseConfig,
-              values: item.filterConfiguration.filterOptions || [],
+              values: item.filterConfiguration.filterOptions || derivedBounds[item.key]?.options || [],
               singleSelect: true
             };
           
@@ -54,10 +88,7 @@ const useValuesForFunctionalitiesButtons = (dataItemDescriptions: DataItemDescri
             return {
               ...baseConfig,
               isRange: item.filterConfiguration.filterType === 'range',
-              allowedDateRange: {
-                start: '2020-01-01',
-                end: dayjs().format('YYYY-MM-DD')
-              }
+              allowedDateRange: item.filterConfiguration?.dateRange || derivedBounds[item.key]?.dateRange
             };
           
           case 'text':
@@ -66,28 +97,38 @@ const useValuesForFunctionalitiesButtons = (dataItemDescriptions: DataItemDescri
           case 'range':
             return {
               ...baseConfig,
-              conditions: ['Greater than', 'Less than', 'Equal to'],
-              values: []
+              conditions: ['Greater than', 'Greater than or equal', 'Less than', 'Less than or equal', 'Equal to', 'Not equal to'],
+              values: [],
+              min: item.filterConfiguration?.min ?? derivedBounds[item.key]?.min,
+              max: item.filterConfiguration?.max ?? derivedBounds[item.key]?.max,
+              step: item.filterConfiguration?.step,
+              unit: item.filterConfiguration?.unit,
+              unitPosition: item.filterConfiguration?.unitPosition
             };
           
           default:
-            return baseConfig;
+            // Custom filter types (see registerFilterType) get the options of the field
+            return {
+              ...baseConfig,
+              values: item.filterConfiguration?.filterOptions || derivedBounds[item.key]?.options || []
+            };
         }
       });
-  }, [dataItemDescriptions]);
+  }, [dataItemDescriptions, derivedBounds]);
 
   // Generate configToApplyFilters with the new structure
-  const configToApplyFilters = useMemo(() => {
+  const configToApplyFilters = useMemo((): Filter[] => {
     return dataItemDescriptions
       .filter(item => item.filterConfiguration?.canFilter)
-      .map(item => {
+      .map((item): Filter => {
         const baseConfig = {
           id: item.key,
-          label: item.label,
+          name: item.label,
         };
+        const filterType = item.filterConfiguration?.filterType;
 
         // Map to the appropriate filter type based on filter configuration
-        switch (item.filterConfiguration.filterType) {
+        switch (filterType) {
           // case 'checkbox':
           //   return {
           //     ...baseConfig,
@@ -100,17 +141,17 @@ const useValuesForFunctionalitiesButtons = (dataItemDescriptions: DataItemDescri
             return {
               ...baseConfig,
               type: 'dropdown' as const,
-              options: item.filterConfiguration.filterOptions || [],
+              values: item.filterConfiguration.filterOptions || derivedBounds[item.key]?.options || [],
               singleSelect: true
             };
           
           case 'date':
           // case 'dateRange':
-            // return {
-            //   ...baseConfig,
-            //   type: 'date' as const,
-            //   isRange: item.filterConfiguration.filterType === 'dateRange'
-            // };
+            return {
+              ...baseConfig,
+              type: 'date' as const,
+              timezone: item.filterConfiguration?.timezone
+            };
           
           case 'text':
             return {
@@ -119,12 +160,21 @@ const useValuesForFunctionalitiesButtons = (dataItemDescriptions: DataItemDescri
             };
           
           case 'range':
+            if (item.typeOfField === 'date') {
+              return {
+                ...baseConfig,
+                type: 'date' as const,
+                isRange: true,
+                timezone: item.filterConfiguration?.timezone
+              };
+            }
             if (item.typeOfField === 'number') {
+              // RangeFilterHandler keeps the values between the slider bounds (and evaluates the search bar conditions)
               return {
                 ...baseConfig,
                 type: 'range' as const,
-                min: 0, // Default values, you might want to calculate these
-                max: 1000 // Default values, you might want to calculate these
+                min: item.filterConfiguration?.min ?? derivedBounds[item.key]?.min,
+                max: item.filterConfiguration?.max ?? derivedBounds[item.key]?.max
               };
             } else {
               return {
@@ -134,24 +184,70 @@ const useValuesForFunctionalitiesButtons = (dataItemDescriptions: DataItemDescri
               };
             }
           
-          default:
+          case undefined:
             return {
               ...baseConfig,
               type: 'text' as const
             };
+
+          // Custom filter types are evaluated by their registered handler
+          default:
+            return {
+              ...baseConfig,
+              type: filterType,
+              values: item.filterConfiguration?.filterOptions || derivedBounds[item.key]?.options || []
+            };
         }
       });
+  }, [dataItemDescriptions, derivedBounds]);
+
+  // Fields searched by the header search, falls back to the "string" fields when none is searchable
+  const searchableFields = useMemo(() => {
+    const searchable = dataItemDescriptions.filter(item => item.searchConfiguration?.canSearch);
+    const fields = searchable.length
+      ? searchable
+      : dataItemDescriptions.filter(item => item.typeOfField === 'string');
+    return fields.map(item => ({
+      value: item.key,
+      label: item.label,
+    }));
   }, [dataItemDescriptions]);
 
+  // DataSearcher fields and per field weight/match mode
+  const searchOptions = useMemo(() => {
+    const fieldOptions: Record<string, SearchFieldOptions> = {};
+    dataItemDescriptions
+      .filter(item => item.searchConfiguration?.canSearch)
+      .forEach(({ key, searchConfiguration }) => {
+        fieldOptions[key] = {
+          weight: searchConfiguration?.weight,
+          matchMode: searchConfiguration?.matchMode,
+        };
+      });
+
+    return {
+      fields: searchableFields.map(field => field.value),
+      // DataSearcher ranks the matches by relevance whenever fieldOptions are given
+      fieldOptions: Object.keys(fieldOptions).length ? fieldOptions : undefined,
+    };
+  }, [dataItemDescriptions, searchableFields]);
+
   return {
     sortingOptions,
+    sortFields,
     filterConfigurations,
-    configToApplyFilters
+    configToApplyFilters,
+    searchOptions,
+    searchableFields
   };
 };
 
 // Helper function to map filter type to component type
 const mapFilterTypeToComponentType = (filterType, fieldType) => {
+  // A range of dates is picked with the date range pickers
+  if (filterType === 'range' && fieldType === 'date') return 'date';
+  // Custom filter types keep their name
+  if (filterType && !BUILT_IN_FILTER_TYPES.includes(filterType)) return filterType;
   const typeMap = {
     text: 'text',
     select: 'select',
@@ -1,8 +1,15 @@
 import React from 'react';
-import { useState, useMemo, useRef } from 'react';
+import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { SearchBar, DownloadButton, FilterButton } from '../Icons';
 import styles from '../generateCardView.module.css'
 import { SortingModal } from '../modal/SortingModal';
+import type { MultiSortConfig, SingleSortConfig, SortOption } from '../modal/SortingModal';
+import { FilterManager, RELEVANCE_SORT_KEY } from '../utils/FunctionalityHelperFunctionsForCardView';
+import type { FilterValues } from '../utils/FunctionalityHelperFunctionsForCardView';
+import { parseSearchQuery, serializeSearchQuery } from '../utils/SearchQueryParser';
+import { createLocalSuggestionSource } from '../utils/SearchSuggestions';
+import { getFacetCounts, getFacetHistograms } from '../utils/FilterFacets';
+import { toFilterHandlers } from '../utils/FilterRegistry';
 import dayjs from 'dayjs';
 import { useMediaQuery, useTheme, Box } from '@mui/material';
 import { ResponsivePopoverModal } from '../modal/ResponsivePopoverModal';
@@ -11,6 +18,8 @@ import { IconButton } from '@mui/material';
 import { SearchBarComponent } from '../reusableComponent/SearchBarComponent';
 import { useDownloadData } from '../customHooks/useDownloadData';
 import { getCardViewOptions } from '../cardViewComponents/CardViewContext';
+import { useCardViewEngine } from '../customHooks/useCardViewEngine';
+import { useRecentSearches } from '../customHooks/useRecentSearches';
 import useValuesForFunctionalitiesButtons from '../customHooks/useValuiesForFunctionalitiesButtons';
 import FilterModal from "../modal/FilterModal";
 import { Badge } from '@mui/material';
@@ -23,7 +32,7 @@ interface HeaderItem {
  *@property {HeaderItem[]} customItems - Custom header items array (overrides default if provided)
  *@property {object} defaultItems - Which default items to show
  *@property {'left' | 'center' | 'right'} defaultAlignment - Default alignment for items
- *@property {(term: string) => void} onSearch - Callback when search is performed
+ *@property {(term: string, field?: string) => void} onSearch - Callback when search is performed
  *@property {() => void} onSort - Callback when sort is clicked
  *@property {() => void} onDownload - Callback when download is clicked
  *@property {() => void} onFilter - Callback when filter is clicked 
@@ -72,9 +81,9 @@ interface HeaderItem {
 */
 interface HeaderProps {
   /**
-   * Callback fired when a search term is entered
+   * Callback fired when a search term is entered, with the selected field (if any)
    */
-  onSearch?: (term: string) => void;
+  onSearch?: (term: string, field?: string) => void;
 
   /**
    * Callback fired when sorting is applied
@@ -90,6 +99,17 @@ interface HeaderProps {
    * Callback fired when filter is applied
    */
   onFilter?: (filters: Record<string, any>) => void;
+
+  /**
+   * Filters currently applied to the data (keeps the filter modal in sync
+   * when filters are changed from outside, e.g. `instance.clearAllFilters()`)
+   */
+  activeFilters?: FilterValues;
+
+  /**
+   * Search query currently applied to the data
+   */
+  searchQuery?: string;
 }
 
 const CardViewHeader: React.FC<HeaderProps> = ({
@@ -97,10 +117,13 @@ const CardViewHeader: React.FC<HeaderProps> = ({
   onSort,
   onDownload,
   onFilter,
+  activeFilters,
+  searchQuery,
 }) => {
-  const { options, customProperties } = getCardViewOptions();
+  const { options, engine } = getCardViewOptions();
   const headerCardView = options?.headerCardView || {}
-  const dataItemDescriptions = options?.dataItemDescription || [];
+  // Stable reference, the search bar memos below depend on it
+  const dataItemDescriptions = useMemo(() => options?.dataItemDescription || [], [options?.dataItemDescription]);
   const { headerConfig, visible, title, style, customHeader, additionalActions, makeHeaderSticky } = headerCardView
   const { customItems, defaultItems, defaultAlignment, className } = headerConfig;
   const {search , sort, download, filter} = defaultItems;
@@ -108,13 +131,56 @@ const CardViewHeader: React.FC<HeaderProps> = ({
   const downloadFileName = 'dummyData';
   const downloadColumns = ['name', 'price'];
   const defaultControlItems: HeaderItem[] = [];
-  const [sortConfig, setSortConfig] = useState(null);
+  const [sortConfig, setSortConfig] = useState<SingleSortConfig | MultiSortConfig[] | null>(null);
+  const filterButtonRef = useRef(null);
+  const [showFilterModal, setShowFilterModal] = useState(false);
+  const [selectedFilters, setSelectedFilters] = useState(activeFilters || {});
+
+  // Reflect filters applied from outside the modal
+  useEffect(() => {
+    if (activeFilters) setSelectedFilters(activeFilters);
+  }, [activeFilters]);
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  const { sortingOptions, filterConfigurations } = useValuesForFunctionalitiesButtons(dataItemDescriptions);
-  const renderedData = customProperties?.isDataProcessed
-    ? customProperties?.useProcessedData?.processedData
-    : options?.data;
+  // Items currently rendered by the card view (processed and paginated by the engine)
+  const { pageData: renderedData, searchConfig: engineSearchConfig, data: engineData, filterConfig: engineFilterConfig } = useCardViewEngine(engine);
+  // Filter options and bounds not given by the descriptions are derived from the data
+  const { sortingOptions, filterConfigurations, searchableFields } = useValuesForFunctionalitiesButtons(dataItemDescriptions, engineData);
+  // Facets are counted with the custom filter types of the view
+  const viewFilterTypes = options?.filterTypes;
+  const facetFilterManager = useMemo(() => new FilterManager(toFilterHandlers(viewFilterTypes)), [viewFilterTypes]);
+  // Options of the select filters (given by the descriptions or derived from the data), keyed by field
+  const selectOptions = useMemo(() => Object.fromEntries(filterConfigurations
+    .filter(filter => filter.type === 'select' || filter.type === 'checkbox' || filter.type === 'radio')
+    .map(filter => [filter.id, 'values' in filter ? filter.values : []])
+  ), [filterConfigurations]);
+  // Live counts of the filter modal options, each filter is counted with the other selected filters
+  const optionCounts = useMemo(() => {
+    if (!showFilterModal) return undefined;
+    return getFacetCounts(engineData, selectedFilters, engineFilterConfig, selectOptions, facetFilterManager);
+  }, [showFilterModal, selectOptions, engineData, selectedFilters, engineFilterConfig, facetFilterManager]);
+  // Value distribution of the range sliders, with the other selected filters
+  const rangeHistograms = useMemo(() => {
+    if (!showFilterModal) return undefined;
+    const ranges = Object.fromEntries(filterConfigurations.flatMap(filter => (
+      filter.type === 'range' && 'min' in filter && filter.min !== undefined && filter.max !== undefined
+        ? [[filter.id, { min: filter.min, max: filter.max, step: filter.step }]]
+        : []
+    )));
+    return getFacetHistograms(engineData, selectedFilters, engineFilterConfig, ranges, facetFilterManager);
+  }, [showFilterModal, filterConfigurations, engineData, selectedFilters, engineFilterConfig, facetFilterManager]);
+  // An active search adds a "Relevance" sort (most relevant first), kept while it is applied so it can be removed
+  const isSortedByRelevance = Array.isArray(sortConfig)
+    ? sortConfig.some(item => item.key === RELEVANCE_SORT_KEY)
+    : sortConfig?.key === RELEVANCE_SORT_KEY;
+  const hasRelevanceSort = options?.searchIndex?.relevanceSort !== false
+    && (!!engineSearchConfig.query?.trim() || isSortedByRelevance);
+  const sortOptions = useMemo<SortOption[]>(() => (hasRelevanceSort
+    ? [{ id: 'relevance', key: RELEVANCE_SORT_KEY, label: 'Relevance', directions: ['desc'], orderLabels: { desc: 'most relevant first' } }, ...sortingOptions]
+    : sortingOptions
+  ), [hasRelevanceSort, sortingOptions]);
+  const isFuzzySearch = !!engineSearchConfig.fuzzy;
+  const showFuzzyToggle = !!search?.fuzzy?.showToggle;
   const downloadColumnsConfig = {
   ...(download?.allowedColumnsToDownload && {
     allowedColumnsToDownload: download.allowedColumnsToDownload,
@@ -140,6 +206,48 @@ const CardViewHeader: React.FC<HeaderProps> = ({
     }
     
   };
+  // Suggestions while typing and the recent searches of the view
+  const suggestions = search?.suggestions;
+  const isSuggestions = !!suggestions?.enabled;
+  const customSuggestionSource = suggestions?.source;
+  const { recentSearches, addRecentSearch, clearRecentSearches } = useRecentSearches(
+    options?.viewId,
+    isSuggestions ? suggestions?.recentSearches ?? 5 : 0
+  );
+  const getSuggestions = useMemo(() => {
+    if (!isSuggestions) return undefined;
+    return customSuggestionSource
+      || createLocalSuggestionSource(engineData, searchableFields, search?.querySyntax ? dataItemDescriptions : undefined);
+  }, [isSuggestions, customSuggestionSource, engineData, searchableFields, search?.querySyntax, dataItemDescriptions]);
+
+  // Structured query syntax: the filters are written in the search bar with the free text
+  const isQuerySyntax = !!search?.querySyntax;
+  const searchBarValue = useMemo(() => (isQuerySyntax
+    ? serializeSearchQuery(searchQuery || '', activeFilters || {}, dataItemDescriptions).query
+    : searchQuery
+  ), [isQuerySyntax, searchQuery, activeFilters, dataItemDescriptions]);
+
+  /**
+   * Applies the search bar query. With the query syntax, the field conditions replace the filters
+   * (the ones the syntax can not express are kept), so the FilterModal shows them.
+   */
+  const handleSearchBarQuery = useCallback((query: string, field?: string) => {
+    if (isSuggestions) addRecentSearch(query);
+    if (!isQuerySyntax) {
+      onSearch?.(query, field);
+      return;
+    }
+    const parsedQuery = parseSearchQuery(query, dataItemDescriptions, selectOptions);
+    const { remainingFilters } = serializeSearchQuery('', activeFilters || {}, dataItemDescriptions);
+    onFilter?.({ ...remainingFilters, ...parsedQuery.filters });
+    onSearch?.(parsedQuery.text, field);
+  }, [isSuggestions, addRecentSearch, isQuerySyntax, dataItemDescriptions, selectOptions, activeFilters, onFilter, onSearch]);
+
+  const validateQuery = useMemo(() => (isQuerySyntax
+    ? (query: string) => parseSearchQuery(query, dataItemDescriptions, selectOptions).errors.map(error => `${error.token}: ${error.message}`)
+    : undefined
+  ), [isQuerySyntax, dataItemDescriptions, selectOptions]);
+
   // Memoize the search component to prevent remounting
   const searchBarComponent = useMemo(() => (
     <Box sx={{
@@ -147,14 +255,21 @@ const CardViewHeader: React.FC<HeaderProps> = ({
       transition: 'all 0.3s ease',
     }}>
       <SearchBarComponent
-        onSearch={(query) => 
-        ( onSearch?.(query),
-          console.log(query))}
+        onSearch={handleSearchBarQuery}
         placeholder= {search?.placeholder || "Search..."}
         fullWidth={isMobile}
+        value={searchBarValue}
+        fields={search?.fieldSelector ? searchableFields : undefined}
+        fuzzy={isFuzzySearch}
+        onFuzzyChange={showFuzzyToggle ? (fuzzy) => engine.setSearchConfig(prev => ({ ...prev, fuzzy })) : undefined}
+        validateQuery={validateQuery}
+        getSuggestions={getSuggestions}
+        recentSearches={isSuggestions ? recentSearches : undefined}
+        onClearRecentSearches={isSuggestions ? clearRecentSearches : undefined}
+        maxSuggestions={suggestions?.maxSuggestions}
       />
     </Box>
-  ), [isMobile]); // Only recreate when isMobile changes
+  ), [isMobile, searchBarValue, handleSearchBarQuery, search?.placeholder, search?.fieldSelector, searchableFields, isFuzzySearch, showFuzzyToggle, engine, validateQuery, getSuggestions, isSuggestions, recentSearches, clearRecentSearches, suggestions?.maxSuggestions]); // Only recreate when isMobile, the applied query, the placeholder, the fields or the search modes change
   if (defaultItems?.search && search?.visible) {
     defaultControlItems.push({
       id: 'search',
@@ -164,10 +279,6 @@ const CardViewHeader: React.FC<HeaderProps> = ({
   }
 
   if (defaultItems?.filter) {
-    const filterButtonRef = useRef(null);
-    const [showFilterModal, setShowFilterModal] = useState(false);
-    const [selectedFilters, setSelectedFilters] = useState({});
-
     defaultControlItems.push({
       id: 'filter',
       component: (
@@ -214,6 +325,9 @@ const CardViewHeader: React.FC<HeaderProps> = ({
             }}
             open={showFilterModal}
             anchorEl={filterButtonRef.current}
+            optionCounts={optionCounts}
+            rangeHistograms={rangeHistograms}
+            filterTypes={viewFilterTypes}
           />
         </>
       ),
@@ -228,8 +342,7 @@ const CardViewHeader: React.FC<HeaderProps> = ({
 
           {sort?.visible && (
             <SortingModal
-              //options={sortOptions}
-              options={sortingOptions}
+              options={sortOptions}
               value={sortConfig}
               onChange={(newSort) => {
                 setSortConfig(newSort);
@@ -242,6 +355,7 @@ const CardViewHeader: React.FC<HeaderProps> = ({
                 // setSortModalOpen(false);
               }}
               multiSort={sort?.multiSort}
+              presets={sort?.presets}
             />
           )}
         </>
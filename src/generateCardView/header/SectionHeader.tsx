@@ -0,0 +1,114 @@
+import React from 'react';
+import { IconButton } from '@mui/material';
+import styles from '../generateCardView.module.css'
+import { CollapseButton } from '../Icons';
+import type { HeaderCardViewOptions } from '../InterfacesForCardView';
+
+/**
+ *@property {React.ReactNode | HeaderCardViewOptions} header - Text/component, or a header configuration
+ *@property {HeaderCardViewOptions} headerConfig - Header configuration (takes precedence over `header`)
+ *@property {boolean} collapsible - Shows the collapse toggle
+ *@property {boolean} collapsed - Current collapsed state
+ *@property {() => void} onToggle - Callback when the collapse toggle is clicked
+ *@example
+ *----------------section header
+ *<SectionHeader
+ *  header="Personal Information"
+ *  collapsible
+ *  collapsed={isCollapsed}
+ *  onToggle={() => engine.toggleSection('personal-info')}
+ * />
+ * ----------------global header from a configuration
+ * <SectionHeader header={{ title: 'Employee Dashboard', additionalActions: [<Button>Export</Button>] }} />
+*/
+interface SectionHeaderProps {
+  header?: React.ReactNode | HeaderCardViewOptions;
+  headerConfig?: HeaderCardViewOptions;
+  collapsible?: boolean;
+  collapsed?: boolean;
+  onToggle?: () => void;
+}
+
+/**
+ * Checks whether a header is a configuration object rather than a renderable node
+ */
+const isHeaderConfig = (header: unknown): header is HeaderCardViewOptions =>
+  typeof header === 'object' && header !== null && !React.isValidElement(header) && !Array.isArray(header);
+
+/**
+ * Header of the global area and of each section in segregated data mode.
+ * Renders the title, the custom items and the additional actions of a header
+ * configuration, plus a collapse toggle for collapsible sections.
+ */
+const SectionHeader: React.FC<SectionHeaderProps> = ({
+  header,
+  headerConfig,
+  collapsible,
+  collapsed,
+  onToggle,
+}) => {
+  const config = headerConfig || (isHeaderConfig(header) ? header : undefined);
+  const title = config?.title ?? (isHeaderConfig(header) ? undefined : header);
+
+  if (config?.visible === false || (!title && !config && !collapsible)) return null;
+
+  const customItems = config?.headerConfig?.customItems || [];
+  const itemsFor = (align: 'left' | 'center' | 'right') =>
+    customItems.filter(item => (item.align || 'left') === align);
+
+  return (
+    <header
+      className={`${styles.cardViewHeader} ${config?.headerConfig?.className || ''}`}
+      style={{
+        ...(config?.makeHeaderSticky ? { position: "sticky", top: 0, zIndex: 10 } : {}),
+        ...config?.style,
+      }}
+    >
+      {config?.customHeader ? (
+        <div className={styles.customHeader}>{config.customHeader}</div>
+      ) : (
+        <>
+          <div className={`${styles.headerSection} ${styles.left}`}>
+            {typeof title === 'string' ? <h3 className={styles.sectionTitle}>{title}</h3> : title}
+            {itemsFor('left').map(item => (
+              <div key={item.id} className={styles.headerItem}>{item.component}</div>
+            ))}
+          </div>
+
+          <div className={`${styles.headerSection} ${styles.center}`}>
+            {itemsFor('center').map(item => (
+              <div key={item.id} className={styles.headerItem}>{item.component}</div>
+            ))}
+          </div>
+
+          <div className={`${styles.headerSection} ${styles.right}`}>
+            {itemsFor('right').map(item => (
+              <div key={item.id} className={styles.headerItem}>{item.component}</div>
+            ))}
+            {config?.additionalActions?.map((action, index) => (
+              <div key={`action-${index}`} className={styles.headerItem}>{action}</div>
+            ))}
+          </div>
+        </>
+      )}
+      {collapsible && (
+        <IconButton
+          onClick={onToggle}
+          aria-expanded={!collapsed}
+          aria-label={collapsed ? 'Expand section' : 'Collapse section'}
+          size="small"
+        >
+          <CollapseButton
+            style={{
+              fontSize: '14px',
+              transition: 'transform 0.3s ease',
+              transform: collapsed ? 'rotate(-90deg)' : 'none'
+            }}
+          />
+        </IconButton>
+      )}
+    </header>
+  );
+};
+
+export default SectionHeader;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { Box, Button, Typography } from '@mui/material';
+import { ResponsivePopoverModal } from './ResponsivePopoverModal';
+import FieldEditor from '../reusableComponent/FieldEditor';
+import { useDataItemForm } from '../customHooks/useDataItemForm';
+import type { DataItem, DataItemDescription, DataItemFormErrors } from '../InterfacesForCardView';
+
+/**
+ * Props for the DataItemFormModal component
+ *
+ * @property {React.ReactNode} trigger - Element the form is anchored to (e.g. the "Add item" button)
+ * @property {boolean} show - Controls the visibility of the form
+ * @property {(val: boolean) => void} setShow - Function to control the show state
+ * @property {'create' | 'edit'} mode - Whether the form adds a new item or edits `item`
+ * @property {DataItem} [item] - The edited item (edit mode)
+ * @property {DataItemDescription[]} descriptions - Described fields of the items
+ * @property {string} [title] - Title of the form
+ * @property {number | string} [width=420] - Width of the form in desktop view
+ * @property {Function} onSubmit - Saves the values, may be async and return field errors
+ */
+type DataItemFormModalProps = {
+  trigger: React.ReactNode;
+  show: boolean;
+  setShow: (val: boolean) => void;
+  mode: 'create' | 'edit';
+  item?: DataItem;
+  descriptions: DataItemDescription[];
+  title?: string;
+  width?: number | string;
+  onSubmit: (values: Partial<DataItem>) => void | DataItemFormErrors | Promise<void | DataItemFormErrors>;
+};
+
+type DataItemFormProps = Omit<DataItemFormModalProps, 'trigger' | 'show' | 'width'>;
+
+/**
+ * Formats a read-only value of the edit form
+ */
+const formatValue = (value: unknown) => {
+  if (value == null || value === '') return '-';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value);
+};
+
+/**
+ * Body of the form, remounted for every opened item so that its values start from the item
+ */
+const DataItemForm: React.FC<DataItemFormProps> = ({
+  setShow,
+  mode,
+  item,
+  descriptions,
+  title,
+  onSubmit,
+}) => {
+  const { fields, values, errors, formError, isSubmitting, setFieldValue, submit } = useDataItemForm({
+    descriptions,
+    mode,
+    item,
+    onSubmit
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await submit()) setShow(false);
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} noValidate sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="h6" sx={{ fontWeight: 600 }}>
+        {title || (mode === 'create' ? 'Add item' : 'Edit item')}
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, maxHeight: '60vh', overflowY: 'auto' }}>
+        {fields.map(({ description, configuration }) => (
+          <Box key={description.key} sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+            <Typography
+              component="label"
+              htmlFor={`item-form-${description.key}`}
+              variant="body2"
+              sx={{ fontWeight: 500, color: 'text.secondary' }}
+            >
+              {description.label}
+              {configuration.isEditable && configuration.validation?.required && ' *'}
+            </Typography>
+            {configuration.isEditable ? (
+              <FieldEditor
+                id={`item-form-${description.key}`}
+                field={description.key}
+                configuration={configuration}
+                value={values[description.key]}
+                onChange={(value) => setFieldValue(description.key, value)}
+              />
+            ) : (
+              <Typography variant="body2">{formatValue(item?.[description.key])}</Typography>
+            )}
+            {errors[description.key] && (
+              <Typography role="alert" variant="caption" color="error">
+                {errors[description.key]}
+              </Typography>
+            )}
+          </Box>
+        ))}
+      </Box>
+
+      {formError && (
+        <Typography role="alert" variant="body2" color="error">
+          {formError}
+        </Typography>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+        <Button onClick={() => setShow(false)} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="contained" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : mode === 'create' ? 'Add' : 'Save'}
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+/**
+ * Create/edit form generated from the data item descriptions, built on ResponsivePopoverModal.
+ *
+ * Features:
+ * - Desktop: Appears as a popover below the trigger
+ * - Mobile: Slides up from bottom as a bottom sheet
+ * - Lists every described field with the editor of its editableConfiguration
+ * - Validates the fields on submit, shows server side field errors returned by onSubmit
+ *
+ * Usage:
+ * <DataItemFormModal
+ *   trigger={<Button onClick={() => setShow(true)}>Add item</Button>}
+ *   show={show}
+ *   setShow={setShow}
+ *   mode="create"
+ *   descriptions={options.dataItemDescription}
+ *   onSubmit={(values) => methods.addDataItem({ id: crypto.randomUUID(), ...values })}
+ * />
+ */
+export const DataItemFormModal: React.FC<DataItemFormModalProps> = ({
+  trigger,
+  show,
+  width = 420,
+  ...formProps
+}) => {
+  return (
+    <ResponsivePopoverModal trigger={trigger} show={show} setShow={formProps.setShow} width={width}>
+      <DataItemForm key={`${formProps.mode}-${formProps.item?.id ?? 'new'}`} {...formProps} />
+    </ResponsivePopoverModal>
+  );
+};
@@ -0,0 +1,274 @@
+import React from "react";
+import dayjs from "dayjs";
+import { Checkbox, FormControlLabel, IconButton, ToggleButton, ToggleButtonGroup } from "@mui/material";
+import { Close as CloseIcon } from "@mui/icons-material";
+import DisplayDatePicker from "../reusableComponent/DisplayDatePicker";
+import TextInputField from "../reusableComponent/TextInputField";
+import SelectField from "../reusableComponent/SelectField";
+import MultipleSelectField from "../reusableComponent/MultipleSelectField";
+import { DATE_PRESETS, DEFAULT_PRESET_DAYS } from "../utils/DateFilterPresets";
+import { createFilterCondition, createFilterGroup, formatFilterExpression } from "../utils/FilterExpression";
+import { resolveFilterType } from "../utils/FilterRegistry";
+import type { FilterTypeDefinition } from "../utils/FilterRegistry";
+import type {
+  FilterExpressionCondition,
+  FilterExpressionGroup,
+  FilterValues
+} from "../utils/FunctionalityHelperFunctionsForCardView";
+import type { Filter } from "./FilterModal";
+
+const TEXT_CONDITIONS = ['contains', 'does not contain', 'equals', 'not equals', 'starts with', 'ends with', 'is empty', 'is not empty'];
+
+/**
+ *@property {Filter[]} fields - Filters of the FilterModal, the fields the conditions can use
+ *@property {FilterExpressionGroup} expression - Root group, an empty AND group when not given
+ *@property {(expression: FilterExpressionGroup) => void} onChange - Called with the edited root group
+ *@property {FilterTypeDefinition[]} filterTypes - Custom filter types of the view, their inputs edit the conditions
+ *@example
+ *<FilterExpressionBuilder
+ *  fields={filterConfigurations}
+ *  expression={selectedFilters[FILTER_EXPRESSION_KEY]?.value}
+ *  onChange={expression => setExpression(expression)}
+ * />
+*/
+interface FilterExpressionBuilderProps {
+  fields: Filter[];
+  expression?: FilterExpressionGroup;
+  onChange: (expression: FilterExpressionGroup) => void;
+  filterTypes?: FilterTypeDefinition[];
+}
+
+interface ConditionValueEditorProps {
+  field: Filter;
+  value: FilterValues[string];
+  onChange: (value: FilterValues[string]) => void;
+  filterTypes?: FilterTypeDefinition[];
+}
+
+/**
+ * Value of a condition, with the inputs of the filter type of its field
+ */
+const ConditionValueEditor: React.FC<ConditionValueEditorProps> = ({ field, value, onChange, filterTypes }) => {
+  const inputId = `expression-${field.id}`;
+
+  switch (field.type) {
+    case "range":
+    case "text":
+      return (
+        <>
+          <SelectField
+            name={`${inputId}-condition`}
+            value={value?.condition || ""}
+            allowClear={false}
+            handleChange={(_, condition) => onChange({ ...value, condition })}
+            options={(field.type === "range" ? field.conditions || [] : TEXT_CONDITIONS).map(condition => ({ value: condition, label: condition }))}
+            placeholder="Condition"
+          />
+          {!["is empty", "is not empty"].includes(value?.condition) && (
+            <TextInputField
+              id={`${inputId}-value`}
+              value={value?.value ?? ""}
+              onChange={(e) => onChange({ ...value, value: e.target.value })}
+              placeholder="Value"
+              type={field.type === "range" ? "number" : "text"}
+            />
+          )}
+        </>
+      );
+
+    case "date": {
+      const dateValue = value?.value && typeof value.value === "object" ? value.value : {};
+      const preset = DATE_PRESETS.find(option => option.value === dateValue.preset);
+      return (
+        <>
+          <SelectField
+            name={`${inputId}-period`}
+            value={preset?.value || "between"}
+            allowClear={false}
+            handleChange={(_, period) => {
+              const nextPreset = DATE_PRESETS.find(option => option.value === period);
+              onChange({
+                value: nextPreset
+                  ? { preset: nextPreset.value, ...(nextPreset.hasAmount && { amount: DEFAULT_PRESET_DAYS }) }
+                  : { start: null, end: null }
+              });
+            }}
+            options={[
+              { value: "between", label: "Between" },
+              ...DATE_PRESETS.map(option => ({ value: option.value, label: option.label }))
+            ]}
+          />
+          {preset?.hasAmount && (
+            <TextInputField
+              id={`${inputId}-amount`}
+              value={String(dateValue.amount ?? DEFAULT_PRESET_DAYS)}
+              onChange={(e) => onChange({ value: { ...dateValue, amount: Math.max(1, Math.floor(Number(e.target.value)) || 1) } })}
+              placeholder="Days"
+              type="number"
+            />
+          )}
+          {!preset && (["start", "end"] as const).map(bound => (
+            <DisplayDatePicker
+              key={bound}
+              id={`${inputId}-${bound}`}
+              value={dateValue[bound] ? dayjs(dateValue[bound]).toDate() : null}
+              onChange={(date) => onChange({ value: { ...dateValue, [bound]: date ? dayjs(date).format("YYYY-MM-DD") : null } })}
+              dateFormat="yyyy-MM-dd"
+              placeholder={bound === "start" ? "From" : "To"}
+            />
+          ))}
+        </>
+      );
+    }
+
+    case "select":
+    case "checkbox":
+    case "radio":
+      return (
+        <MultipleSelectField
+          name={`${inputId}-values`}
+          value={Array.isArray(value?.value) ? value.value : []}
+          handleChange={(_, values) => onChange({ value: values })}
+          options={field.values?.map(option => ({ value: option, label: option })) || []}
+          placeholder="Values"
+        />
+      );
+
+    default: {
+      const definition = resolveFilterType(field.type, filterTypes);
+      if (!definition?.renderInput) return null;
+      return definition.renderInput({ filter: field, value, onChange: next => onChange(next ?? { value: null }) });
+    }
+  }
+};
+
+interface ConditionEditorProps {
+  condition: FilterExpressionCondition;
+  fields: Filter[];
+  filterTypes?: FilterTypeDefinition[];
+  onChange: (condition: FilterExpressionCondition) => void;
+  onRemove: () => void;
+}
+
+/**
+ * Field, value and negation of a condition
+ */
+const ConditionEditor: React.FC<ConditionEditorProps> = ({ condition, fields, filterTypes, onChange, onRemove }) => {
+  const field = fields.find(option => option.id === condition.field);
+
+  return (
+    <div className="filter-expression-condition">
+      <SelectField
+        name="expression-field"
+        value={condition.field}
+        allowClear={false}
+        handleChange={(_, fieldId) => {
+          const nextField = fields.find(option => option.id === fieldId);
+          if (nextField) onChange({ ...createFilterCondition(nextField), negated: condition.negated });
+        }}
+        options={fields.map(option => ({ value: option.id, label: option.name }))}
+      />
+      {field && (
+        <ConditionValueEditor
+          field={field}
+          value={condition.value}
+          onChange={value => onChange({ ...condition, value })}
+          filterTypes={filterTypes}
+        />
+      )}
+      <FormControlLabel
+        control={<Checkbox size="small" checked={!!condition.negated} onChange={(e) => onChange({ ...condition, negated: e.target.checked })} />}
+        label={<span className="checkbox-label">NOT</span>}
+      />
+      <IconButton size="small" onClick={onRemove} aria-label="Remove condition" className="remove-filter-btn">
+        <CloseIcon fontSize="small" />
+      </IconButton>
+    </div>
+  );
+};
+
+interface GroupEditorProps {
+  group: FilterExpressionGroup;
+  fields: Filter[];
+  filterTypes?: FilterTypeDefinition[];
+  onChange: (group: FilterExpressionGroup) => void;
+  onRemove?: () => void;
+}
+
+/**
+ * AND/OR group with its conditions and nested groups
+ */
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, fields, filterTypes, onChange, onRemove }) => {
+  const setChildren = (children: FilterExpressionGroup["children"]) => onChange({ ...group, children });
+
+  return (
+    <div className={`filter-expression-group ${onRemove ? "nested" : ""}`}>
+      <div className="filter-expression-group-header">
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={group.operator}
+          onChange={(_, operator) => operator && onChange({ ...group, operator })}
+          aria-label="Combine the conditions with"
+        >
+          <ToggleButton value="and">AND</ToggleButton>
+          <ToggleButton value="or">OR</ToggleButton>
+        </ToggleButtonGroup>
+        <FormControlLabel
+          control={<Checkbox size="small" checked={!!group.negated} onChange={(e) => onChange({ ...group, negated: e.target.checked })} />}
+          label={<span className="checkbox-label">NOT</span>}
+        />
+        {onRemove && (
+          <IconButton size="small" onClick={onRemove} aria-label="Remove group" className="remove-filter-btn">
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        )}
+      </div>
+
+      {group.children.map((child, index) => {
+        const updateChild = (next: typeof child) => setChildren(group.children.map((current, i) => (i === index ? next : current)));
+        const removeChild = () => setChildren(group.children.filter((_, i) => i !== index));
+        return child.type === "group" ? (
+          <GroupEditor key={index} group={child} fields={fields} filterTypes={filterTypes} onChange={updateChild} onRemove={removeChild} />
+        ) : (
+          <ConditionEditor key={index} condition={child} fields={fields} filterTypes={filterTypes} onChange={updateChild} onRemove={removeChild} />
+        );
+      })}
+
+      <div className="filter-expression-actions">
+        <button
+          className="btn-secondary"
+          disabled={!fields.length}
+          onClick={() => setChildren([...group.children, createFilterCondition(fields[0])])}
+        >
+          + Condition
+        </button>
+        <button
+          className="btn-secondary"
+          onClick={() => setChildren([...group.children, createFilterGroup(group.operator === "and" ? "or" : "and")])}
+        >
+          + Group
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Advanced mode of the FilterModal: nested AND/OR/NOT groups of field conditions, with a text preview
+ */
+const FilterExpressionBuilder: React.FC<FilterExpressionBuilderProps> = ({ fields, expression, onChange, filterTypes }) => {
+  const root = expression || createFilterGroup();
+  const preview = formatFilterExpression(root, fields);
+
+  return (
+    <div className="filter-expression-builder">
+      <GroupEditor group={root} fields={fields} filterTypes={filterTypes} onChange={onChange} />
+      <div className="filter-expression-preview">
+        {preview || "Add conditions to combine the fields with AND, OR and NOT"}
+      </div>
+    </div>
+  );
+};
+
+export default FilterExpressionBuilder;
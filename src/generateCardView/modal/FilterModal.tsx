@@ -12,6 +12,17 @@ import DisplayDatePicker from "../reusableComponent/DisplayDatePicker";
 import TextInputField from "../reusableComponent/TextInputField";
 import SelectField from "../reusableComponent/SelectField";
 import MultipleSelectField from "../reusableComponent/MultipleSelectField";
+import RangeSliderFilter from "../reusableComponent/RangeSliderFilter";
+import FilterExpressionBuilder from "./FilterExpressionBuilder";
+import { FILTER_EXPRESSION_KEY, isFilterExpressionActive } from "../utils/FunctionalityHelperFunctionsForCardView";
+import type { FilterExpressionGroup } from "../utils/FunctionalityHelperFunctionsForCardView";
+import { formatFilterExpression } from "../utils/FilterExpression";
+import { resolveFilterType } from "../utils/FilterRegistry";
+import type { FilterTypeDefinition } from "../utils/FilterRegistry";
+import { formatRangeValue, getRangeStep } from "../utils/FilterFacets";
+import type { FacetCounts } from "../utils/FilterFacets";
+import { DATE_PRESETS, DEFAULT_PRESET_DAYS, getDatePresetLabel } from "../utils/DateFilterPresets";
+import type { DatePreset, DateRangeValue } from "../utils/DateFilterPresets";
 import "./modalStyling/FilterModal.scss";
 
 /**
@@ -20,12 +31,18 @@ import "./modalStyling/FilterModal.scss";
 export interface Filter {
   id: string;
   name: string;
-  type: 'text' | 'date' | 'select' | 'range' | 'checkbox';
+  /** Built-in type, or custom filter type (see registerFilterType) */
+  type: 'text' | 'date' | 'select' | 'range' | 'checkbox' | (string & {});
   allowedDateRange?: { start: string; end: string };
   values?: string[];
   singleSelect?: boolean;
   conditions?: string[];
   isRange?: boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+  unitPosition?: 'before' | 'after';
 }
 
 /**
@@ -48,6 +65,12 @@ interface FilterModalProps {
   onButtonClick: (buttonName: string, selectedFilters: Record<string, FilterValue>) => void;
   anchorEl?: any;
   open: boolean;
+  /** Number of items of each option with the other selected filters, options without items are disabled */
+  optionCounts?: FacetCounts;
+  /** Distribution of the values of the range filters with the other selected filters, keyed by filter id */
+  rangeHistograms?: Record<string, number[]>;
+  /** Custom filter types of the view, the registered ones are also used */
+  filterTypes?: FilterTypeDefinition[];
 }
 
 /**
@@ -61,7 +84,10 @@ const FilterModal: React.FC<FilterModalProps> = ({
   onClose,
   onButtonClick,
   anchorEl,
-  open
+  open,
+  optionCounts,
+  rangeHistograms,
+  filterTypes
 }) => {
   const [activeFilterId, setActiveFilterId] = useState<string>(filterConfig[0]?.id || "");
   const [searchTerms, setSearchTerms] = useState<Record<string, string>>({});
@@ -109,10 +135,14 @@ const FilterModal: React.FC<FilterModalProps> = ({
     };
   };
 
+  // The advanced mode edits the filter expression instead of a field filter
+  const isAdvancedMode = activeFilterId === FILTER_EXPRESSION_KEY;
+
   // Count active filters for each category
   const getActiveFilterCount = (filterId: string) => {
     const filterValue = selectedFilters[filterId];
     if (!filterValue) return 0;
+    if (filterId === FILTER_EXPRESSION_KEY) return isFilterExpressionActive(filterValue.value) ? 1 : 0;
 
     const filterType = filterConfig.find(f => f.id === filterId)?.type;
     
@@ -123,8 +153,8 @@ const FilterModal: React.FC<FilterModalProps> = ({
       case 'range':
         return filterValue.value && filterValue.value.length > 0 ? 1 : 0;
       case 'date':
-        if (filterConfig.find(f => f.id === filterId)?.isRange) {
-          return (filterValue.value?.start || filterValue.value?.end) ? 1 : 0;
+        if (filterValue.value && typeof filterValue.value === 'object') {
+          return (filterValue.value.start || filterValue.value.end || filterValue.value.preset) ? 1 : 0;
         }
         return filterValue.value ? 1 : 0;
       default:
@@ -135,6 +165,19 @@ const FilterModal: React.FC<FilterModalProps> = ({
   // Check if any filters are active
   const hasActiveFilters = Object.keys(selectedFilters).length > 0;
 
+  /**
+   * Options of a select filter with their counts, the options without items are disabled (unless selected)
+   */
+  const getSelectOptions = (filter: Filter, selected: unknown) => filter.values?.map(value => {
+    const count = optionCounts?.[filter.id]?.[value];
+    const isSelected = Array.isArray(selected) ? selected.includes(value) : selected === value;
+    return {
+      value,
+      label: count === undefined ? value : `${value} (${count})`,
+      disabled: count === 0 && !isSelected
+    };
+  }) || [];
+
   /**
    * Handles checkbox selection changes
    */
@@ -199,6 +242,95 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
     onChange(updated, filterId, updated[filterId]);
   };
 
+  /**
+   * Handles the period of a date filter, a preset is stored as is so it stays relative
+   */
+  const handleDatePresetChange = (filterId: string, period: string) => {
+    const prev: DateRangeValue = typeof selectedFilters[filterId]?.value === "object" ? selectedFilters[filterId].value : {};
+    const preset = DATE_PRESETS.find(option => option.value === period);
+    const updated = { ...selectedFilters };
+    if (preset) {
+      const value: DateRangeValue = { preset: preset.value as DatePreset };
+      if (preset.hasAmount) value.amount = prev.amount ?? DEFAULT_PRESET_DAYS;
+      if (prev.includeStart === false) value.includeStart = false;
+      if (prev.includeEnd === false) value.includeEnd = false;
+      updated[filterId] = { value };
+    } else {
+      // "Custom range" and "Single day" start from empty pickers
+      delete updated[filterId];
+    }
+    setSelectedFilters(updated);
+    onChange(updated, filterId, updated[filterId] || null);
+  };
+
+  /**
+   * Handles the number of days of the "Last N days" and "Next N days" presets
+   */
+  const handleDatePresetAmountChange = (filterId: string, amount: number) => {
+    const prev: DateRangeValue = selectedFilters[filterId]?.value || {};
+    const updated = {
+      ...selectedFilters,
+      [filterId]: { value: { ...prev, amount: Math.max(1, Math.floor(amount) || 1) } }
+    };
+    setSelectedFilters(updated);
+    onChange(updated, filterId, updated[filterId]);
+  };
+
+  /**
+   * Handles whether the first or last day of a date range matches
+   */
+  const handleDateBoundChange = (filterId: string, bound: 'includeStart' | 'includeEnd', include: boolean) => {
+    const prev: DateRangeValue = typeof selectedFilters[filterId]?.value === "object" ? selectedFilters[filterId].value : {};
+    const value: DateRangeValue = { ...prev };
+    if (include) delete value[bound];
+    else value[bound] = false;
+    const updated = { ...selectedFilters, [filterId]: { value } };
+    setSelectedFilters(updated);
+    onChange(updated, filterId, updated[filterId]);
+  };
+
+  /**
+   * Handles the inputs of custom filter types, null removes the filter
+   */
+  const handleCustomFilterChange = (filterId: string, value: FilterValue | null) => {
+    const updated = { ...selectedFilters };
+    if (value) {
+      updated[filterId] = value;
+    } else {
+      delete updated[filterId];
+    }
+    setSelectedFilters(updated);
+    onChange(updated, filterId, value);
+  };
+
+  /**
+   * Handles the filter expression of the advanced mode, an empty root group removes it
+   */
+  const handleExpressionChange = (expression: FilterExpressionGroup) => {
+    const updated = { ...selectedFilters };
+    if (expression.children.length) {
+      updated[FILTER_EXPRESSION_KEY] = { value: expression };
+    } else {
+      delete updated[FILTER_EXPRESSION_KEY];
+    }
+    setSelectedFilters(updated);
+    onChange(updated, FILTER_EXPRESSION_KEY, updated[FILTER_EXPRESSION_KEY] || null);
+  };
+
+  /**
+   * Handles range slider changes, the whole range removes the filter
+   */
+  const handleRangeChange = (filterId: string, value: [number, number] | null) => {
+    const updated = { ...selectedFilters };
+    if (value) {
+      updated[filterId] = { value };
+    } else {
+      delete updated[filterId];
+    }
+    setSelectedFilters(updated);
+    onChange(updated, filterId, updated[filterId] || null);
+  };
+
   /**
    * Handles dropdown selection changes
    */
@@ -285,6 +417,7 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
               label="Condition"
               options={[
                 { value: 'contains', label: 'Contains' },
+                { value: 'does not contain', label: 'Does Not Contain' },
                 { value: 'equals', label: 'Equals' },
                 { value: 'not equals', label: 'Not Equals' },
                 { value: 'starts with', label: 'Starts With' },
@@ -305,48 +438,99 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
           </div>
         );
 
-      case "date":
-        return filter.isRange ? (
-          <div className="date-range-container">
-            <div className="date-picker-group">
-              <label htmlFor={`${filter.id}-start`} className="form-label">Start Date</label>
-              <DisplayDatePicker
-                id={`${filter.id}-start`}
-                value={selectedValue?.value?.start ? new Date(selectedValue.value.start) : null}
-                onChange={(date) => handleDateRangeChange(filter.id, "start", date)}
-                minDate={filter.allowedDateRange ? new Date(filter.allowedDateRange.start) : undefined}
-                maxDate={filter.allowedDateRange ? new Date(filter.allowedDateRange.end) : undefined}
-                dateFormat="yyyy-MM-dd"
-                placeholder="Select Start Date"
-              />
-            </div>
-            <div className="date-picker-group">
-              <label htmlFor={`${filter.id}-end`} className="form-label">End Date</label>
-              <DisplayDatePicker
-                id={`${filter.id}-end`}
-                value={selectedValue?.value?.end ? new Date(selectedValue.value.end) : null}
-                onChange={(date) => handleDateRangeChange(filter.id, "end", date)}
-                minDate={filter.allowedDateRange ? new Date(filter.allowedDateRange.start) : undefined}
-                maxDate={filter.allowedDateRange ? new Date(filter.allowedDateRange.end) : undefined}
-                dateFormat="yyyy-MM-dd"
-                placeholder="Select End Date"
-              />
-            </div>
-          </div>
-        ) : (
-          <div className="date-picker-group">
-            <label htmlFor={`${filter.id}-date`} className="form-label">Select Date</label>
-            <DisplayDatePicker
-              id={`${filter.id}-date`}
-              value={selectedValue?.value ? new Date(selectedValue.value) : null}
-              onChange={(date) => handleDateChange(filter.id, date)}
-              minDate={filter.allowedDateRange ? new Date(filter.allowedDateRange.start) : undefined}
-              maxDate={filter.allowedDateRange ? new Date(filter.allowedDateRange.end) : undefined}
-              dateFormat="yyyy-MM-dd"
-              placeholder="Select Date"
+      case "date": {
+        const dateValue = selectedValue?.value;
+        const rangeValue: DateRangeValue = dateValue && typeof dateValue === "object" ? dateValue : {};
+        const preset = DATE_PRESETS.find(option => option.value === rangeValue.preset);
+        // Without a preset, range filters pick two days and the other ones a single day
+        const isCustomRange = !preset && (filter.isRange || !!rangeValue.start || !!rangeValue.end);
+        const minDate = filter.allowedDateRange ? dayjs(filter.allowedDateRange.start).toDate() : undefined;
+        const maxDate = filter.allowedDateRange ? dayjs(filter.allowedDateRange.end).toDate() : undefined;
+
+        return (
+          <div className="date-filter-container">
+            <SelectField
+              name={`${filter.id}-period`}
+              label="Period"
+              value={preset?.value || (filter.isRange ? "custom" : "day")}
+              handleChange={(_, val) => handleDatePresetChange(filter.id, val)}
+              options={[
+                filter.isRange ? { value: "custom", label: "Custom range" } : { value: "day", label: "Single day" },
+                ...DATE_PRESETS.map(option => ({ value: option.value, label: option.label }))
+              ]}
             />
+            {preset?.hasAmount && (
+              <TextInputField
+                id={`${filter.id}-amount`}
+                value={String(rangeValue.amount ?? DEFAULT_PRESET_DAYS)}
+                onChange={(e) => handleDatePresetAmountChange(filter.id, Number(e.target.value))}
+                label="Number of days"
+                type="number"
+              />
+            )}
+            {isCustomRange && (
+              <div className="date-range-container">
+                <div className="date-picker-group">
+                  <label htmlFor={`${filter.id}-start`} className="form-label">Start Date</label>
+                  <DisplayDatePicker
+                    id={`${filter.id}-start`}
+                    value={rangeValue.start ? dayjs(rangeValue.start).toDate() : null}
+                    onChange={(date) => handleDateRangeChange(filter.id, "start", date)}
+                    minDate={minDate}
+                    maxDate={maxDate}
+                    dateFormat="yyyy-MM-dd"
+                    placeholder="Select Start Date"
+                  />
+                </div>
+                <div className="date-picker-group">
+                  <label htmlFor={`${filter.id}-end`} className="form-label">End Date</label>
+                  <DisplayDatePicker
+                    id={`${filter.id}-end`}
+                    value={rangeValue.end ? dayjs(rangeValue.end).toDate() : null}
+                    onChange={(date) => handleDateRangeChange(filter.id, "end", date)}
+                    minDate={minDate}
+                    maxDate={maxDate}
+                    dateFormat="yyyy-MM-dd"
+                    placeholder="Select End Date"
+                  />
+                </div>
+              </div>
+            )}
+            {!preset && !isCustomRange && (
+              <div className="date-picker-group">
+                <label htmlFor={`${filter.id}-date`} className="form-label">Select Date</label>
+                <DisplayDatePicker
+                  id={`${filter.id}-date`}
+                  value={typeof dateValue === "string" ? dayjs(dateValue).toDate() : null}
+                  onChange={(date) => handleDateChange(filter.id, date)}
+                  minDate={minDate}
+                  maxDate={maxDate}
+                  dateFormat="yyyy-MM-dd"
+                  placeholder="Select Date"
+                />
+              </div>
+            )}
+            {(preset || isCustomRange) && (
+              <div className="date-bound-options">
+                {(["includeStart", "includeEnd"] as const).map(bound => (
+                  <FormControlLabel
+                    key={bound}
+                    control={
+                      <Checkbox
+                        checked={rangeValue[bound] !== false}
+                        onChange={(e) => handleDateBoundChange(filter.id, bound, e.target.checked)}
+                        color="primary"
+                        size="small"
+                      />
+                    }
+                    label={<span className="checkbox-label">{bound === "includeStart" ? "Include start day" : "Include end day"}</span>}
+                  />
+                ))}
+              </div>
+            )}
           </div>
         );
+      }
 
       case "checkbox":
         return (
@@ -362,52 +546,104 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
             <div className="checkbox-list-container">
               {filter.values
                 ?.filter(val => val.toLowerCase().includes(searchTerm.toLowerCase()))
-                .map(val => (
-                  <FormControlLabel
-                    key={val}
-                    control={
-                      <Checkbox
-                        checked={selectedValue?.value?.includes(val) || false}
-                        onChange={() => handleCheckboxChange(filter.id, val, !!filter.singleSelect)}
-                        color="primary"
-                        size="small"
-                      />
-                    }
-                    label={<span className="checkbox-label">{val}</span>}
-                  />
-                ))}
+                .map(val => {
+                  const isChecked = selectedValue?.value?.includes(val) || false;
+                  const count = optionCounts?.[filter.id]?.[val];
+                  return (
+                    <FormControlLabel
+                      key={val}
+                      disabled={count === 0 && !isChecked}
+                      control={
+                        <Checkbox
+                          checked={isChecked}
+                          onChange={() => handleCheckboxChange(filter.id, val, !!filter.singleSelect)}
+                          color="primary"
+                          size="small"
+                        />
+                      }
+                      label={
+                        <span className="checkbox-label">
+                          {val}
+                          {count !== undefined && <span className="option-count"> ({count})</span>}
+                        </span>
+                      }
+                    />
+                  );
+                })}
             </div>
           </>
         );
 
-      case "select":
-        return filter.singleSelect ? (
-          <SelectField
-            label={filter.name}
-            name={filter.id}
-            value={selectedValue?.value || ""}
-            handleChange={(name, val) => {
-              setDropdownInputs(prev => ({ ...prev, [name]: val }));
-              handleDropdownChange(name, "", val);
-            }}
-            placeholder={`Select ${filter.name.toLowerCase()}`}
-            options={filter.values?.map(v => ({ value: v, label: v })) || []}
-          />
-        ) : (
-          <MultipleSelectField
-            label={filter.name}
-            name={filter.id}
-            value={selectedValue?.value || []}
-            handleChange={(name, val) => {
-              setDropdownInputs(prev => ({ ...prev, [name]: val }));
-              handleDropdownChange(name, "", val);
-            }}
-            placeholder={`Select ${filter.name.toLowerCase()}`}
-            options={filter.values?.map(v => ({ value: v, label: v })) || []}
-          />
+      case "select": {
+        // `not equals` (e.g. `-status:x` from the search bar) excludes the selected values, editing keeps it
+        const isExcluded = selectedValue?.condition === 'not equals';
+        const selectCondition = isExcluded ? 'not equals' : '';
+        return (
+          <>
+            {filter.singleSelect ? (
+              <SelectField
+                label={filter.name}
+                name={filter.id}
+                value={selectedValue?.value || ""}
+                handleChange={(name, val) => {
+                  setDropdownInputs(prev => ({ ...prev, [name]: val }));
+                  handleDropdownChange(name, selectCondition, val);
+                }}
+                placeholder={`Select ${filter.name.toLowerCase()}`}
+                options={getSelectOptions(filter, selectedValue?.value)}
+              />
+            ) : (
+              <MultipleSelectField
+                label={filter.name}
+                name={filter.id}
+                value={selectedValue?.value || []}
+                handleChange={(name, val) => {
+                  setDropdownInputs(prev => ({ ...prev, [name]: val }));
+                  handleDropdownChange(name, selectCondition, val);
+                }}
+                placeholder={`Select ${filter.name.toLowerCase()}`}
+                options={getSelectOptions(filter, selectedValue?.value)}
+              />
+            )}
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={isExcluded}
+                  onChange={(e) => handleDropdownChange(
+                    filter.id,
+                    e.target.checked ? 'not equals' : '',
+                    selectedValue?.value ?? (filter.singleSelect ? "" : [])
+                  )}
+                  color="primary"
+                  size="small"
+                />
+              }
+              label={<span className="checkbox-label">Exclude the selected {filter.singleSelect ? "value" : "values"}</span>}
+            />
+          </>
         );
+      }
 
       case "range":
+        // A slider between the bounds of the values, the conditions when the bounds are unknown
+        // or the value is a condition (e.g. `rating:>4.5` from the search bar), so it stays editable
+        if (
+          filter.min !== undefined && filter.max !== undefined && filter.min < filter.max
+          && (!selectedValue || Array.isArray(selectedValue.value))
+        ) {
+          return (
+            <RangeSliderFilter
+              label={filter.name}
+              min={filter.min}
+              max={filter.max}
+              step={getRangeStep(filter.min, filter.max, filter.step)}
+              value={Array.isArray(selectedValue?.value) ? selectedValue.value : undefined}
+              histogram={rangeHistograms?.[filter.id]}
+              formatValue={value => formatRangeValue(value, filter)}
+              onChange={value => handleRangeChange(filter.id, value)}
+            />
+          );
+        }
         return (
           <div className="conditional-dropdown-container">
             <SelectField
@@ -436,8 +672,15 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
           </div>
         );
 
-      default:
-        return <div>Unsupported filter type</div>;
+      default: {
+        const definition = resolveFilterType(filter.type, filterTypes);
+        if (!definition?.renderInput) return <div>Unsupported filter type</div>;
+        return definition.renderInput({
+          filter,
+          value: selectedValue,
+          onChange: value => handleCustomFilterChange(filter.id, value)
+        });
+      }
     }
   };
 
@@ -462,18 +705,25 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
     switch (filter.type) {
       case 'checkbox':
         return Array.isArray(value) ? value.join(', ') : '';
-      case 'date':
-        if (filter.isRange) {
-          return `${value?.start || ''} - ${value?.end || ''}`;
-        }
-        return value;
+      case 'date': {
+        if (!value || typeof value !== 'object') return value;
+        const period = value.preset ? getDatePresetLabel(value.preset, value.amount) : `${value.start || ''} - ${value.end || ''}`;
+        const excluded = [value.includeStart === false && 'start', value.includeEnd === false && 'end'].filter(Boolean);
+        return excluded.length ? `${period} (without ${excluded.join(' and ')} day)` : period;
+      }
       case 'select':
-      case 'range':
+        // Excluded value (e.g. "-status:terminated" in the search bar)
+        if (condition === 'not equals') return `not ${value}`;
         return Array.isArray(value) ? value.join(', ') : value;
+      case 'range':
+        if (Array.isArray(value)) return value.map(bound => formatRangeValue(bound, filter)).join(' – ');
+        return condition ? `${condition} ${value}` : value;
       case 'text':
         return `${condition}: ${value}`;
-      default:
-        return value;
+      default: {
+        const definition = resolveFilterType(filter.type, filterTypes);
+        return definition?.formatValue ? definition.formatValue(filterValue, filter) : value;
+      }
     }
   };
 
@@ -542,6 +792,15 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
                     </div>
                   );
                 })}
+                <div
+                  className={`filter-item advanced ${isAdvancedMode ? 'active' : ''} ${getActiveFilterCount(FILTER_EXPRESSION_KEY) ? 'has-active' : ''}`}
+                  onClick={() => setActiveFilterId(FILTER_EXPRESSION_KEY)}
+                >
+                  <span className="filter-item-name">Advanced (AND / OR)</span>
+                  {getActiveFilterCount(FILTER_EXPRESSION_KEY) > 0 && (
+                    <span className="filter-indicator">1</span>
+                  )}
+                </div>
               </div>
 
               {hasActiveFilters && (
@@ -559,7 +818,7 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
               {!isMobile && (
                 <div className="filter-content-header">
                   <h3 className="filter-type-title">
-                    {activeFilter?.name}
+                    {isAdvancedMode ? "Advanced filter" : activeFilter?.name}
                     {getActiveFilterCount(activeFilterId) > 0 && (
                       <span className="active-badge">
                         ({getActiveFilterCount(activeFilterId)})
@@ -573,7 +832,7 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
               )}
               
               <div className="filter-content-body">
-                {activeFilter && (
+                {(activeFilter || isAdvancedMode) && (
                   <motion.div 
                     className="filter-type-container"
                     key={activeFilterId}
@@ -581,7 +840,14 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
                     animate={{ opacity: 1, x: 0 }}
                     transition={{ duration: 0.2 }}
                   >
-                    {renderFilterInput(activeFilter)}
+                    {isAdvancedMode ? (
+                      <FilterExpressionBuilder
+                        fields={filterConfig}
+                        filterTypes={filterTypes}
+                        expression={selectedFilters[FILTER_EXPRESSION_KEY]?.value}
+                        onChange={handleExpressionChange}
+                      />
+                    ) : activeFilter && renderFilterInput(activeFilter)}
                   </motion.div>
                 )}
               </div>
@@ -615,10 +881,13 @@ setSelectedFilters((prev: Record<string, FilterValue>) => {
                       transition={{ duration: 0.2 }}
                     >
                       {Object.entries(selectedFilters).map(([key, filterValue]) => {
-                        const filter = filterConfig.find(f => f.id === key);
+                        const isExpression = key === FILTER_EXPRESSION_KEY;
+                        const filter = isExpression ? { name: "Advanced filter" } : filterConfig.find(f => f.id === key);
                         if (!filter) return null;
                         
-                        const displayValue = formatFilterValue(key, filterValue);
+                        const displayValue = isExpression
+                          ? formatFilterExpression(selectedFilters[FILTER_EXPRESSION_KEY].value, filterConfig) || "No complete condition"
+                          : formatFilterValue(key, filterValue);
                         
                         return (
                           <motion.div
@@ -21,8 +21,10 @@ import {
   ArrowDownward as ArrowDownwardIcon,
   Close as CloseIcon,
   FilterList as FilterListIcon,
+  DragIndicator as DragIndicatorIcon,
 } from '@mui/icons-material';
-import { AnimatePresence, motion } from 'framer-motion';
+import { AnimatePresence, motion, Reorder, useDragControls } from 'framer-motion';
+import type { SortPreset } from '../InterfacesForCardView';
 
 // ========== TYPE DEFINITIONS ========== //
 /**
@@ -54,11 +56,17 @@ export interface MultiSortConfig extends SingleSortConfig {
  * @property {string} id - Unique identifier
  * @property {string} key - Field key for sorting
  * @property {string} label - Display label
+ * @property {SortDirection[]} [directions] - Directions offered for the option (both by default)
+ * @property {Partial<Record<SortDirection, string>>} [orderLabels] - Summary text of each direction (default A→Z / Z→A)
+ * @example
+ * { id: 'relevance', key: RELEVANCE_SORT_KEY, label: 'Relevance', directions: ['desc'], orderLabels: { desc: 'most relevant first' } }
  */
 export interface SortOption {
   id: string;
   key: string;
   label: string;
+  directions?: SortDirection[];
+  orderLabels?: Partial<Record<SortDirection, string>>;
 }
 
 interface SortingModalProps {
@@ -69,8 +77,74 @@ interface SortingModalProps {
   position?: 'left' | 'right';
   onClearSort?: () => void;
   multiSort?: boolean;
+  presets?: SortPreset[];
+}
+
+interface SortPriorityItemProps {
+  sortItem: MultiSortConfig;
+  priority: number;
+  label: string;
+  onRemove: () => void;
+  onMove: (offset: number) => void;
+  onDragEnd: () => void;
 }
 
+/**
+ * Active sort of the multi-sort list, dragged by its handle to change its priority
+ * (the arrow keys move it from the focused handle)
+ */
+const SortPriorityItem: React.FC<SortPriorityItemProps> = ({ sortItem, priority, label, onRemove, onMove, onDragEnd }) => {
+  const dragControls = useDragControls();
+
+  return (
+    <Reorder.Item
+      as="div"
+      value={sortItem}
+      dragListener={false}
+      dragControls={dragControls}
+      onDragEnd={onDragEnd}
+      style={{ position: 'relative', listStyle: 'none' }}
+    >
+      <Box display="flex" alignItems="center" gap={0.5}>
+        <IconButton
+          size="small"
+          aria-label={`Drag to change the priority of ${label}, or use the arrow keys`}
+          onPointerDown={(event) => dragControls.start(event)}
+          onKeyDown={(event) => {
+            if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+              event.preventDefault();
+              onMove(event.key === 'ArrowUp' ? -1 : 1);
+            }
+          }}
+          sx={{ cursor: 'grab', touchAction: 'none', p: 0.25 }}
+        >
+          <DragIndicatorIcon fontSize="small" />
+        </IconButton>
+        <Chip
+          label={
+            <Box display="flex" alignItems="center" gap={0.5}>
+              <Typography variant="caption" fontWeight="bold">
+                {priority}.
+              </Typography>
+              {label}
+              {sortItem.order === 'asc' ? (
+                <ArrowUpwardIcon fontSize="small" />
+              ) : (
+                <ArrowDownwardIcon fontSize="small" />
+              )}
+            </Box>
+          }
+          onDelete={onRemove}
+          deleteIcon={<CloseIcon />}
+          size="small"
+          color="primary"
+          variant="outlined"
+        />
+      </Box>
+    </Reorder.Item>
+  );
+};
+
 /**
  * A responsive sorting modal component that works on both desktop and mobile
  * - Desktop: Appears as a dropdown near the trigger button
@@ -90,6 +164,7 @@ interface SortingModalProps {
  * @param {(sortValue: SingleSortConfig | MultiSortConfig[] | null) => void} props.onChange - Callback for sorting changes
  * @param {(sortValue: SingleSortConfig | MultiSortConfig[] | null) => void} props.onClearSort - Callback for clearing sorting
  * @param {boolean} props.multiSort - Whether to allow multiple sorting     
+ * @param {SortPreset[]} props.presets - Named sorts applied in one click
  * @returns {JSX.Element} The SortingModal component
  */
 export const SortingModal: React.FC<SortingModalProps> = ({
@@ -100,9 +175,12 @@ export const SortingModal: React.FC<SortingModalProps> = ({
   position = 'right',
   onClearSort,
   multiSort = false,
+  presets,
 }) => {
   // Component state
   const [open, setOpen] = useState(false);
+  // Priority order being dragged, the sort only changes when the item is dropped
+  const [draggedOrder, setDraggedOrder] = useState<MultiSortConfig[] | null>(null);
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
 
@@ -143,6 +221,64 @@ export const SortingModal: React.FC<SortingModalProps> = ({
     onChange(newSorts.length > 0 ? newSorts : []);
   };
 
+  /**
+   * Moves a sort criteria up (-1) or down (+1) in the multi-sort priority
+   * @param {number} index - Current priority index
+   * @param {number} offset - Number of places to move
+   */
+  const handleMoveSort = (index: number, offset: number) => {
+    if (!Array.isArray(value)) return;
+    const target = index + offset;
+    if (target < 0 || target >= value.length) return;
+    const newSorts = [...value];
+    [newSorts[index], newSorts[target]] = [newSorts[target], newSorts[index]];
+    onChange(newSorts);
+  };
+
+  /**
+   * Applies the dragged priority order when the item is dropped
+   */
+  const handleDragEnd = () => {
+    if (draggedOrder) onChange(draggedOrder);
+    setDraggedOrder(null);
+  };
+
+  /**
+   * Criteria of a preset that can be applied, only the first one without multiSort
+   * @param {SortPreset} preset - The preset
+   */
+  const getPresetCriteria = (preset: SortPreset) => multiSort ? preset.sort : preset.sort.slice(0, 1);
+
+  /**
+   * Applies the criteria of a preset, they replace the current sorts
+   * @param {SortPreset} preset - The preset to apply
+   */
+  const handleSelectPreset = (preset: SortPreset) => {
+    const sorts = getPresetCriteria(preset).map(({ key, order }) => ({
+      id: options.find(opt => opt.key === key)?.id || key,
+      key,
+      order,
+    }));
+    if (!multiSort) {
+      if (sorts.length) onChange({ key: sorts[0].key, order: sorts[0].order });
+      setOpen(false);
+    } else {
+      onChange(sorts);
+    }
+  };
+
+  /**
+   * Checks if the current sorts are the ones of a preset
+   * @param {SortPreset} preset - The preset to check
+   * @returns {boolean} Whether the preset is applied
+   */
+  const isPresetActive = (preset: SortPreset) => {
+    const sorts = Array.isArray(value) ? value : value ? [value] : [];
+    const presetCriteria = getPresetCriteria(preset);
+    return sorts.length === presetCriteria.length
+      && presetCriteria.every((criteria, index) => sorts[index].key === criteria.key && sorts[index].order === criteria.order);
+  };
+
   /**
    * Clears all sorting
    */
@@ -181,7 +317,18 @@ export const SortingModal: React.FC<SortingModalProps> = ({
    * @returns {string} The corresponding label
    */
   const getLabelAgainstId = (id: string) => {
-    return options.find(opt => opt.id === id)?.label || '';
+    return options.find(opt => opt.id === id)?.label || options.find(opt => opt.key === id)?.label || id;
+  };
+
+  /**
+   * Gets the summary text of a sort direction
+   * @param {string} key - The field key
+   * @param {SortDirection} order - The sort direction
+   * @returns {string} The direction text
+   */
+  const getOrderLabel = (key: string, order: SortDirection) => {
+    const orderLabel = options.find(opt => opt.key === key)?.orderLabels?.[order];
+    return orderLabel || (order === 'asc' ? 'A→Z' : 'Z→A');
   };
 
   /**
@@ -215,11 +362,11 @@ export const SortingModal: React.FC<SortingModalProps> = ({
       if (value.length === 0) return 'No sorts applied';
       if (value.length === 1) {
         const item = value[0];
-        return `${getLabelAgainstId(item.id)} (${item.order === 'asc' ? 'A→Z' : 'Z→A'})`;
+        return `${getLabelAgainstId(item.id)} (${getOrderLabel(item.key, item.order)})`;
       }
       return `${value.length} sorts applied`;
     } else {
-      return `${getLabelAgainstId(options.find(o => o.key === value.key)?.id || value.key)} (${value.order === 'asc' ? 'A→Z' : 'Z→A'})`;
+      return `${getLabelAgainstId(options.find(o => o.key === value.key)?.id || value.key)} (${getOrderLabel(value.key, value.order)})`;
     }
   };
 
@@ -359,54 +506,32 @@ export const SortingModal: React.FC<SortingModalProps> = ({
                       </Typography>
                     </Box>
                     
-                    {/* Active sort chips with priority indicators */}
-                    <Stack
-                      direction="row"
-                      spacing={1}
-                      sx={{
-                        mb: 2,
-                        flexWrap: 'wrap',
-                        gap: 1,
-                        maxHeight: 120,
-                        overflowY: 'auto',
-                      }}
-                    >
-                      <AnimatePresence>
-                        {Array.isArray(value) ? (
-                          // Multi-sort chips with priority numbers
-                          value.map((sortItem, index) => (
-                            <motion.div
-                              key={sortItem.id}
-                              initial={{ opacity: 0, scale: 0.8 }}
-                              animate={{ opacity: 1, scale: 1 }}
-                              exit={{ opacity: 0, scale: 0.8 }}
-                              transition={{ duration: 0.2 }}
-                            >
-                              <Chip
-                                label={
-                                  <Box display="flex" alignItems="center" gap={0.5}>
-                                    <Typography variant="caption" fontWeight="bold">
-                                      {index + 1}.
-                                    </Typography>
-                                    {getLabelAgainstId(sortItem.id)}
-                                    {sortItem.order === 'asc' ? (
-                                      <ArrowUpwardIcon fontSize="small" />
-                                    ) : (
-                                      <ArrowDownwardIcon fontSize="small" />
-                                    )}
-                                  </Box>
-                                }
-                                onDelete={() => handleRemoveSort(sortItem.id)}
-                                deleteIcon={<CloseIcon />}
-                                size="small"
-                                color="primary"
-                                variant="outlined"
-                              />
-                            </motion.div>
-                          ))
-                        ) : (
-                          // Single sort chip
-                          value && (
+                    {Array.isArray(value) ? (
+                      // Multi-sort criteria in priority order, dragged by their handle
+                      <Reorder.Group
+                        as="div"
+                        axis="y"
+                        values={draggedOrder || value}
+                        onReorder={setDraggedOrder}
+                        style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 16, maxHeight: 160, overflowY: 'auto', padding: 0 }}
+                      >
+                        {(draggedOrder || value).map((sortItem, index) => (
+                          <SortPriorityItem
+                            key={sortItem.id}
+                            sortItem={sortItem}
+                            priority={index + 1}
+                            label={getLabelAgainstId(sortItem.id)}
+                            onRemove={() => handleRemoveSort(sortItem.id)}
+                            onMove={(offset) => handleMoveSort(index, offset)}
+                            onDragEnd={handleDragEnd}
+                          />
+                        ))}
+                      </Reorder.Group>
+                    ) : (
+                      <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap', gap: 1 }}>
+                        <AnimatePresence>
+                          {/* Single sort chip */}
+                          {value && (
                             <motion.div
                               initial={{ opacity: 0, scale: 0.8 }}
                               animate={{ opacity: 1, scale: 1 }}
@@ -431,9 +556,36 @@ export const SortingModal: React.FC<SortingModalProps> = ({
                                 variant="outlined"
                               />
                             </motion.div>
-                          )
-                        )}
-                      </AnimatePresence>
+                          )}
+                        </AnimatePresence>
+                      </Stack>
+                    )}
+                    <Divider sx={{ mb: 2 }} />
+                  </>
+                )}
+
+                {/* Sort presets, applied in one click */}
+                {presets && presets.length > 0 && (
+                  <>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 1, pl: 1 }}>
+                      Presets:
+                    </Typography>
+                    <Stack direction="row" sx={{ mb: 2, pl: 1, flexWrap: 'wrap', gap: 1 }}>
+                      {presets.map(preset => {
+                        const isActive = isPresetActive(preset);
+                        return (
+                          <Chip
+                            key={preset.id}
+                            label={preset.label}
+                            aria-pressed={isActive}
+                            onClick={() => handleSelectPreset(preset)}
+                            size="small"
+                            color={isActive ? 'primary' : 'default'}
+                            variant={isActive ? 'filled' : 'outlined'}
+                            clickable
+                          />
+                        );
+                      })}
                     </Stack>
                     <Divider sx={{ mb: 2 }} />
                   </>
@@ -455,6 +607,7 @@ export const SortingModal: React.FC<SortingModalProps> = ({
                     const isAsc = isSorted(opt.key, 'asc');
                     const isDesc = isSorted(opt.key, 'desc');
                     const isAnyDirectionSorted = isAsc || isDesc;
+                    const directions = opt.directions || ['asc', 'desc'];
 
                     return (
                       <Box
@@ -480,38 +633,42 @@ export const SortingModal: React.FC<SortingModalProps> = ({
                           {getDirectionIcon(opt.key)}
                         </Box>
                         <Box display="flex" gap={0.5}>
-                          <Button
-                            aria-label={`Sort ${opt.label} ascending`}
-                            size="small"
-                            variant={isAsc ? 'contained' : 'outlined'}
-                            color={isAsc ? 'primary' : 'inherit'}
-                            onClick={() => handleSelect(opt.id, opt.key, 'asc')}
-                            sx={{
-                              minWidth: 36,
-                              px: 1,
-                              py: 0.5,
-                              borderRadius: '6px',
-                              fontSize: '0.75rem',
-                            }}
-                          >
-                            <ArrowUpwardIcon fontSize="small" />
-                          </Button>
-                          <Button
-                            aria-label={`Sort ${opt.label} descending`}
-                            size="small"
-                            variant={isDesc ? 'contained' : 'outlined'}
-                            color={isDesc ? 'primary' : 'inherit'}
-                            onClick={() => handleSelect(opt.id, opt.key, 'desc')}
-                            sx={{
-                              minWidth: 36,
-                              px: 1,
-                              py: 0.5,
-                              borderRadius: '6px',
-                              fontSize: '0.75rem',
-                            }}
-                          >
-                            <ArrowDownwardIcon fontSize="small" />
-                          </Button>
+                          {directions.includes('asc') && (
+                            <Button
+                              aria-label={`Sort ${opt.label} ascending`}
+                              size="small"
+                              variant={isAsc ? 'contained' : 'outlined'}
+                              color={isAsc ? 'primary' : 'inherit'}
+                              onClick={() => handleSelect(opt.id, opt.key, 'asc')}
+                              sx={{
+                                minWidth: 36,
+                                px: 1,
+                                py: 0.5,
+                                borderRadius: '6px',
+                                fontSize: '0.75rem',
+                              }}
+                            >
+                              <ArrowUpwardIcon fontSize="small" />
+                            </Button>
+                          )}
+                          {directions.includes('desc') && (
+                            <Button
+                              aria-label={`Sort ${opt.label} descending`}
+                              size="small"
+                              variant={isDesc ? 'contained' : 'outlined'}
+                              color={isDesc ? 'primary' : 'inherit'}
+                              onClick={() => handleSelect(opt.id, opt.key, 'desc')}
+                              sx={{
+                                minWidth: 36,
+                                px: 1,
+                                py: 0.5,
+                                borderRadius: '6px',
+                                fontSize: '0.75rem',
+                              }}
+                            >
+                              <ArrowDownwardIcon fontSize="small" />
+                            </Button>
+                          )}
                         </Box>
                       </Box>
                     );
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Checkbox, Radio } from 'antd';
+import TextInputField from './TextInputField';
+import SelectField from './SelectField';
+import MultipleSelectField from './MultipleSelectField';
+import DisplayDatePicker from './DisplayDatePicker';
+import type { EditableFieldConfiguration } from '../InterfacesForCardView';
+
+/**
+ *@property {string} id - Id of the editor input
+ *@property {string} field - Key of the edited field
+ *@property {EditableFieldConfiguration} configuration - Editor type, options and placeholder
+ *@property {unknown} value - Editor value (see toEditorValue)
+ *@property {(value: unknown) => void} onChange - Called with the new editor value
+ *@property {boolean} autoFocus - Focuses the editor when it is rendered
+ *@example
+ *<FieldEditor
+ *  id="status-editor"
+ *  field="status"
+ *  configuration={{ isEditable: true, editorType: 'select', editorOptions: ['active', 'inactive'] }}
+ *  value={draft}
+ *  onChange={setDraft}
+ * />
+*/
+interface FieldEditorProps {
+  id: string;
+  field: string;
+  configuration: EditableFieldConfiguration;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  autoFocus?: boolean;
+}
+
+/**
+ * Editor of a single field for the configured `editorType`, shared by the inline
+ * editors and the item form. "rich-text" has no WYSIWYG editor in this package
+ * and falls back to a text area.
+ */
+const FieldEditor: React.FC<FieldEditorProps> = ({
+  id,
+  field,
+  configuration,
+  value,
+  onChange,
+  autoFocus = false,
+}) => {
+  const { editorType = 'text', editorOptions = [], placeholder } = configuration;
+  const selectOptions = editorOptions.map(option => ({ value: option, label: option }));
+
+  switch (editorType) {
+    case 'textarea':
+    case 'rich-text':
+      return (
+        <textarea
+          id={id}
+          className="form-control"
+          rows={3}
+          value={value as string}
+          placeholder={placeholder}
+          onChange={(e) => onChange(e.target.value)}
+          autoFocus={autoFocus}
+        />
+      );
+    case 'number':
+    case 'color':
+    case 'datetime':
+    case 'text':
+      return (
+        <TextInputField
+          id={id}
+          type={editorType === 'datetime' ? 'datetime-local' : editorType}
+          value={value as string}
+          placeholder={placeholder}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case 'select':
+      return (
+        <SelectField
+          name={field}
+          value={value || undefined}
+          options={selectOptions}
+          placeholder={placeholder}
+          handleChange={(_name, val) => onChange(val ?? '')}
+          onBlur={() => {}}
+        />
+      );
+    case 'multi-select':
+      return (
+        <MultipleSelectField
+          name={field}
+          value={value}
+          options={selectOptions}
+          placeholder={placeholder}
+          handleChange={(_name, val) => onChange(val || [])}
+        />
+      );
+    case 'date':
+      return (
+        <DisplayDatePicker
+          id={id}
+          value={value as Date | null}
+          onChange={onChange}
+          dateFormat="dd MMM yyyy"
+          className="form-control"
+          selectsMultiple={false}
+        />
+      );
+    case 'checkbox':
+      return (
+        <Checkbox id={id} checked={value as boolean} onChange={(e) => onChange(e.target.checked)} />
+      );
+    case 'radio':
+      return (
+        <Radio.Group
+          value={value}
+          options={selectOptions}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case 'file':
+      return (
+        <input
+          id={id}
+          type="file"
+          className="form-control"
+          onChange={(e) => onChange(e.target.files?.[0] || null)}
+        />
+      );
+    default:
+      return null;
+  }
+};
+
+export default FieldEditor;
@@ -0,0 +1,41 @@
+import React from 'react';
+import type { HighlightRange } from '../utils/SearchHighlight';
+
+/**
+ *@property {string} text - Displayed text
+ *@property {HighlightRange[]} ranges - Highlighted parts of the text (see getHighlightRanges)
+ *@property {React.CSSProperties} style - Style of the highlighted parts
+ *@property {string} className - Class of the highlighted parts
+ *@example
+ *<HighlightedText
+ *  text="John Johnson"
+ *  ranges={[[0, 4], [5, 9]]}
+ *  style={{ backgroundColor: '#fff3bf' }}
+ * />
+*/
+interface HighlightedTextProps {
+  text: string;
+  ranges: HighlightRange[];
+  style?: React.CSSProperties;
+  className?: string;
+}
+
+/**
+ * Text with its search matches wrapped in `<mark>` elements
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges, style, className }) => {
+  if (!ranges.length) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(<mark key={start} className={className} style={style}>{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+
+/**
+ *@property {() => void} onVisible - Called when the sentinel enters the viewport (loads the next chunk)
+ *@property {boolean} disabled - Stops observing (nothing more to load, a chunk is loading or failed)
+ *@property {number} itemCount - Number of rendered items, the visibility is checked again when it changes
+ *@property {string} rootMargin - How far before the viewport the sentinel counts as visible
+ *@example
+ *<InfiniteScrollSentinel
+ *  onVisible={() => engine.loadMore()}
+ *  disabled={!pagination.hasMore}
+ *  itemCount={pageData.length}
+ * />
+*/
+interface InfiniteScrollSentinelProps {
+  onVisible: () => void;
+  disabled?: boolean;
+  itemCount: number;
+  rootMargin?: string;
+}
+
+/**
+ * Invisible element placed after the last card, used by the infinite pagination mode.
+ * The observer is created again whenever the item count changes, so that a sentinel
+ * that is still visible after a chunk was appended (short chunks) loads the next one.
+ */
+const InfiniteScrollSentinel: React.FC<InfiniteScrollSentinelProps> = ({
+  onVisible,
+  disabled = false,
+  itemCount,
+  rootMargin = '200px',
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Latest callback, the observer is not recreated when the parent re-renders
+  const onVisibleRef = useRef(onVisible);
+  onVisibleRef.current = onVisible;
+
+  useEffect(() => {
+    if (disabled || !sentinelRef.current) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) onVisibleRef.current();
+    }, { rootMargin });
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [disabled, itemCount, rootMargin]);
+
+  return <div ref={sentinelRef} aria-hidden="true" style={{ height: '1px' }} />;
+};
+
+export default InfiniteScrollSentinel;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { IconButton } from '@mui/material';
+import FieldEditor from './FieldEditor';
+import { EditButton, SaveButton, CancelButton } from '../Icons';
+import { fromEditorValue, toEditorValue, validateFieldValue } from '../utils/FieldEditorHelpers';
+import type { EditableFieldConfiguration } from '../InterfacesForCardView';
+
+/**
+ *@property {string} itemId - Id of the edited item (used for the editor ids)
+ *@property {string} field - Key of the edited field
+ *@property {unknown} value - Current value of the field
+ *@property {EditableFieldConfiguration} configuration - Editor type, options, placeholder and validation rules
+ *@property {(newValue: unknown) => void} onSave - Called with the validated value
+ *@property {React.ReactNode} children - Read-only display of the value
+ *@example
+ *<InlineFieldEditor
+ *  itemId={item.id}
+ *  field="status"
+ *  value={item.status}
+ *  configuration={{ isEditable: true, editorType: 'select', editorOptions: ['active', 'inactive'] }}
+ *  onSave={(status) => updateDataItem(item.id, { status })}
+ *>
+ *  {item.status}
+ *</InlineFieldEditor>
+*/
+interface InlineFieldEditorProps {
+  itemId: string;
+  field: string;
+  value: unknown;
+  configuration: EditableFieldConfiguration;
+  onSave: (newValue: unknown) => void;
+  children?: React.ReactNode;
+}
+
+/**
+ * Inline editor of a card field, driven by `DataItemDescription.editableConfiguration`.
+ * Shows the value with an edit button; while editing, the editor of the configured
+ * `editorType` is rendered with save/cancel buttons (Enter saves, Escape cancels).
+ * Validation errors are shown under the editor and prevent saving.
+ */
+const InlineFieldEditor: React.FC<InlineFieldEditorProps> = ({
+  itemId,
+  field,
+  value,
+  configuration,
+  onSave,
+  children,
+}) => {
+  const { editorType = 'text', validation } = configuration;
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<unknown>(null);
+  const [error, setError] = useState<string>();
+
+  const startEditing = () => {
+    setDraft(toEditorValue(value, editorType));
+    setError(undefined);
+    setIsEditing(true);
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+    setError(undefined);
+  };
+
+  const handleSave = () => {
+    const newValue = fromEditorValue(draft, value, editorType);
+    const validationError = validateFieldValue(newValue, validation);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setIsEditing(false);
+    onSave(newValue);
+  };
+
+  const handleChange = (newDraft: unknown) => {
+    setDraft(newDraft);
+    if (error) setError(undefined);
+  };
+
+  // Enter saves (except in text areas and open dropdowns), Escape cancels
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (e.key === 'Enter' && target.tagName !== 'TEXTAREA' && target.getAttribute('role') !== 'combobox') {
+      e.preventDefault();
+      handleSave();
+    } else if (e.key === 'Escape') {
+      handleCancel();
+    }
+  };
+
+  // Clicks inside the editor (including its popups) must not select the card
+  const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  if (!isEditing) {
+    return (
+      <span style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }}>
+        {children}
+        <IconButton
+          size="small"
+          aria-label={`Edit ${field}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            startEditing();
+          }}
+          onDoubleClick={stopPropagation}
+        >
+          <EditButton style={{ fontSize: '12px' }} />
+        </IconButton>
+      </span>
+    );
+  }
+
+  return (
+    <div
+      onClick={stopPropagation}
+      onDoubleClick={stopPropagation}
+      onMouseDown={stopPropagation}
+      onKeyDown={handleKeyDown}
+      style={{ display: 'flex', flexDirection: 'column', gap: '4px', width: '100%' }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <FieldEditor
+            id={`inline-editor-${itemId}-${field}`}
+            field={field}
+            configuration={configuration}
+            value={draft}
+            onChange={handleChange}
+            autoFocus
+          />
+        </div>
+        <IconButton size="small" aria-label="Save" onClick={handleSave}>
+          <SaveButton style={{ fontSize: '12px' }} />
+        </IconButton>
+        <IconButton size="small" aria-label="Cancel" onClick={handleCancel}>
+          <CancelButton style={{ fontSize: '12px' }} />
+        </IconButton>
+      </div>
+      {error && (
+        <div role="alert" style={{ color: '#f72585', fontSize: '0.75rem' }}>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InlineFieldEditor;
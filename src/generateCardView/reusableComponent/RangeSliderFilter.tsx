@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { Slider } from '@mui/material';
+
+/**
+ *@property {string} label - Name of the filtered field, for the thumbs aria labels
+ *@property {number} min - Smallest selectable value
+ *@property {number} max - Largest selectable value
+ *@property {number} step - Step of the thumbs
+ *@property {[number, number]} value - Selected bounds, the whole range when not given
+ *@property {number[]} histogram - Item counts of bins of equal width between min and max (see getRangeHistogram)
+ *@property {(value: number) => string} formatValue - Formats the bounds (decimals, unit)
+ *@property {(value: [number, number] | null) => void} onChange - Called when a thumb is released, null when the whole range is selected
+ *@example
+ *<RangeSliderFilter
+ *  label="Price"
+ *  min={0}
+ *  max={250}
+ *  step={5}
+ *  histogram={[4, 9, 12, 3]}
+ *  formatValue={value => `$${value}`}
+ *  onChange={value => console.log(value)}
+ * />
+*/
+interface RangeSliderFilterProps {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  value?: [number, number];
+  histogram?: number[];
+  formatValue: (value: number) => string;
+  onChange: (value: [number, number] | null) => void;
+}
+
+/**
+ * Dual thumb slider of a range filter, with the distribution of the values above it
+ */
+const RangeSliderFilter: React.FC<RangeSliderFilterProps> = ({
+  label,
+  min,
+  max,
+  step,
+  value,
+  histogram,
+  formatValue,
+  onChange
+}) => {
+  // Bounds being dragged, the filter only changes when a thumb is released
+  const [range, setRange] = useState<[number, number]>(value || [min, max]);
+
+  useEffect(() => {
+    setRange(value || [min, max]);
+  }, [value, min, max]);
+
+  const highestBin = Math.max(1, ...(histogram || []));
+
+  return (
+    <div className="range-slider-filter">
+      {histogram && histogram.length > 1 && (
+        <div className="range-histogram" aria-hidden="true">
+          {histogram.map((count, index) => {
+            const binStart = min + (index * (max - min)) / histogram.length;
+            const binEnd = min + ((index + 1) * (max - min)) / histogram.length;
+            const isInRange = binEnd >= range[0] && binStart <= range[1];
+            return (
+              <div
+                key={index}
+                className={`range-histogram-bar ${isInRange ? 'in-range' : ''}`}
+                style={{ height: `${(count / highestBin) * 100}%` }}
+              />
+            );
+          })}
+        </div>
+      )}
+      <Slider
+        value={range}
+        min={min}
+        max={max}
+        step={step}
+        size="small"
+        disableSwap
+        valueLabelDisplay="auto"
+        valueLabelFormat={formatValue}
+        getAriaLabel={index => (index === 0 ? `Minimum ${label}` : `Maximum ${label}`)}
+        getAriaValueText={formatValue}
+        onChange={(_, next) => setRange(next as [number, number])}
+        onChangeCommitted={(_, next) => {
+          const [from, to] = next as [number, number];
+          onChange(from <= min && to >= max ? null : [from, to]);
+        }}
+      />
+      <div className="range-slider-values">
+        <span>{formatValue(range[0])}</span>
+        <span>{formatValue(range[1])}</span>
+      </div>
+    </div>
+  );
+};
+
+export default RangeSliderFilter;
@@ -1,27 +1,88 @@
-import React, { useState, useCallback, memo, useRef, useEffect } from 'react';
+import React, { useState, useCallback, memo, useRef, useEffect, useMemo, useId } from 'react';
 import { 
   Box, 
   IconButton, 
   InputAdornment, 
   TextField,
   Button,
+  Chip,
   Typography,
   useMediaQuery,
   useTheme,
-  ClickAwayListener
+  ClickAwayListener,
+  MenuItem,
+  Select,
+  Popper,
+  Paper,
+  MenuList,
+  ListItemIcon,
+  ListItemText
 } from '@mui/material';
 import { 
   Search as SearchIcon, 
-  Close as CloseIcon
+  Close as CloseIcon,
+  History as HistoryIcon,
+  FilterList as FieldIcon
 } from '@mui/icons-material';
 import { AnimatePresence, motion } from 'framer-motion';
+import { splitLastToken } from '../utils/SearchSuggestions';
+import type { SearchSuggestion, SearchSuggestionSource } from '../utils/SearchSuggestions';
+
+// Delay between a keystroke and the suggestion source call
+const SUGGESTION_DELAY = 150;
+// Previous searches listed above the suggestions while typing
+const RECENT_SEARCHES_WHILE_TYPING = 3;
+
+interface SearchField {
+  value: string;
+  label: string;
+}
 
 interface SearchBarProps {
-  onSearch: (query: string) => void;
+  /** Called with the query and the selected field (undefined when searching all fields) */
+  onSearch: (query: string, field?: string) => void;
   className?: string;
   fullWidth?: boolean;
   autoFocus?: boolean;
   placeholder?: string;
+  /** Applied query, used to sync the input when the search changes from outside */
+  value?: string;
+  /** Fields offered in the field dropdown, the dropdown is hidden when not provided */
+  fields?: SearchField[];
+  /** Whether the fuzzy (typo tolerant) search is on */
+  fuzzy?: boolean;
+  /** Called when the fuzzy toggle is clicked, the toggle is hidden when not provided */
+  onFuzzyChange?: (fuzzy: boolean) => void;
+  /** Checks the typed query, the returned messages are shown under the input (e.g. structured query errors) */
+  validateQuery?: (query: string) => string[];
+  /** Provides the suggestions shown while typing (see createLocalSuggestionSource), may be async */
+  getSuggestions?: SearchSuggestionSource;
+  /** Previous searches, listed when the input is empty and while they match the query */
+  recentSearches?: string[];
+  /** Clears the previous searches, the clear history action is hidden when not provided */
+  onClearRecentSearches?: () => void;
+  /** Maximum number of suggestions (default 8) */
+  maxSuggestions?: number;
+}
+
+interface SearchSuggestionListProps {
+  id: string;
+  suggestions: SearchSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: SearchSuggestion) => void;
+  onHighlight: (index: number) => void;
+  onClearHistory?: () => void;
+}
+
+interface FuzzyToggleProps {
+  active: boolean;
+  onChange: (fuzzy: boolean) => void;
+}
+
+interface SearchFieldSelectProps {
+  fields: SearchField[];
+  value: string;
+  onChange: (field: string) => void;
 }
 
 interface MobileSearchSheetProps {
@@ -34,6 +95,11 @@ interface MobileSearchSheetProps {
   handleClear: () => void;
   autoFocus: boolean;
   placeholder: string;
+  fieldSelect: React.ReactNode;
+  fuzzyToggle: React.ReactNode;
+  errorText: string;
+  suggestionList: React.ReactNode;
+  comboboxProps: React.InputHTMLAttributes<HTMLInputElement>;
 }
 
 interface DesktopSearchProps {
@@ -46,11 +112,92 @@ interface DesktopSearchProps {
   handleClear: () => void;
   autoFocus: boolean;
   placeholder: string;
+  fieldSelect: React.ReactNode;
+  fuzzyToggle: React.ReactNode;
+  errorText: string;
+  suggestionList: React.ReactNode;
+  comboboxProps: React.InputHTMLAttributes<HTMLInputElement>;
   className: string;
   fullWidth: boolean;
   desktopSearchRef: React.RefObject<HTMLDivElement>;
 }
 
+// Dropdown scoping the search to a single field, empty value searches every field
+const SearchFieldSelect = memo<SearchFieldSelectProps>(({ fields, value, onChange }) => (
+  <Select
+    variant="standard"
+    disableUnderline
+    displayEmpty
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    inputProps={{ 'aria-label': 'search field' }}
+    // Keeps the menu inside the search box, so picking a field is not a click outside
+    MenuProps={{ disablePortal: true }}
+    sx={{ fontSize: '0.875rem', mr: 1, minWidth: 80 }}
+  >
+    <MenuItem value="">All fields</MenuItem>
+    {fields.map(field => (
+      <MenuItem key={field.value} value={field.value}>{field.label}</MenuItem>
+    ))}
+  </Select>
+));
+
+// Toggle of the fuzzy search, shown at the end of the input
+const FuzzyToggle = memo<FuzzyToggleProps>(({ active, onChange }) => (
+  <Chip
+    label="Fuzzy"
+    size="small"
+    clickable
+    color={active ? 'primary' : 'default'}
+    variant={active ? 'filled' : 'outlined'}
+    onClick={() => onChange(!active)}
+    aria-pressed={active}
+    aria-label="typo tolerant search"
+    sx={{ mr: 0.5, fontSize: '0.75rem' }}
+  />
+));
+
+// Suggestions under the input, mouse down does not take the focus from the input
+const SearchSuggestionList = memo<SearchSuggestionListProps>(({
+  id,
+  suggestions,
+  activeIndex,
+  onSelect,
+  onHighlight,
+  onClearHistory
+}) => (
+  <Paper elevation={8} sx={{ minWidth: 240, borderRadius: '12px', overflow: 'hidden' }}>
+    <MenuList id={id} role="listbox" dense disablePadding sx={{ maxHeight: 320, overflowY: 'auto' }}>
+      {suggestions.map((suggestion, index) => (
+        <MenuItem
+          key={`${suggestion.type}-${suggestion.query}`}
+          id={`${id}-${index}`}
+          role="option"
+          aria-selected={index === activeIndex}
+          selected={index === activeIndex}
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onHighlight(index)}
+          onClick={() => onSelect(suggestion)}
+        >
+          <ListItemIcon>
+            {suggestion.type === 'recent' && <HistoryIcon fontSize="small" />}
+            {suggestion.type === 'value' && <SearchIcon fontSize="small" />}
+            {suggestion.type === 'field' && <FieldIcon fontSize="small" />}
+          </ListItemIcon>
+          <ListItemText primary={suggestion.label} secondary={suggestion.description} />
+        </MenuItem>
+      ))}
+    </MenuList>
+    {onClearHistory && suggestions.some(suggestion => suggestion.type === 'recent') && (
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', borderTop: 1, borderColor: 'divider' }}>
+        <Button size="small" onMouseDown={(e) => e.preventDefault()} onClick={onClearHistory}>
+          Clear history
+        </Button>
+      </Box>
+    )}
+  </Paper>
+));
+
 // Memoized mobile search sheet to prevent unnecessary re-renders
 const MobileSearchSheet = memo<MobileSearchSheetProps>(({ 
   open, 
@@ -61,7 +208,12 @@ const MobileSearchSheet = memo<MobileSearchSheetProps>(({
   handleKeyDown, 
   handleClear, 
   autoFocus, 
-  placeholder 
+  placeholder,
+  fieldSelect,
+  fuzzyToggle,
+  errorText,
+  suggestionList,
+  comboboxProps
 }) => {
   const theme = useTheme();
   
@@ -145,21 +297,28 @@ const MobileSearchSheet = memo<MobileSearchSheetProps>(({
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 onKeyDown={handleKeyDown}
+                error={!!errorText}
+                helperText={errorText || undefined}
+                inputProps={comboboxProps}
                 InputProps={{
                   startAdornment: (
                     <InputAdornment position="start">
                       <SearchIcon color="action" />
+                      {fieldSelect}
                     </InputAdornment>
                   ),
-                  endAdornment: searchQuery && (
+                  endAdornment: (searchQuery || fuzzyToggle) && (
                     <InputAdornment position="end">
-                      <IconButton
-                        size="small"
-                        onClick={handleClear}
-                        aria-label="clear search"
-                      >
-                        <CloseIcon fontSize="small" />
-                      </IconButton>
+                      {fuzzyToggle}
+                      {searchQuery && (
+                        <IconButton
+                          size="small"
+                          onClick={handleClear}
+                          aria-label="clear search"
+                        >
+                          <CloseIcon fontSize="small" />
+                        </IconButton>
+                      )}
                     </InputAdornment>
                   ),
                   sx: {
@@ -169,6 +328,8 @@ const MobileSearchSheet = memo<MobileSearchSheetProps>(({
                 }}
               />
 
+              {suggestionList && <Box sx={{ mt: 1 }}>{suggestionList}</Box>}
+
               <Button
                 fullWidth
                 variant="contained"
@@ -202,6 +363,11 @@ const DesktopSearch = memo<DesktopSearchProps>(({
   handleClear, 
   autoFocus, 
   placeholder, 
+  fieldSelect,
+  fuzzyToggle,
+  errorText,
+  suggestionList,
+  comboboxProps,
   className, 
   fullWidth, 
   desktopSearchRef 
@@ -223,7 +389,7 @@ const DesktopSearch = memo<DesktopSearchProps>(({
             key="desktop-search-input"
             initial={{ width: 0, opacity: 0 }}
             animate={{ 
-              width: fullWidth ? '100%' : 240,
+              width: fullWidth ? '100%' : (fieldSelect ? 360 : 240) + (fuzzyToggle ? 64 : 0),
               opacity: 1,
               transition: { 
                 type: 'spring',
@@ -252,6 +418,9 @@ const DesktopSearch = memo<DesktopSearchProps>(({
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               onKeyDown={handleKeyDown}
+              error={!!errorText}
+              helperText={errorText || undefined}
+              inputProps={comboboxProps}
               autoFocus={autoFocus && open}
               sx={{
                 width: '100%',
@@ -264,17 +433,21 @@ const DesktopSearch = memo<DesktopSearchProps>(({
                 startAdornment: (
                   <InputAdornment position="start">
                     <SearchIcon color="action" />
+                    {fieldSelect}
                   </InputAdornment>
                 ),
-                endAdornment: searchQuery && (
+                endAdornment: (searchQuery || fuzzyToggle) && (
                   <InputAdornment position="end">
-                    <IconButton
-                      size="small"
-                      onClick={handleClear}
-                      aria-label="clear search"
-                    >
-                      <CloseIcon fontSize="small" />
-                    </IconButton>
+                    {fuzzyToggle}
+                    {searchQuery && (
+                      <IconButton
+                        size="small"
+                        onClick={handleClear}
+                        aria-label="clear search"
+                      >
+                        <CloseIcon fontSize="small" />
+                      </IconButton>
+                    )}
                   </InputAdornment>
                 ),
               }}
@@ -283,6 +456,17 @@ const DesktopSearch = memo<DesktopSearchProps>(({
         )}
       </AnimatePresence>
 
+      {/* Suggestions, outside of the animated input which hides its overflow */}
+      <Popper
+        open={open && !!suggestionList}
+        anchorEl={desktopSearchRef.current}
+        placement="bottom-start"
+        disablePortal
+        style={{ zIndex: 1300 }}
+      >
+        <Box sx={{ mt: 0.5 }}>{suggestionList}</Box>
+      </Popper>
+
       {/* Search icon - only visible when search is closed or not fullWidth */}
       <AnimatePresence>
         {(!open || !fullWidth) && (
@@ -327,6 +511,9 @@ const DesktopSearch = memo<DesktopSearchProps>(({
 });
 
 // Add display names for better debugging
+SearchFieldSelect.displayName = 'SearchFieldSelect';
+SearchSuggestionList.displayName = 'SearchSuggestionList';
+FuzzyToggle.displayName = 'FuzzyToggle';
 MobileSearchSheet.displayName = 'MobileSearchSheet';
 DesktopSearch.displayName = 'DesktopSearch';
 
@@ -339,6 +526,11 @@ DesktopSearch.displayName = 'DesktopSearch';
  * - Search icon visibility toggles based on search state in desktop view
  * - Optimized animations for performance
  * - Clean keyboard handling (Enter to search, Escape to close)
+ * - Optional field dropdown (`fields`) to search a single field
+ * - Optional fuzzy toggle (`onFuzzyChange`) for typo tolerant search
+ * - Optional query check (`validateQuery`), its messages are shown under the input while typing
+ * - Optional suggestions (`getSuggestions`) and previous searches (`recentSearches`) while typing,
+ *   Arrow Up/Down highlight a suggestion, Enter picks it and Escape closes the list
  * 
  * Behavior:
  * - On desktop:
@@ -353,30 +545,149 @@ export const SearchBarComponent: React.FC<SearchBarProps> = ({
   className = '',
   fullWidth = false,
   autoFocus = true,
-  placeholder = 'Search...'
+  placeholder = 'Search...',
+  value,
+  fields,
+  fuzzy = false,
+  onFuzzyChange,
+  validateQuery,
+  getSuggestions,
+  recentSearches,
+  onClearRecentSearches,
+  maxSuggestions = 8
 }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const [open, setOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchField, setSearchField] = useState('');
   const desktopSearchRef = useRef<HTMLDivElement>(null);
+  const [suggestionsVisible, setSuggestionsVisible] = useState(false);
+  const [sourceSuggestions, setSourceSuggestions] = useState<SearchSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const suggestionListId = useId();
+
+  // Sync the input with a query applied from outside (e.g. instance.clearSearch())
+  useEffect(() => {
+    if (value !== undefined) setSearchQuery(value);
+  }, [value]);
 
   // Search handler
   const handleSearch = useCallback(() => {
     // if (searchQuery.trim()) {
-      onSearch(searchQuery);
+      onSearch(searchQuery, searchField || undefined);
+      setSuggestionsVisible(false);
       if (isMobile) setOpen(false);
     // }
-  }, [searchQuery, onSearch, isMobile]);
+  }, [searchQuery, searchField, onSearch, isMobile]);
+
+  const handleQueryChange = useCallback((query: string) => {
+    setSearchQuery(query);
+    setActiveIndex(-1);
+    setSuggestionsVisible(true);
+  }, []);
+
+  // Asks the source for suggestions once the typing pauses, answers of older queries are ignored
+  useEffect(() => {
+    if (!getSuggestions || !suggestionsVisible) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const { prefix, token } = splitLastToken(searchQuery);
+      Promise.resolve(getSuggestions(searchQuery, { token, prefix, field: searchField || undefined, limit: maxSuggestions }))
+        .then(result => {
+          if (!cancelled) setSourceSuggestions(result);
+        })
+        .catch(() => {
+          if (!cancelled) setSourceSuggestions([]);
+        });
+    }, SUGGESTION_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [getSuggestions, suggestionsVisible, searchQuery, searchField, maxSuggestions]);
+
+  // Matching previous searches first, then the source suggestions
+  const suggestions = useMemo<SearchSuggestion[]>(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const recent: SearchSuggestion[] = (recentSearches || [])
+      .filter(search => search.toLowerCase().includes(query) && search !== searchQuery.trim())
+      .slice(0, query ? RECENT_SEARCHES_WHILE_TYPING : maxSuggestions)
+      .map(search => ({ type: 'recent', label: search, query: search }));
+    const suggested = query
+      ? sourceSuggestions.filter(suggestion => !recent.some(item => item.query === suggestion.query))
+      : [];
+    return [...recent, ...suggested].slice(0, maxSuggestions);
+  }, [searchQuery, recentSearches, sourceSuggestions, maxSuggestions]);
+
+  const isSuggestionListOpen = suggestionsVisible && suggestions.length > 0;
+
+  // Field completions keep the input open for the value, other suggestions are searched
+  const handleSelectSuggestion = useCallback((suggestion: SearchSuggestion) => {
+    setSearchQuery(suggestion.query);
+    setActiveIndex(-1);
+    if (suggestion.type === 'field') return;
+    setSuggestionsVisible(false);
+    onSearch(suggestion.query, searchField || undefined);
+    if (isMobile) setOpen(false);
+  }, [onSearch, searchField, isMobile]);
+
+  const suggestionList = useMemo(() => isSuggestionListOpen ? (
+    <SearchSuggestionList
+      id={suggestionListId}
+      suggestions={suggestions}
+      activeIndex={activeIndex}
+      onSelect={handleSelectSuggestion}
+      onHighlight={setActiveIndex}
+      onClearHistory={onClearRecentSearches}
+    />
+  ) : null, [isSuggestionListOpen, suggestionListId, suggestions, activeIndex, handleSelectSuggestion, onClearRecentSearches]);
+
+  const hasSuggestions = !!getSuggestions || !!recentSearches;
+  const comboboxProps = useMemo<React.InputHTMLAttributes<HTMLInputElement>>(() => (hasSuggestions ? {
+    role: 'combobox',
+    'aria-autocomplete': 'list',
+    'aria-expanded': isSuggestionListOpen,
+    'aria-controls': isSuggestionListOpen ? suggestionListId : undefined,
+    'aria-activedescendant': isSuggestionListOpen && activeIndex >= 0 ? `${suggestionListId}-${activeIndex}` : undefined,
+    onFocus: () => setSuggestionsVisible(true),
+    onBlur: () => setSuggestionsVisible(false),
+  } : {}), [hasSuggestions, isSuggestionListOpen, suggestionListId, activeIndex]);
+
+  // Changing the field re-runs an applied query on the new field
+  const handleFieldChange = useCallback((field: string) => {
+    setSearchField(field);
+    if (searchQuery) onSearch(searchQuery, field || undefined);
+  }, [searchQuery, onSearch]);
+
+  const fieldSelect = useMemo(() => fields?.length ? (
+    <SearchFieldSelect fields={fields} value={searchField} onChange={handleFieldChange} />
+  ) : null, [fields, searchField, handleFieldChange]);
+
+  const errorText = useMemo(() => (validateQuery ? validateQuery(searchQuery).join('; ') : ''), [validateQuery, searchQuery]);
+
+  const fuzzyToggle = useMemo(() => onFuzzyChange ? (
+    <FuzzyToggle active={fuzzy} onChange={onFuzzyChange} />
+  ) : null, [fuzzy, onFuzzyChange]);
 
   // Keyboard handler
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleSearch();
+    if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && suggestions.length) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSuggestionsVisible(true);
+      setActiveIndex(index => (index < 0
+        ? (step > 0 ? 0 : suggestions.length - 1)
+        : (index + step + suggestions.length) % suggestions.length
+      ));
+    } else if (e.key === 'Enter') {
+      if (isSuggestionListOpen && suggestions[activeIndex]) handleSelectSuggestion(suggestions[activeIndex]);
+      else handleSearch();
     } else if (e.key === 'Escape') {
-      setOpen(false);
+      if (isSuggestionListOpen) setSuggestionsVisible(false);
+      else setOpen(false);
     }
-  }, [handleSearch]);
+  }, [handleSearch, handleSelectSuggestion, suggestions, activeIndex, isSuggestionListOpen]);
 
   // Clear handler
   const handleClear = useCallback(() => {
@@ -440,24 +751,34 @@ export const SearchBarComponent: React.FC<SearchBarProps> = ({
           open={open}
           setOpen={setOpen}
           searchQuery={searchQuery}
-          setSearchQuery={setSearchQuery}
+          setSearchQuery={handleQueryChange}
           handleSearch={handleSearch}
           handleKeyDown={handleKeyDown}
           handleClear={handleClear}
           autoFocus={autoFocus}
           placeholder={placeholder}
+          fieldSelect={fieldSelect}
+          fuzzyToggle={fuzzyToggle}
+          errorText={errorText}
+          suggestionList={suggestionList}
+          comboboxProps={comboboxProps}
         />
       ) : (
         <DesktopSearch 
           open={open}
           setOpen={setOpen}
           searchQuery={searchQuery}
-          setSearchQuery={setSearchQuery}
+          setSearchQuery={handleQueryChange}
           handleSearch={handleSearch}
           handleKeyDown={handleKeyDown}
           handleClear={handleClear}
           autoFocus={autoFocus}
           placeholder={placeholder}
+          fieldSelect={fieldSelect}
+          fuzzyToggle={fuzzyToggle}
+          errorText={errorText}
+          suggestionList={suggestionList}
+          comboboxProps={comboboxProps}
           className={className}
           fullWidth={fullWidth}
           desktopSearchRef={desktopSearchRef}
@@ -3,9 +3,9 @@ import React, {
     useState,
     useEffect,
     useMemo,
-    CSSProperties,
     useCallback,
 } from "react";
+import type { CSSProperties } from "react";
 
 /**
  * SmartVirtualScroll Component
@@ -186,6 +186,9 @@ interface SmartVirtualScrollProps<T> {
     
     /** Debounce time for scroll events in milliseconds. */
     scrollDebounce?: number;
+
+    /** Render placeholders instead of the items while scrolling fast (lazy rendering). */
+    placeholderWhileScrolling?: boolean;
 }
 
 // Performance monitoring interface
@@ -231,10 +234,12 @@ export function SmartVirtualScroll<T>({
     containerStyle,
     loadMoreThreshold = 0.2,
     scrollDebounce = 100,
+    placeholderWhileScrolling = false,
 }: SmartVirtualScrollProps<T>) {
     const containerRef = useRef<HTMLDivElement | null>(null);
-    const scrollTimeoutRef = useRef<any>();
-    const frameRef = useRef<number>();
+    const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+    const frameRef = useRef<number | undefined>(undefined);
+    const isLoadingMore = useRef(false);
     const [scrollTop, setScrollTop] = useState(0);
     const [scrollLeft, setScrollLeft] = useState(0);
     const [containerHeight, setContainerHeight] = useState<number>(propHeight || 0);
@@ -480,20 +485,25 @@ export function SmartVirtualScroll<T>({
         if (hasChanges) {
             setMeasuredRowHeights((prev) => ({ ...prev, ...newHeights }));
         }
-    }, [data, hasVariableHeights, measuredRowHeights]);
+    }, [data, hasVariableHeights, measuredRowHeights, startIndex, endIndex]);
 
     // Server-side loading with threshold
     useEffect(() => {
         if (
             serverSide &&
             onLoadMore &&
+            !isLoadingMore.current &&
             endIndex >= data.length - Math.floor(totalItems * loadMoreThreshold) &&
             data.length < totalItems
         ) {
+            // Only one request at a time, the next one starts once the data has grown
+            isLoadingMore.current = true;
             onLoadMore(
                 data.length, 
                 Math.min(data.length + overscan * 3, totalItems)
-            );
+            ).finally(() => {
+                isLoadingMore.current = false;
+            });
         }
     }, [endIndex, serverSide, data.length, totalItems, onLoadMore, overscan, loadMoreThreshold]);
 
@@ -536,15 +546,19 @@ export function SmartVirtualScroll<T>({
 
     // Sticky group headers
     const groupedItems = useMemo(() => {
-        if (!groupBy) return { "": data.slice(startIndex, endIndex + 1) };
+        // In server-side mode the range can go past the loaded data (rendered as skeletons)
+        const visibleItems = totalItems === 0
+            ? []
+            : Array.from({ length: endIndex - startIndex + 1 }, (_, i) => data[startIndex + i]);
+        if (!groupBy) return { "": visibleItems };
         
-        return data.slice(startIndex, endIndex + 1).reduce<Record<string, T[]>>((acc, item, idx) => {
+        return visibleItems.reduce<Record<string, T[]>>((acc, item) => {
             const key = String(item[groupBy]);
             if (!acc[key]) acc[key] = [];
             acc[key].push(item);
             return acc;
         }, {});
-    }, [data, startIndex, endIndex, groupBy]);
+    }, [data, startIndex, endIndex, groupBy, totalItems]);
 
     // Calculate spacer heights
     const topSpacerHeight = useMemo(() => {
@@ -566,30 +580,18 @@ export function SmartVirtualScroll<T>({
         return Math.max(0, totalH - bottomPosition);
     }, [endIndex, totalItems, hasVariableHeights, rowPositions, getRowHeightAtIndex]);
 
-    // Memoized row component for performance
-    const MemoizedRow = React.memo(
-        ({
-            item,
-            index,
-            style,
-            isMeasured = false,
-        }: {
-            item: T;
-            index: number;
-            style: CSSProperties;
-            isMeasured?: boolean;
-        }) => {
-            return (
-                <div
-                    data-virtual-row
-                    data-index={index}
-                    {...(isMeasured && { "data-measured-row": true })}
-                    style={style}
-                >
-                    {renderItem(item, style, index)}
-                </div>
-            );
-        }
+    // Row wrapper (a plain function: a component declared here would remount on every render)
+    const renderRow = (item: T, index: number, style: CSSProperties, isMeasured = false) => (
+        <div
+            key={index}
+            data-virtual-row
+            data-index={index}
+            {...(isMeasured && { "data-measured-row": true })}
+            style={style}
+        >
+            {/* The wrapper is already positioned, the item only fills it */}
+            {renderItem(item, { width: "100%", height: isMeasured ? "auto" : "100%" }, index)}
+        </div>
     );
 
     // Default placeholder component
@@ -653,11 +655,13 @@ export function SmartVirtualScroll<T>({
                             const rowTop = getRowPosition(index);
                             const rowHeight = getRowHeightAtIndex(index);
                             
+                            const isMeasured = hasVariableHeights && measuredRowHeights[index] === undefined;
                             const style: CSSProperties = {
                                 position: "absolute",
                                 top: rowTop,
                                 left: 0,
-                                height: rowHeight,
+                                // Rows waiting to be measured take the height of their content
+                                height: isMeasured ? "auto" : rowHeight,
                                 width: "100%",
                                 display: layout === "grid" ? "inline-block" : "flex",
                             };
@@ -670,18 +674,15 @@ export function SmartVirtualScroll<T>({
 
                             // Skeleton loader for server mode
                             if (serverSide && !item && showSkeleton) {
-                                return <Placeholder key={`skeleton-${index}`} index={index} style={style} />;
+                                return <Placeholder key={`skeleton-${index}`} index={index} style={{ ...style, height: rowHeight }} />;
+                            }
+
+                            // Lazy rendering: items entering the viewport during a fast scroll show a placeholder
+                            if (placeholderWhileScrolling && isScrolling && scrollVelocity > 1.5) {
+                                return <Placeholder key={`placeholder-${index}`} index={index} style={{ ...style, height: rowHeight }} />;
                             }
 
-                            return (
-                                <MemoizedRow 
-                                    key={index} 
-                                    item={item} 
-                                    index={index} 
-                                    style={style} 
-                                    isMeasured={hasVariableHeights && measuredRowHeights[index] === undefined}
-                                />
-                            );
+                            return renderRow(item, index, style, isMeasured);
                         })}
                     </div>
                 ))}
@@ -0,0 +1,158 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { CardLayoutOptions, DataItem } from '../InterfacesForCardView';
+import { SmartVirtualScroll } from './SmartVirtualScroll';
+import { getCardViewOptions } from "../cardViewComponents/CardViewContext";
+
+interface VirtualCardGridProps {
+  /** Items to render (already processed) */
+  items: DataItem[];
+  /** Renders a single card */
+  renderCard: (item: DataItem, index: number) => React.ReactNode;
+}
+
+/**
+ * Imperative handle of the virtual grid, registered in the card view context
+ */
+export interface VirtualCardGridHandle {
+  /** Scrolls to the row holding the item at `index` (in `items`), even if it is not mounted */
+  scrollToIndex: (index: number) => void;
+}
+
+const DEFAULT_VIRTUAL_SCROLL_OPTIONS = {
+  height: 600,
+  estimatedRowHeight: 320,
+  overscan: 3,
+};
+
+/**
+ * Converts a css size ('300px', 300) into pixels, other units are ignored
+ */
+const toPixels = (value?: string | number): number | undefined => {
+  if (typeof value === 'number') return value;
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)px$/);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Resolves the grid settings for the current screen width.
+ * Breakpoints behave like `max-width` media queries, the closest one wins.
+ */
+const resolveGridSettings = (layout: CardLayoutOptions, screenWidth: number) => {
+  const { columns = 4, gap = '24px', gridOptions = {}, breakpoints } = layout;
+  const breakpoint = Object.keys(breakpoints || {})
+    .map(Number)
+    .sort((a, b) => a - b)
+    .find(width => screenWidth <= width);
+  const breakpointConfig = breakpoint !== undefined ? breakpoints?.[breakpoint] : undefined;
+
+  return {
+    columns: breakpointConfig?.columns || columns,
+    gap: breakpointConfig?.gap ?? gap,
+    minItemWidth: breakpointConfig?.gridOptions?.minItemWidth || gridOptions.minItemWidth,
+  };
+};
+
+/**
+ * Virtualized grid used when `virtualScroll` is enabled.
+ * Items are grouped into rows of `columns` cards and only the rows in (or close to)
+ * the viewport are rendered through SmartVirtualScroll, row heights are measured.
+ * The column count comes from the layout's columns/breakpoints, capped so that
+ * cards never get narrower than `gridOptions.minItemWidth`.
+ * The grid registers a {@link VirtualCardGridHandle} in the context, used by `scrollToItem`.
+ */
+const VirtualCardGrid: React.FC<VirtualCardGridProps> = ({ items, renderCard }) => {
+  const { options, registerVirtualGrid } = getCardViewOptions();
+  const layout: CardLayoutOptions = options?.layout || {} as CardLayoutOptions;
+  const { padding = '16px', className = '', style = {} } = layout;
+  const { height, estimatedRowHeight, overscan } = {
+    ...DEFAULT_VIRTUAL_SCROLL_OPTIONS,
+    ...options?.virtualScrollOptions,
+  };
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [screenWidth, setScreenWidth] = useState(() => window.innerWidth);
+  // Row SmartVirtualScroll scrolls to, cleared once done so the same row can be requested again
+  const [scrollToRow, setScrollToRow] = useState<number>();
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerWidth(entry.contentRect.width);
+      setScreenWidth(window.innerWidth);
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  const { columns, gap, minItemWidth } = resolveGridSettings(layout, screenWidth);
+  const gapInPixels = toPixels(gap) ?? 0;
+  const minWidthInPixels = toPixels(minItemWidth);
+  const columnCount = minWidthInPixels && containerWidth
+    ? Math.max(1, Math.min(columns, Math.floor((containerWidth + gapInPixels) / (minWidthInPixels + gapInPixels))))
+    : Math.max(1, columns);
+
+  // One virtual row per `columnCount` items
+  const rows = useMemo(() => {
+    const result: DataItem[][] = [];
+    for (let i = 0; i < items.length; i += columnCount) {
+      result.push(items.slice(i, i + columnCount));
+    }
+    return result;
+  }, [items, columnCount]);
+
+  // Child effects run first: SmartVirtualScroll has already scrolled to the row
+  useEffect(() => {
+    if (scrollToRow !== undefined) setScrollToRow(undefined);
+  }, [scrollToRow]);
+
+  useEffect(() => {
+    registerVirtualGrid({
+      scrollToIndex: (index) => setScrollToRow(Math.floor(index / columnCount)),
+    });
+    return () => registerVirtualGrid(undefined);
+  }, [columnCount, registerVirtualGrid]);
+
+  // Stable, SmartVirtualScroll recomputes the row positions whenever it changes
+  const getRowHeight = useCallback(() => estimatedRowHeight, [estimatedRowHeight]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      style={{ padding: typeof padding === 'number' ? `${padding}px` : padding, ...style }}
+    >
+      <SmartVirtualScroll<DataItem[]>
+        // Measured row heights are only valid for a given column count
+        key={columnCount}
+        data={rows}
+        height={height}
+        estimatedRowHeight={estimatedRowHeight}
+        getRowHeight={getRowHeight}
+        overscan={overscan}
+        scrollToIndex={scrollToRow}
+        scrollToAlignment="center"
+        layout="card"
+        placeholderWhileScrolling={!!options?.lazyLoad}
+        renderItem={(row, _style, rowIndex) => (
+          <div
+            style={{
+              display: 'grid',
+              gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))`,
+              gap: typeof gap === 'number' ? `${gap}px` : gap,
+              paddingBottom: typeof gap === 'number' ? `${gap}px` : gap,
+              width: '100%',
+            }}
+          >
+            {row.map((item, i) => (
+              <React.Fragment key={item.id}>
+                {renderCard(item, rowIndex * columnCount + i)}
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      />
+    </div>
+  );
+};
+
+export default VirtualCardGrid;
@@ -0,0 +1,998 @@
+import { FilterManager, DataSorter, DataSearcher, DEFAULT_FUZZY_THRESHOLD, RELEVANCE_SORT_KEY } from './FunctionalityHelperFunctionsForCardView';
+import { CardViewWorkerPipeline } from './CardViewWorkerPipeline';
+import { SearchIndex } from './SearchIndex';
+import type { Filter, FilterHandler, FilterValues, SortConfig, SortFieldOptions, SearchConfig, SearchFieldOptions } from './FunctionalityHelperFunctionsForCardView';
+import type { CardViewDataSource, DataItem, DataOperations, DataSourceQuery, SearchIndexOptions, WorkerProcessingOptions } from '../InterfacesForCardView';
+
+/**
+ * Events emitted by the engine.
+ * `change` is emitted after every update, together with the specific events.
+ */
+export type CardViewEngineEvent =
+  | 'change'          // Any state change
+  | 'dataChange'      // Data replaced, item added/updated/removed
+  | 'queryChange'     // Filters, sort or search changed
+  | 'pageChange'      // Current page, page size or pagination toggled
+  | 'selectionChange' // Selected items changed
+  | 'loadingChange'   // Card loaders, view loader, data source request or worker processing changed
+  | 'sectionChange';  // Section collapsed/expanded
+
+export type CardViewEngineListener<T extends DataItem = DataItem> = (state: CardViewEngineState<T>) => void;
+
+/**
+ * Initial configuration of a CardViewEngine
+ * @example
+ * {
+ *   data: employees,
+ *   filterConfig: [{ id: 'department', type: 'dropdown' }],
+ *   defaultSearch: { fields: ['name', 'email'], query: '' },
+ *   pagination: { enabled: true, pageSize: 20 },
+ *   multiSelect: true
+ * }
+ */
+export interface CardViewEngineOptions<T extends DataItem = DataItem> {
+  /** Initial data */
+  data?: T[];
+  /** FilterManager configuration for the available filters */
+  filterConfig?: Filter[];
+  /** Handlers of the custom filter types of the view, keyed by type (CardViewOptions.filterTypes) */
+  filterHandlers?: Record<string, FilterHandler>;
+  /** Default sort criteria (restored by resetAll) */
+  defaultSort?: SortConfig;
+  /** How the values of each field are compared by the sort, keyed by field (DataItemDescription sortConfiguration) */
+  sortFields?: Record<string, SortFieldOptions>;
+  /** Default search configuration (restored by resetAll) */
+  defaultSearch?: Omit<SearchConfig, 'caseSensitive' | 'exactMatch' | 'fuzzy'>;
+  /** Default case sensitivity of the search */
+  defaultCaseSensitive?: boolean;
+  /** Default exact match setting of the search */
+  defaultExactMatch?: boolean;
+  /** Default fuzzy (typo tolerant) setting of the search */
+  defaultFuzzy?: boolean;
+  /** Base filter, custom search matcher and default comparator (CardViewOptions.dataOperations) */
+  dataOperations?: DataOperations;
+  /** Server-side data source, replaces the local pipeline (CardViewOptions.dataSource) */
+  dataSource?: CardViewDataSource<T>;
+  /** Runs the pipeline in a Web Worker for large data (CardViewOptions.workerProcessing) */
+  workerProcessing?: WorkerProcessingOptions;
+  /** Searches an inverted index of the search fields instead of scanning the items (CardViewOptions.searchIndex) */
+  searchIndex?: SearchIndexOptions;
+  /** Pagination settings, see CardViewEnginePagination for the modes */
+  pagination?: { enabled?: boolean; pageSize?: number; current?: number; mode?: CardViewEnginePaginationMode };
+  /** Whether several items can be selected at once */
+  multiSelect?: boolean;
+  /** Ids of the sections collapsed initially (segregated data mode) */
+  collapsedSections?: string[];
+}
+
+/**
+ * - pages: a single page is shown at a time
+ * - infinite: the pages up to `current` are shown, `loadMore` appends the next one
+ */
+export type CardViewEnginePaginationMode = 'pages' | 'infinite';
+
+/**
+ * Pagination part of the engine state
+ */
+export interface CardViewEnginePagination {
+  enabled: boolean;
+  mode: CardViewEnginePaginationMode;
+  current: number;
+  pageSize: number;
+  totalPages: number;
+  /** Number of items after processing */
+  total: number;
+  /** Whether a next page (or chunk) exists */
+  hasMore: boolean;
+}
+
+/**
+ * Immutable snapshot of the engine state.
+ * A new object is created on every change, so it can be compared by reference.
+ */
+export interface CardViewEngineState<T extends DataItem = DataItem> {
+  // Inputs
+  data: T[];
+  filters: FilterValues;
+  filterConfig: Filter[];
+  sortConfig: SortConfig;
+  sortFields: Record<string, SortFieldOptions>;
+  searchConfig: SearchConfig;
+  customFilter: ((item: T) => boolean) | null;
+  customSort: ((a: T, b: T) => number) | null;
+  dataOperations: DataOperations;
+  dataSource: CardViewDataSource<T> | null;
+
+  // Data source
+  /** Total returned by the data source (number of items matching the query) */
+  sourceTotal: number;
+  /** Whether a data source request is pending */
+  isFetching: boolean;
+  /** Error of the last data source request */
+  error: Error | null;
+  /** Cursor of the next chunk, undefined when the data source does not return cursors */
+  nextCursor: string | null | undefined;
+
+  // View state
+  pagination: CardViewEnginePagination;
+  multiSelect: boolean;
+  selectedIds: string[];
+  loadingIds: string[];
+  isLoading: boolean;
+  collapsedSections: string[];
+
+  // Derived
+  /** Data after filtering, searching and sorting (all pages) */
+  processedData: T[];
+  /** Items of the current page (processedData when pagination is disabled) */
+  pageData: T[];
+  /** Whether the worker is processing a query (processedData still holds the previous result) */
+  isProcessing: boolean;
+}
+
+// State keys that require the processing pipeline to run again
+const PIPELINE_KEYS: (keyof CardViewEngineState)[] = [
+  'data', 'filters', 'filterConfig', 'sortConfig', 'sortFields', 'searchConfig', 'customFilter', 'customSort', 'dataOperations', 'dataSource'
+];
+
+// Minimum number of items processed in the worker (CardViewOptions.workerProcessing.minItems)
+const DEFAULT_WORKER_MIN_ITEMS = 10000;
+
+// Events after which a data source loads the current query again
+const FETCH_EVENTS: CardViewEngineEvent[] = ['queryChange', 'pageChange'];
+
+/**
+ * Headless card view engine
+ *
+ * Holds the data, filters, sort, search, pagination, selection and loaders of a
+ * card view, runs the processing pipeline (FilterManager → DataSearcher →
+ * DataSorter) and emits change events. With a `dataSource`, the pipeline runs on
+ * the server: every query or page change fetches the items of the current page.
+ * With `workerProcessing`, large data is processed in a Web Worker instead.
+ * With `searchIndex`, the search looks up an inverted index kept in sync with the
+ * data (see SearchIndex) and ranks the matches by relevance.
+ * It has no dependency on React: the
+ * React components subscribe to it through `useSyncExternalStore`
+ * (see useCardViewEngine), other widgets can use `on`/`subscribe` directly.
+ *
+ * @example
+ * const engine = new CardViewEngine({ data: employees, pagination: { enabled: true, pageSize: 10 } });
+ * engine.on('selectionChange', state => console.log(state.selectedIds));
+ * engine.search('john');
+ * engine.updateSort('name', 'asc');
+ * engine.nextPage();
+ * engine.getSnapshot().pageData; // items of page 2
+ */
+export class CardViewEngine<T extends DataItem = DataItem> {
+  private state: CardViewEngineState<T>;
+  private listeners = new Map<CardViewEngineEvent, Set<CardViewEngineListener<T>>>();
+  private filterManager: FilterManager;
+  private abortController: AbortController | null = null;
+  private lastQueryKey: string | null = null;
+  private request: Promise<void> = Promise.resolve();
+  private workerPipeline: CardViewWorkerPipeline<T> | null = null;
+  private workerMinItems = DEFAULT_WORKER_MIN_ITEMS;
+  private searchIndexOptions: SearchIndexOptions | null = null;
+  private searchIndex: SearchIndex<T> | null = null;
+  // Relevance of the items matching the current query (indexed search)
+  private relevanceScores = new Map<string, number>();
+  private defaults: Required<Pick<CardViewEngineOptions<T>, 'defaultSort' | 'defaultSearch' | 'defaultCaseSensitive' | 'defaultExactMatch' | 'defaultFuzzy'>>;
+
+  constructor(options: CardViewEngineOptions<T> = {}) {
+    this.defaults = {
+      defaultSort: options.defaultSort || [],
+      defaultSearch: options.defaultSearch || { fields: [], query: '' },
+      defaultCaseSensitive: options.defaultCaseSensitive ?? false,
+      defaultExactMatch: options.defaultExactMatch ?? false,
+      defaultFuzzy: options.defaultFuzzy ?? false
+    };
+    this.filterManager = new FilterManager(options.filterHandlers);
+    this.startWorker(options.workerProcessing);
+    this.searchIndexOptions = options.searchIndex?.enabled ? options.searchIndex : null;
+
+    this.state = this.derive({
+      data: options.data || [],
+      filters: {},
+      filterConfig: options.filterConfig || [],
+      sortConfig: this.defaults.defaultSort,
+      sortFields: options.sortFields || {},
+      searchConfig: this.getDefaultSearchConfig(),
+      customFilter: null,
+      customSort: null,
+      dataOperations: options.dataOperations || {},
+      dataSource: options.dataSource || null,
+      sourceTotal: 0,
+      isFetching: false,
+      error: null,
+      nextCursor: undefined,
+      pagination: {
+        enabled: !!options.pagination?.enabled,
+        mode: options.pagination?.mode || 'pages',
+        current: options.pagination?.current || 1,
+        pageSize: options.pagination?.pageSize || 10,
+        totalPages: 0,
+        total: 0,
+        hasMore: false
+      },
+      multiSelect: !!options.multiSelect,
+      selectedIds: [],
+      loadingIds: [],
+      isLoading: false,
+      collapsedSections: options.collapsedSections || [],
+      processedData: [],
+      pageData: [],
+      isProcessing: false
+    }, true);
+
+    if (options.dataSource) this.request = this.load();
+  }
+
+  //#region Subscription
+
+  /**
+   * Returns the current (immutable) state snapshot
+   */
+  getSnapshot = (): CardViewEngineState<T> => this.state;
+
+  /**
+   * Subscribes to every change, compatible with `useSyncExternalStore`
+   * @returns Function removing the listener
+   */
+  subscribe = (listener: () => void): (() => void) => this.on('change', listener);
+
+  /**
+   * Listens to an engine event
+   * @returns Function removing the listener
+   */
+  on(event: CardViewEngineEvent, listener: CardViewEngineListener<T>): () => void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Removes a listener added with `on`
+   */
+  off(event: CardViewEngineEvent, listener: CardViewEngineListener<T>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Removes every listener, aborts the pending request and stops the worker,
+   * the engine should not be used afterwards
+   */
+  destroy(): void {
+    this.listeners.clear();
+    this.abortController?.abort();
+    // The aborted request is ignored like a replaced one
+    this.abortController = null;
+    this.stopWorker();
+  }
+
+  //#endregion
+
+  //#region Data
+
+  /** Replaces the complete data array (only new or changed items are indexed again) */
+  setData(data: T[]): void {
+    this.searchIndex?.sync(data);
+    const ids = new Set(data.map(item => item.id));
+    const selectedIds = this.state.selectedIds.filter(id => ids.has(id));
+    const selectionChanged = selectedIds.length !== this.state.selectedIds.length;
+    this.update(
+      selectionChanged ? { data, selectedIds } : { data },
+      selectionChanged ? ['dataChange', 'selectionChange'] : ['dataChange']
+    );
+  }
+
+  /** Appends an item */
+  addItem(item: T): void {
+    this.searchIndex?.add(item);
+    this.update({ data: [...this.state.data, item] }, ['dataChange']);
+  }
+
+  /**
+   * Merges updates into an item
+   * @returns false when no item with the id exists
+   */
+  updateItem(id: string, updates: Partial<T>): boolean {
+    const current = this.getItem(id);
+    if (!current) return false;
+    const updatedItem = { ...current, ...updates };
+    this.searchIndex?.update(updatedItem);
+    this.update({
+      data: this.state.data.map(item => (item.id === id ? updatedItem : item))
+    }, ['dataChange']);
+    return true;
+  }
+
+  /**
+   * Removes an item (and its selection/loader)
+   * @returns false when no item with the id exists
+   */
+  removeItem(id: string): boolean {
+    if (!this.getItem(id)) return false;
+    const wasSelected = this.isSelected(id);
+    this.searchIndex?.remove(id);
+    this.update({
+      data: this.state.data.filter(item => item.id !== id),
+      selectedIds: this.state.selectedIds.filter(selectedId => selectedId !== id),
+      loadingIds: this.state.loadingIds.filter(loadingId => loadingId !== id)
+    }, wasSelected ? ['dataChange', 'selectionChange', 'loadingChange'] : ['dataChange', 'loadingChange']);
+    return true;
+  }
+
+  /** Finds an item by id */
+  getItem(id: string): T | undefined {
+    return this.state.data.find(item => item.id === id);
+  }
+
+  //#endregion
+
+  //#region Filters, sort and search
+
+  /** Sets the FilterManager configuration of the available filters */
+  setFilterConfig(filterConfig: Filter[]): void {
+    this.update({ filterConfig }, ['queryChange']);
+  }
+
+  /**
+   * Replaces the handlers of the custom filter types of the view (CardViewOptions.filterTypes),
+   * the filters are applied again
+   */
+  setFilterHandlers(filterHandlers: Record<string, FilterHandler>): void {
+    this.filterManager = new FilterManager(filterHandlers);
+    this.update({}, ['dataChange'], true);
+  }
+
+  /** Replaces the active filter values */
+  setFilters(filters: FilterValues): void {
+    this.update({ filters }, ['queryChange']);
+  }
+
+  /** Sets a predicate ANDed with the filters, or null to remove it */
+  setCustomFilter(predicate: ((item: T) => boolean) | null): void {
+    this.update({ customFilter: predicate }, ['queryChange']);
+  }
+
+  /**
+   * Sets the dataOperations stages (filterFn, searchFn, compareFn), each one only applies when `enabled`
+   */
+  setDataOperations(dataOperations: DataOperations): void {
+    this.update({ dataOperations }, ['queryChange']);
+  }
+
+  /** Clears the filter values and the custom predicate */
+  clearFilters(): void {
+    this.update({ filters: {}, customFilter: null }, ['queryChange']);
+  }
+
+  /** Sets how the values of each field are compared by the sort (type, collation, empty values, rank order) */
+  setSortFields(sortFields: Record<string, SortFieldOptions>): void {
+    this.update({ sortFields }, ['queryChange']);
+  }
+
+  /** Replaces the sort criteria (clears a custom comparator) */
+  setSortConfig(sortConfig: SortConfig): void {
+    this.update({ sortConfig, customSort: null }, ['queryChange']);
+  }
+
+  /**
+   * Adds, updates or removes ('none') the sort criteria of a field
+   */
+  updateSort(field: string, direction: 'asc' | 'desc' | 'none'): void {
+    const current = this.state.sortConfig;
+    let sortConfig: SortConfig;
+    if (direction === 'none') {
+      sortConfig = current.filter(criteria => criteria.field !== field);
+    } else if (current.some(criteria => criteria.field === field)) {
+      sortConfig = current.map(criteria => (criteria.field === field ? { field, direction } : criteria));
+    } else {
+      sortConfig = [...current, { field, direction }];
+    }
+    this.update({ sortConfig, customSort: null }, ['queryChange']);
+  }
+
+  /** Sets a comparator replacing the sort criteria, or null to go back to them */
+  setCustomSort(compareFn: ((a: T, b: T) => number) | null): void {
+    this.update({ customSort: compareFn }, ['queryChange']);
+  }
+
+  /** Replaces the search configuration (accepts an updater function) */
+  setSearchConfig(config: SearchConfig | ((prev: SearchConfig) => SearchConfig)): void {
+    const searchConfig = typeof config === 'function' ? config(this.state.searchConfig) : config;
+    this.update({ searchConfig }, ['queryChange']);
+  }
+
+  /**
+   * Searches for a query
+   * @param fields - Fields to search in (defaults to the current search fields)
+   */
+  search(query: string, fields?: string[]): void {
+    this.setSearchConfig(prev => ({ ...prev, query, ...(fields ? { fields, scope: undefined } : {}) }));
+  }
+
+  /**
+   * Sets the searchable fields and their weight/match mode, also used as the defaults restored by resetAll
+   * @param fields - Fields to search in
+   * @param fieldOptions - Weight and match mode of each field
+   */
+  setSearchFields(fields: string[], fieldOptions?: Record<string, SearchFieldOptions>): void {
+    this.defaults.defaultSearch = { ...this.defaults.defaultSearch, fields, fieldOptions };
+    this.setSearchConfig(prev => ({ ...prev, fields, fieldOptions }));
+  }
+
+  /**
+   * Enables or disables the indexed search (the index is built on the next search)
+   * @example
+   * engine.setSearchIndex({ enabled: true, operator: 'or', prefix: true });
+   */
+  setSearchIndex(options?: SearchIndexOptions): void {
+    const next = options?.enabled ? options : null;
+    const current = this.searchIndexOptions;
+    if (!next && !current) return;
+    if (next && current && next.operator === current.operator && next.prefix === current.prefix) return;
+
+    this.searchIndexOptions = next;
+    if (!next) this.searchIndex = null;
+    this.update({}, ['queryChange'], true);
+  }
+
+  /**
+   * Match score of an item for the current query: relevance of the indexed search, or sum of the
+   * weights of the matching fields (times the similarity in fuzzy mode). Undefined when the item
+   * does not match, no query is applied, or the query was processed by the worker or a custom searchFn.
+   */
+  getRelevance(id: string): number | undefined {
+    return this.relevanceScores.get(id);
+  }
+
+  /** Clears the search query */
+  clearSearch(): void {
+    this.search('');
+  }
+
+  /** Toggles case sensitivity of the search */
+  toggleCaseSensitive(): void {
+    this.setSearchConfig(prev => ({ ...prev, caseSensitive: !prev.caseSensitive }));
+  }
+
+  /** Toggles exact matching of the search */
+  toggleExactMatch(): void {
+    this.setSearchConfig(prev => ({ ...prev, exactMatch: !prev.exactMatch }));
+  }
+
+  /** Toggles fuzzy (typo tolerant) matching of the search */
+  toggleFuzzy(): void {
+    this.setSearchConfig(prev => ({ ...prev, fuzzy: !prev.fuzzy }));
+  }
+
+  /**
+   * Enables or disables fuzzy matching and sets its similarity threshold,
+   * also used as the defaults restored by resetAll
+   * @param threshold - Minimum similarity of a match, from 0 to 1 (default DEFAULT_FUZZY_THRESHOLD)
+   * @example
+   * engine.setFuzzySearch(true, 0.6);
+   */
+  setFuzzySearch(enabled: boolean, threshold = DEFAULT_FUZZY_THRESHOLD): void {
+    this.defaults.defaultFuzzy = enabled;
+    this.defaults.defaultSearch = { ...this.defaults.defaultSearch, fuzzyThreshold: threshold };
+    this.setSearchConfig(prev => ({ ...prev, fuzzy: enabled, fuzzyThreshold: threshold }));
+  }
+
+  /** Resets filters, sort and search to their defaults */
+  resetAll(): void {
+    this.update({
+      filters: {},
+      customFilter: null,
+      sortConfig: this.defaults.defaultSort,
+      customSort: null,
+      searchConfig: this.getDefaultSearchConfig()
+    }, ['queryChange']);
+  }
+
+  /**
+   * Runs the processing pipeline again while keeping the state (soft refresh),
+   * fetches the current page again with a data source
+   */
+  refresh(): void {
+    if (this.state.dataSource) {
+      void this.reload();
+      return;
+    }
+    this.update({}, ['dataChange'], true);
+  }
+
+  //#endregion
+
+  //#region Data source
+
+  /**
+   * Sets the server-side data source (and fetches the first page), or null to process `data` locally again
+   */
+  setDataSource(dataSource: CardViewDataSource<T> | null): void {
+    if (dataSource === this.state.dataSource) return;
+    this.abortController?.abort();
+    this.lastQueryKey = null;
+    this.update({ dataSource, sourceTotal: 0, isFetching: false, error: null, nextCursor: undefined }, ['queryChange']);
+  }
+
+  /**
+   * Query of the current page, sort, filters and search, as sent to the data source
+   */
+  getQuery(): DataSourceQuery {
+    const { pagination, sortConfig, filters, searchConfig, nextCursor } = this.state;
+    const appends = pagination.mode === 'infinite' && pagination.current > 1;
+    return {
+      page: pagination.current,
+      pageSize: pagination.pageSize,
+      ...(appends && nextCursor ? { cursor: nextCursor } : {}),
+      sort: sortConfig,
+      filters,
+      search: {
+        query: searchConfig.query,
+        fields: searchConfig.fields,
+        ...(searchConfig.scope ? { scope: searchConfig.scope } : {}),
+        caseSensitive: !!searchConfig.caseSensitive,
+        exactMatch: !!searchConfig.exactMatch,
+        fuzzy: !!searchConfig.fuzzy,
+        ...(searchConfig.fuzzy ? { fuzzyThreshold: searchConfig.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD } : {})
+      }
+    };
+  }
+
+  /**
+   * Fetches the current page from the data source again (e.g. after the backend data changed).
+   * In infinite mode the chunks are fetched again from the first one, a failed chunk is retried.
+   */
+  reload(): Promise<void> {
+    const { pagination, error } = this.state;
+    if (pagination.mode === 'infinite' && pagination.current > 1 && !error) {
+      this.lastQueryKey = null;
+      this.update({ pagination: { ...pagination, current: 1 } }, ['pageChange']);
+      return this.request;
+    }
+    return this.load(true);
+  }
+
+  //#endregion
+
+  //#region Worker processing
+
+  /**
+   * Enables or disables the worker pipeline, the data is processed again when the pipeline moves
+   * @example
+   * engine.setWorkerProcessing({ enabled: true, minItems: 5000 });
+   */
+  setWorkerProcessing(options?: WorkerProcessingOptions): void {
+    const enabled = !!options?.enabled && CardViewWorkerPipeline.isSupported();
+    const minItems = options?.minItems ?? DEFAULT_WORKER_MIN_ITEMS;
+    if (enabled === !!this.workerPipeline && minItems === this.workerMinItems) return;
+
+    this.stopWorker();
+    if (enabled) this.startWorker(options);
+    this.update({}, ['dataChange'], true);
+  }
+
+  //#endregion
+
+  //#region Pagination
+
+  /** Enables/disables pagination and optionally changes the page size or the mode (a new mode starts from page 1) */
+  setPagination(pagination: { enabled?: boolean; pageSize?: number; mode?: CardViewEnginePaginationMode }): void {
+    const mode = pagination.mode || this.state.pagination.mode;
+    this.update({
+      pagination: {
+        ...this.state.pagination,
+        enabled: pagination.enabled ?? this.state.pagination.enabled,
+        pageSize: pagination.pageSize || this.state.pagination.pageSize,
+        mode,
+        current: mode !== this.state.pagination.mode ? 1 : this.state.pagination.current
+      }
+    }, ['pageChange']);
+  }
+
+  /**
+   * Appends the next page (infinite mode). Ignored while a chunk is loading,
+   * after a failed request (see reload) or when there is nothing more to load.
+   */
+  loadMore(): void {
+    const { pagination, isFetching, error } = this.state;
+    if (!pagination.hasMore || isFetching || error) return;
+    this.update({ pagination: { ...pagination, current: pagination.current + 1 } }, ['pageChange']);
+  }
+
+  /** Goes to a page (ignored when out of bounds) */
+  goToPage(page: number): void {
+    const { totalPages } = this.state.pagination;
+    if (page < 1 || page > totalPages) return;
+    this.update({ pagination: { ...this.state.pagination, current: page } }, ['pageChange']);
+  }
+
+  nextPage(): void {
+    this.goToPage(this.state.pagination.current + 1);
+  }
+
+  previousPage(): void {
+    this.goToPage(this.state.pagination.current - 1);
+  }
+
+  goToFirstPage(): void {
+    this.goToPage(1);
+  }
+
+  goToLastPage(): void {
+    this.goToPage(this.state.pagination.totalPages);
+  }
+
+  /** Changes the page size and goes back to the first page */
+  setPageSize(pageSize: number): void {
+    if (pageSize < 1) return;
+    this.update({ pagination: { ...this.state.pagination, pageSize, current: 1 } }, ['pageChange']);
+  }
+
+  /**
+   * Returns the pagination state with derived values (same shape as usePaginationControls)
+   */
+  getPaginationState() {
+    const { current, pageSize, totalPages, total } = this.state.pagination;
+    return {
+      current,
+      pageSize,
+      totalPages,
+      totalItems: total,
+      hasNext: current < totalPages,
+      hasPrevious: current > 1,
+      startIndex: (current - 1) * pageSize + 1,
+      endIndex: Math.min(current * pageSize, total)
+    };
+  }
+
+  /**
+   * Page numbers around the current page
+   * @param range - Number of pages on each side of the current page
+   */
+  getPageRange(range = 3): number[] {
+    const { current, totalPages } = this.state.pagination;
+    const start = Math.max(1, current - range);
+    const end = Math.min(totalPages, current + range);
+    return Array.from({ length: Math.max(0, end - start + 1) }, (_, i) => start + i);
+  }
+
+  //#endregion
+
+  //#region Selection
+
+  /** Switches between single and multi selection (keeps the last item in single mode) */
+  setMultiSelect(multiSelect: boolean): void {
+    const { selectedIds } = this.state;
+    this.update({
+      multiSelect,
+      selectedIds: multiSelect ? selectedIds : selectedIds.slice(-1)
+    }, ['selectionChange']);
+  }
+
+  /** Selects an item (replaces the selection in single selection mode) */
+  select(id: string): void {
+    const { selectedIds, multiSelect } = this.state;
+    if (selectedIds.includes(id) || !this.getItem(id)) return;
+    this.update({ selectedIds: multiSelect ? [...selectedIds, id] : [id] }, ['selectionChange']);
+  }
+
+  deselect(id: string): void {
+    if (!this.state.selectedIds.includes(id)) return;
+    this.update({ selectedIds: this.state.selectedIds.filter(selectedId => selectedId !== id) }, ['selectionChange']);
+  }
+
+  toggleSelection(id: string): void {
+    if (this.isSelected(id)) this.deselect(id);
+    else this.select(id);
+  }
+
+  /**
+   * Selects the given ids, or every processed item
+   */
+  selectAll(ids: string[] = this.state.processedData.map(item => item.id)): void {
+    this.update({ selectedIds: [...ids] }, ['selectionChange']);
+  }
+
+  clearSelection(): void {
+    this.update({ selectedIds: [] }, ['selectionChange']);
+  }
+
+  isSelected(id: string): boolean {
+    return this.state.selectedIds.includes(id);
+  }
+
+  /** Selected items, in selection order */
+  getSelected(): T[] {
+    return this.state.selectedIds
+      .map(id => this.getItem(id))
+      .filter((item): item is T => item !== undefined);
+  }
+
+  //#endregion
+
+  //#region Loaders
+
+  /** Shows the loader of a card */
+  showLoader(id: string): void {
+    if (this.state.loadingIds.includes(id)) return;
+    this.update({ loadingIds: [...this.state.loadingIds, id] }, ['loadingChange']);
+  }
+
+  /** Hides the loader of a card */
+  hideLoader(id: string): void {
+    this.update({ loadingIds: this.state.loadingIds.filter(loadingId => loadingId !== id) }, ['loadingChange']);
+  }
+
+  hideAllLoaders(): void {
+    this.update({ loadingIds: [] }, ['loadingChange']);
+  }
+
+  isItemLoading(id: string): boolean {
+    return this.state.loadingIds.includes(id);
+  }
+
+  /** Shows or hides the loader of the whole view */
+  setLoading(isLoading: boolean): void {
+    this.update({ isLoading }, ['loadingChange']);
+  }
+
+  //#endregion
+
+  //#region Sections
+
+  /** Collapses or expands a section (segregated data mode) */
+  toggleSection(sectionId: string): void {
+    const { collapsedSections } = this.state;
+    this.update({
+      collapsedSections: collapsedSections.includes(sectionId)
+        ? collapsedSections.filter(id => id !== sectionId)
+        : [...collapsedSections, sectionId]
+    }, ['sectionChange']);
+  }
+
+  isSectionCollapsed(sectionId: string): boolean {
+    return this.state.collapsedSections.includes(sectionId);
+  }
+
+  //#endregion
+
+  //#region Internals
+
+  private startWorker(options?: WorkerProcessingOptions): void {
+    this.workerMinItems = options?.minItems ?? DEFAULT_WORKER_MIN_ITEMS;
+    if (!options?.enabled || !CardViewWorkerPipeline.isSupported()) return;
+
+    this.workerPipeline = new CardViewWorkerPipeline<T>(
+      processedData => this.update({ processedData, isProcessing: false }, ['loadingChange']),
+      error => {
+        // Back to the main thread pipeline
+        console.warn('CardView worker processing failed, processing on the main thread:', error);
+        this.stopWorker();
+        this.update({ isProcessing: false }, ['loadingChange'], true);
+      }
+    );
+  }
+
+  private stopWorker(): void {
+    this.workerPipeline?.terminate();
+    this.workerPipeline = null;
+  }
+
+  /**
+   * The worker only runs the serializable stages: function stages (custom filter/sort,
+   * dataOperations functions, custom filter types, sort comparators), the relevance sort, the search index and data sources are processed on the main thread
+   */
+  private canUseWorker(state: CardViewEngineState<T>): boolean {
+    const { filter, search, sort } = state.dataOperations;
+    return !!this.workerPipeline
+      && !state.dataSource
+      && state.data.length >= this.workerMinItems
+      && !state.customFilter
+      && !state.customSort
+      && !state.filterConfig.some(filter => this.filterManager.hasCustomHandler(filter.type))
+      && !state.sortConfig.some(criteria => criteria.field === RELEVANCE_SORT_KEY || state.sortFields[criteria.field]?.compareFn)
+      && !(filter?.enabled && filter.filterFn)
+      && !(search?.enabled && search.searchFn && state.searchConfig.query)
+      && !(this.searchIndexOptions && state.searchConfig.query)
+      && !(sort?.enabled && sort.compareFn);
+  }
+
+  /**
+   * Sends the query to the worker when it can process it
+   * @returns false when the query has to be processed on the main thread
+   */
+  private processInWorker(state: CardViewEngineState<T>): boolean {
+    if (!this.canUseWorker(state)) return false;
+    this.relevanceScores = new Map();
+    const { filters, filterConfig, searchConfig, sortConfig, sortFields } = state;
+    if (this.workerPipeline!.process(state.data, { filters, filterConfig, searchConfig, sortConfig, sortFields })) return true;
+
+    // Data or filter values that can not be copied to the worker
+    console.warn('CardView worker processing is not possible for this data, processing on the main thread');
+    this.stopWorker();
+    return false;
+  }
+
+  private getDefaultSearchConfig(): SearchConfig {
+    return {
+      ...this.defaults.defaultSearch,
+      caseSensitive: this.defaults.defaultCaseSensitive,
+      exactMatch: this.defaults.defaultExactMatch,
+      fuzzy: this.defaults.defaultFuzzy
+    };
+  }
+
+  /**
+   * Returns the search index, built again when the search fields or the case sensitivity changed
+   */
+  private getSearchIndex(state: CardViewEngineState<T>): SearchIndex<T> | null {
+    if (!this.searchIndexOptions) return null;
+    const { fields, caseSensitive = false } = state.searchConfig;
+    if (!this.searchIndex || !this.searchIndex.isBuiltFor(fields, caseSensitive)) {
+      this.searchIndex = new SearchIndex<T>(fields, caseSensitive);
+      this.searchIndex.sync(state.data);
+    }
+    return this.searchIndex;
+  }
+
+  /**
+   * Processing pipeline:
+   * 1. Apply the base filter (dataOperations.filter.filterFn), then the user filters and the custom predicate
+   * 2. Apply search (dataOperations.search.searchFn replaces DataSearcher when provided, the search index
+   *    replaces it when enabled and ranks the matches by relevance unless a sort is applied,
+   *    fuzzy queries always go through DataSearcher)
+   * 3. Apply sorting: the custom comparator takes precedence, otherwise sortConfig is applied on top of
+   *    dataOperations.sort.compareFn (the sort is stable, so compareFn decides between equal items)
+   */
+  private process(state: CardViewEngineState<T>): T[] {
+    // The data source already filtered, searched and sorted the items
+    if (state.dataSource) return state.data;
+
+    const { filter, search, sort } = state.dataOperations;
+    const baseData = filter?.enabled && filter.filterFn ? state.data.filter(filter.filterFn) : state.data;
+    const managedData = this.filterManager.applyFilters(baseData, state.filters, state.filterConfig) as T[];
+    const filteredData = state.customFilter ? managedData.filter(state.customFilter) : managedData;
+
+    const { query, exactMatch, fuzzy, fieldOptions, scope } = state.searchConfig;
+    const searchFn = search?.enabled ? search.searchFn : undefined;
+    const searchIndex = (searchFn && query) || fuzzy ? null : this.getSearchIndex(state);
+    const { operator, prefix } = this.searchIndexOptions || {};
+    const scores = searchIndex && query
+      ? searchIndex.search(query, { operator, prefix, exactMatch, fieldOptions, scope })
+      : new Map<string, number>();
+
+    let searchedData: T[];
+    if (searchFn && query) {
+      searchedData = filteredData.filter(item => searchFn(query, item));
+    } else if (searchIndex && query) {
+      searchedData = filteredData.filter(item => scores.has(item.id));
+      if (!state.sortConfig.length) searchedData.sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+    } else {
+      const scoredItems = DataSearcher.score(filteredData, state.searchConfig);
+      if (query) scoredItems.forEach(({ item, score }) => scores.set(item.id, score));
+      searchedData = scoredItems.map(({ item }) => item);
+    }
+    this.relevanceScores = scores;
+
+    if (state.customSort) return [...searchedData].sort(state.customSort);
+    const defaultOrder = sort?.enabled && sort.compareFn ? [...searchedData].sort(sort.compareFn) : searchedData;
+    return DataSorter.sort(defaultOrder, state.sortConfig, item => scores.get(item.id) || 0, state.sortFields);
+  }
+
+  /**
+   * Computes the derived values (processed data, pagination, page data).
+   * With a data source the data is already the current page (or the loaded chunks in infinite mode)
+   * and the total comes from the server. With the worker pipeline the result arrives asynchronously.
+   */
+  private derive(state: CardViewEngineState<T>, runPipeline: boolean): CardViewEngineState<T> {
+    let { processedData, isProcessing } = state;
+    if (runPipeline) {
+      // With the worker, the previous result is kept until the new one arrives
+      isProcessing = this.processInWorker(state);
+      if (!isProcessing) {
+        if (state.isProcessing) this.workerPipeline?.cancel();
+        processedData = this.process(state);
+      }
+    }
+    const { enabled, mode, pageSize } = state.pagination;
+    const isInfinite = mode === 'infinite';
+    const total = state.dataSource ? state.sourceTotal : processedData.length;
+    const totalPages = Math.ceil(total / pageSize);
+    // Cursor based sources may not know their total, loaded chunks are not limited by it
+    const current = state.dataSource && isInfinite
+      ? Math.max(1, state.pagination.current)
+      : Math.min(Math.max(1, state.pagination.current), Math.max(1, totalPages));
+    const startIndex = isInfinite ? 0 : (current - 1) * pageSize;
+
+    let hasMore = current < totalPages;
+    if (state.dataSource && isInfinite) {
+      hasMore = state.nextCursor !== undefined ? !!state.nextCursor : processedData.length < total;
+    }
+
+    return {
+      ...state,
+      processedData,
+      isProcessing,
+      pagination: { ...state.pagination, current, totalPages, total, hasMore },
+      pageData: enabled && !state.dataSource ? processedData.slice(startIndex, current * pageSize) : processedData
+    };
+  }
+
+  /**
+   * Fetches the current query from the data source.
+   * Identical queries are skipped unless forced, a newer request aborts the pending one
+   * and the responses of replaced requests are ignored.
+   */
+  private async load(force = false): Promise<void> {
+    const { dataSource } = this.state;
+    if (!dataSource) return;
+
+    const query = this.getQuery();
+    const queryKey = JSON.stringify(query);
+    if (!force && queryKey === this.lastQueryKey) return;
+    this.lastQueryKey = queryKey;
+
+    this.abortController?.abort();
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.update({ isFetching: true, error: null }, ['loadingChange']);
+
+    try {
+      const { items, total, nextCursor } = await dataSource.fetch(query, { signal: abortController.signal });
+      if (abortController !== this.abortController) return;
+      this.abortController = null;
+      // Next chunks are appended in infinite mode, the first chunk replaces the data
+      const data = this.state.pagination.mode === 'infinite' && query.page > 1 ? [...this.state.data, ...items] : items;
+      this.update({
+        data,
+        sourceTotal: total ?? data.length,
+        nextCursor,
+        isFetching: false
+      }, ['dataChange', 'loadingChange']);
+    } catch (error) {
+      if (abortController !== this.abortController) return;
+      this.abortController = null;
+      // The query is loaded again by reload() or the next query change
+      this.lastQueryKey = null;
+      this.update({
+        isFetching: false,
+        error: error instanceof Error ? error : new Error(String(error))
+      }, ['loadingChange']);
+    }
+  }
+
+  /**
+   * Applies a partial update, recomputes derived values and notifies listeners
+   */
+  private update(partial: Partial<CardViewEngineState<T>>, events: CardViewEngineEvent[], forcePipeline = false): void {
+    const runPipeline = forcePipeline || PIPELINE_KEYS.some(key => key in partial);
+    const next: CardViewEngineState<T> = { ...this.state, ...partial };
+
+    // A new query starts again from the first page
+    if (events.includes('queryChange')) {
+      next.pagination = { ...next.pagination, current: 1 };
+    }
+
+    const previousPage = this.state.pagination.current;
+    this.state = this.derive(next, runPipeline);
+    if (this.state.pagination.current !== previousPage && !events.includes('pageChange')) {
+      events = [...events, 'pageChange'];
+    }
+    this.emit(events);
+
+    if (this.state.dataSource && events.some(event => FETCH_EVENTS.includes(event))) {
+      this.request = this.load();
+    }
+  }
+
+  private emit(events: CardViewEngineEvent[]): void {
+    [...new Set<CardViewEngineEvent>([...events, 'change'])].forEach(event => {
+      this.listeners.get(event)?.forEach(listener => listener(this.state));
+    });
+  }
+
+  //#endregion
+}
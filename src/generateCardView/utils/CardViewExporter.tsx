@@ -0,0 +1,122 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * Column selection used while exporting data
+ * @example
+ * { allowedColumnsToDownload: ['name', 'email'] }
+ */
+export interface ExportColumnOptions {
+  allowedColumnsToDownload?: string[];
+  excludeColumnsFromDownload?: string[];
+}
+
+/**
+ * Converts card view data and the rendered card view into exportable formats.
+ * Unlike useDownloadData, nothing is downloaded here: the content is returned
+ * so that callers (e.g. `CardViewInstance.exportAs`) decide what to do with it.
+ */
+export class CardViewExporter {
+  /**
+   * Keeps only the configured columns of each row
+   * @example
+   * CardViewExporter.pickColumns(data, { excludeColumnsFromDownload: ['avatar'] });
+   */
+  static pickColumns<T extends Record<string, unknown>>(data: T[], options: ExportColumnOptions = {}): Record<string, unknown>[] {
+    const { allowedColumnsToDownload, excludeColumnsFromDownload } = options;
+    if (!allowedColumnsToDownload?.length && !excludeColumnsFromDownload?.length) return [...data];
+
+    return data.map(row => {
+      const columns = (allowedColumnsToDownload?.length ? allowedColumnsToDownload : Object.keys(row))
+        .filter(column => !excludeColumnsFromDownload?.includes(column));
+      return columns.reduce((acc, column) => {
+        acc[column] = row[column];
+        return acc;
+      }, {} as Record<string, unknown>);
+    });
+  }
+
+  /**
+   * Serializes rows as pretty printed JSON
+   */
+  static toJSON<T extends Record<string, unknown>>(data: T[], options?: ExportColumnOptions): string {
+    return JSON.stringify(this.pickColumns(data, options), null, 2);
+  }
+
+  /**
+   * Serializes rows as CSV, the header row is built from the first row's keys
+   */
+  static toCSV<T extends Record<string, unknown>>(data: T[], options?: ExportColumnOptions): string {
+    const rows = this.pickColumns(data, options);
+    if (rows.length === 0) return '';
+
+    const headers = Object.keys(rows[0]);
+    return [
+      headers.join(','),
+      ...rows.map(row =>
+        headers.map(fieldName => `"${String(row[fieldName] ?? '').replace(/"/g, '""')}"`).join(',')
+      )
+    ].join('\n');
+  }
+
+  /**
+   * Builds an XLSX workbook with a single sheet and returns it as a Blob
+   */
+  static toExcel<T extends Record<string, unknown>>(data: T[], options?: ExportColumnOptions, sheetName = 'Data'): Blob {
+    const worksheet = XLSX.utils.json_to_sheet(this.pickColumns(data, options));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+    const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+    return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  }
+
+  /**
+   * Renders an element into SVG markup using a foreignObject.
+   * Same-origin stylesheets are inlined so the snapshot keeps its styling.
+   */
+  static toSVG(element: HTMLElement): string {
+    const { width, height } = element.getBoundingClientRect();
+    const styles = Array.from(document.styleSheets)
+      .map(sheet => {
+        try {
+          return Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+        } catch {
+          // Cross-origin stylesheets cannot be read
+          return '';
+        }
+      })
+      .join('\n');
+    const markup = new XMLSerializer().serializeToString(element);
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(width)}" height="${Math.ceil(height)}">`
+      + `<foreignObject width="100%" height="100%">`
+      + `<div xmlns="http://www.w3.org/1999/xhtml"><style>${styles}</style>${markup}</div>`
+      + `</foreignObject></svg>`;
+  }
+
+  /**
+   * Rasterizes an element into a PNG data url (via its SVG snapshot)
+   */
+  static toPNG(element: HTMLElement, pixelRatio = window.devicePixelRatio || 1): Promise<string> {
+    const svg = this.toSVG(element);
+    const { width, height } = element.getBoundingClientRect();
+
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(width * pixelRatio);
+        canvas.height = Math.ceil(height * pixelRatio);
+        const context = canvas.getContext('2d');
+        if (!context) {
+          reject(new Error('Canvas 2D context is not available'));
+          return;
+        }
+        context.scale(pixelRatio, pixelRatio);
+        context.drawImage(image, 0, 0);
+        resolve(canvas.toDataURL('image/png'));
+      };
+      image.onerror = () => reject(new Error('Failed to render the card view as an image'));
+      image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
+  }
+}
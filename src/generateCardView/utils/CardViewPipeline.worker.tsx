@@ -0,0 +1,65 @@
+import { FilterManager, DataSearcher, DataSorter } from './FunctionalityHelperFunctionsForCardView';
+import type { CardViewPipelineRequest, CardViewPipelineResponse } from './CardViewWorkerPipeline';
+import type { DataItem } from '../InterfacesForCardView';
+
+/**
+ * Web Worker running the card view pipeline (see CardViewWorkerPipeline)
+ */
+
+const filterManager = new FilterManager();
+let data: DataItem[] = [];
+let indexByItem = new Map<DataItem, number>();
+// Latest query, queries replaced before they started are skipped
+let pendingRequest: Extract<CardViewPipelineRequest, { type: 'process' }> | null = null;
+let isScheduled = false;
+
+const respond = (response: CardViewPipelineResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+const runPendingRequest = () => {
+  isScheduled = false;
+  const request = pendingRequest;
+  pendingRequest = null;
+  if (!request) return;
+
+  try {
+    const filteredData = filterManager.applyFilters(data, request.filters, request.filterConfig);
+    const searchedData = DataSearcher.search(filteredData, request.searchConfig);
+    const sortedData = DataSorter.sort(searchedData, request.sortConfig, undefined, request.sortFields);
+
+    const indices = new Uint32Array(sortedData.length);
+    sortedData.forEach((item, i) => {
+      indices[i] = indexByItem.get(item) ?? 0;
+    });
+    // The buffer is transferred, not copied
+    respond({ type: 'result', requestId: request.requestId, indices }, [indices.buffer]);
+  } catch (error) {
+    respond({
+      type: 'error',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+self.onmessage = (event: MessageEvent<CardViewPipelineRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'setData':
+      data = message.data;
+      indexByItem = new Map(data.map((item, index) => [item, index]));
+      break;
+    case 'process':
+      pendingRequest = message;
+      // Queries received while a previous one was running are handled first, only the latest one runs
+      if (!isScheduled) {
+        isScheduled = true;
+        setTimeout(runPendingRequest, 0);
+      }
+      break;
+    case 'cancel':
+      if (pendingRequest && pendingRequest.requestId <= message.requestId) pendingRequest = null;
+      break;
+  }
+};
@@ -0,0 +1,118 @@
+import type { Filter, FilterValues, SortConfig, SortFieldOptions, SearchConfig } from './FunctionalityHelperFunctionsForCardView';
+import type { DataItem } from '../InterfacesForCardView';
+
+/**
+ * Query processed by the worker (the serializable part of the engine pipeline)
+ */
+export interface CardViewPipelineQuery {
+  filters: FilterValues;
+  filterConfig: Filter[];
+  searchConfig: SearchConfig;
+  sortConfig: SortConfig;
+  /** Sort options of the fields, without comparators (they can not be copied to the worker) */
+  sortFields?: Record<string, SortFieldOptions>;
+}
+
+/** Messages sent to the pipeline worker */
+export type CardViewPipelineRequest =
+  | { type: 'setData'; data: DataItem[] }
+  | ({ type: 'process'; requestId: number } & CardViewPipelineQuery)
+  | { type: 'cancel'; requestId: number };
+
+/** Messages sent back by the pipeline worker */
+export type CardViewPipelineResponse =
+  | { type: 'result'; requestId: number; indices: Uint32Array }
+  | { type: 'error'; requestId: number; message: string };
+
+/**
+ * Runs the FilterManager → DataSearcher → DataSorter pipeline in a Web Worker.
+ *
+ * The data is copied to the worker once per data change. Every query gets a
+ * request id: a newer query cancels the pending one (the worker skips queries
+ * that were replaced before it started them, and the results of replaced
+ * queries are ignored). The worker answers with the indices of the processed
+ * items in a transferred Uint32Array, which are mapped back to the items here,
+ * so the items themselves are never copied back.
+ *
+ * @example
+ * const pipeline = new CardViewWorkerPipeline<Employee>(
+ *   (processedData) => render(processedData),
+ *   (error) => console.error(error)
+ * );
+ * pipeline.process(employees, { filters: {}, filterConfig: [], searchConfig, sortConfig: [] });
+ */
+export class CardViewWorkerPipeline<T extends DataItem = DataItem> {
+  private worker: Worker;
+  private data: T[] | null = null;
+  private requestId = 0;
+  private onResult: (processedData: T[]) => void;
+  private onError: (error: Error) => void;
+
+  /**
+   * @param onResult - Called with the processed items of the latest query
+   * @param onError - Called when the worker fails, the pipeline should then be terminated
+   */
+  constructor(onResult: (processedData: T[]) => void, onError: (error: Error) => void) {
+    this.onResult = onResult;
+    this.onError = onError;
+    this.worker = new Worker(new URL('./CardViewPipeline.worker.tsx', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<CardViewPipelineResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.onError(new Error(event.message || 'The card view pipeline worker failed'));
+    };
+  }
+
+  /** Whether Web Workers are available (not during SSR or in tests without DOM) */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Processes the data for a query, the data is copied to the worker when it changed
+   * @returns false when the data or the query can not be copied to the worker (e.g. functions in the items)
+   */
+  process(data: T[], query: CardViewPipelineQuery): boolean {
+    const requestId = ++this.requestId;
+    try {
+      if (data !== this.data) {
+        this.data = null;
+        this.post({ type: 'setData', data });
+        this.data = data;
+      }
+      this.post({ type: 'process', requestId, ...query });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Cancels the pending query, its result will be ignored */
+  cancel(): void {
+    this.post({ type: 'cancel', requestId: this.requestId });
+    this.requestId++;
+  }
+
+  /** Stops the worker, the pipeline should not be used afterwards */
+  terminate(): void {
+    this.worker.terminate();
+    this.data = null;
+  }
+
+  private post(message: CardViewPipelineRequest): void {
+    this.worker.postMessage(message);
+  }
+
+  private handleResponse(response: CardViewPipelineResponse): void {
+    // Results of replaced queries are ignored
+    if (response.requestId !== this.requestId || !this.data) return;
+
+    if (response.type === 'error') {
+      this.onError(new Error(response.message));
+      return;
+    }
+
+    const data = this.data;
+    this.onResult(Array.from(response.indices, index => data[index]));
+  }
+}
@@ -0,0 +1,148 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Relative periods of the date filters, resolved to days when the filter runs
+ * - `lastDays` → The last N days, today included (`amount`, default 7)
+ * - `nextDays` → The next N days, today included (`amount`, default 7)
+ */
+export type DatePreset =
+  | 'today' | 'yesterday' | 'tomorrow'
+  | 'thisWeek' | 'lastWeek'
+  | 'thisMonth' | 'lastMonth'
+  | 'thisQuarter' | 'previousQuarter'
+  | 'thisYear' | 'lastYear'
+  | 'lastDays' | 'nextDays';
+
+/**
+ * Presets shown by the FilterModal date filters, `hasAmount` presets take a number of days
+ */
+export const DATE_PRESETS: { value: DatePreset; label: string; hasAmount?: boolean }[] = [
+  { value: 'today', label: 'Today' },
+  { value: 'yesterday', label: 'Yesterday' },
+  { value: 'tomorrow', label: 'Tomorrow' },
+  { value: 'lastDays', label: 'Last N days', hasAmount: true },
+  { value: 'nextDays', label: 'Next N days', hasAmount: true },
+  { value: 'thisWeek', label: 'This week' },
+  { value: 'lastWeek', label: 'Last week' },
+  { value: 'thisMonth', label: 'This month' },
+  { value: 'lastMonth', label: 'Last month' },
+  { value: 'thisQuarter', label: 'This quarter' },
+  { value: 'previousQuarter', label: 'Previous quarter' },
+  { value: 'thisYear', label: 'This year' },
+  { value: 'lastYear', label: 'Last year' },
+];
+
+export const DEFAULT_PRESET_DAYS = 7;
+
+/**
+ * Value of a date range filter, between two days or in a relative period.
+ * Relative values stay relative: "last 7 days" is resolved again every time the filter runs.
+ * @property {string} [start] - First day (YYYY-MM-DD)
+ * @property {string} [end] - Last day (YYYY-MM-DD)
+ * @property {DatePreset} [preset] - Relative period, replaces start and end
+ * @property {number} [amount] - Number of days of the `lastDays` and `nextDays` presets
+ * @property {boolean} [includeStart] - The first day matches (default true)
+ * @property {boolean} [includeEnd] - The last day matches (default true)
+ * @example
+ * { start: '2024-01-01', end: '2024-03-31', includeEnd: false }
+ * { preset: 'lastDays', amount: 30 }
+ */
+export interface DateRangeValue {
+  start?: string | null;
+  end?: string | null;
+  preset?: DatePreset;
+  amount?: number;
+  includeStart?: boolean;
+  includeEnd?: boolean;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Day of a date in a timezone (the browser's by default), YYYY-MM-DD.
+ * Calendar days ('2024-03-01') are kept as is, they are the same day in every timezone.
+ * @example
+ * toFilterDay('2024-03-01T02:00:00Z', 'America/New_York') // '2024-02-29'
+ */
+export const toFilterDay = (value: unknown, timezone?: string): string | null => {
+  if (value == null || value === '') return null;
+  if (typeof value === 'string' && DAY.test(value)) return value;
+  const date = dayjs(value as string | number | Date);
+  if (!date.isValid()) return null;
+  return (timezone ? date.tz(timezone) : date).format('YYYY-MM-DD');
+};
+
+/**
+ * Label of a preset, with its number of days
+ * @example
+ * getDatePresetLabel('lastDays', 30) // 'Last 30 days'
+ */
+export const getDatePresetLabel = (preset: DatePreset, amount = DEFAULT_PRESET_DAYS): string => {
+  if (preset === 'lastDays') return `Last ${amount} days`;
+  if (preset === 'nextDays') return `Next ${amount} days`;
+  return DATE_PRESETS.find(option => option.value === preset)?.label || preset;
+};
+
+/**
+ * First and last days (YYYY-MM-DD) of a preset, relative to the current day of the timezone
+ * @param now - Current time, for tests
+ * @example
+ * resolveDatePreset('previousQuarter', undefined, undefined, dayjs('2024-05-10')) // { start: '2024-01-01', end: '2024-03-31' }
+ */
+export const resolveDatePreset = (
+  preset: DatePreset,
+  amount = DEFAULT_PRESET_DAYS,
+  timezone?: string,
+  now: dayjs.Dayjs = dayjs()
+): { start: string; end: string } => {
+  const today = (timezone ? now.tz(timezone) : now).startOf('day');
+  const days = Math.max(1, Math.floor(amount));
+  const quarterStart = today.month(Math.floor(today.month() / 3) * 3).startOf('month');
+  const period = (start: dayjs.Dayjs, end: dayjs.Dayjs) => ({ start: start.format('YYYY-MM-DD'), end: end.format('YYYY-MM-DD') });
+
+  switch (preset) {
+    case 'today': return period(today, today);
+    case 'yesterday': return period(today.subtract(1, 'day'), today.subtract(1, 'day'));
+    case 'tomorrow': return period(today.add(1, 'day'), today.add(1, 'day'));
+    case 'lastDays': return period(today.subtract(days - 1, 'day'), today);
+    case 'nextDays': return period(today, today.add(days - 1, 'day'));
+    case 'thisWeek': return period(today.startOf('week'), today.endOf('week'));
+    case 'lastWeek': return period(today.subtract(1, 'week').startOf('week'), today.subtract(1, 'week').endOf('week'));
+    case 'thisMonth': return period(today.startOf('month'), today.endOf('month'));
+    case 'lastMonth': return period(today.subtract(1, 'month').startOf('month'), today.subtract(1, 'month').endOf('month'));
+    case 'thisQuarter': return period(quarterStart, quarterStart.add(2, 'month').endOf('month'));
+    case 'previousQuarter': return period(quarterStart.subtract(3, 'month'), quarterStart.subtract(1, 'day'));
+    case 'thisYear': return period(today.startOf('year'), today.endOf('year'));
+    case 'lastYear': return period(today.subtract(1, 'year').startOf('year'), today.subtract(1, 'year').endOf('year'));
+  }
+};
+
+/**
+ * Whether a date is within a range filter value, compared by day in the timezone.
+ * Values without a day (empty, invalid) never match.
+ * @example
+ * matchesDateRange('2024-03-31', { start: '2024-03-01', end: '2024-03-31' }) // true
+ * matchesDateRange('2024-03-31', { start: '2024-03-01', end: '2024-03-31', includeEnd: false }) // false
+ */
+export const matchesDateRange = (
+  value: unknown,
+  range: DateRangeValue,
+  timezone?: string,
+  now?: dayjs.Dayjs
+): boolean => {
+  const day = toFilterDay(value, timezone);
+  if (!day) return false;
+
+  const bounds = range.preset
+    ? resolveDatePreset(range.preset, range.amount, timezone, now)
+    : { start: toFilterDay(range.start, timezone), end: toFilterDay(range.end, timezone) };
+  // YYYY-MM-DD days compare like strings
+  if (bounds.start && (range.includeStart === false ? day <= bounds.start : day < bounds.start)) return false;
+  if (bounds.end && (range.includeEnd === false ? day >= bounds.end : day > bounds.end)) return false;
+  return true;
+};
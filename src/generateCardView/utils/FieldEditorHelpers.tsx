@@ -0,0 +1,113 @@
+import dayjs from 'dayjs';
+import type { DataItemDescription, EditableFieldConfiguration } from '../InterfacesForCardView';
+
+type EditorType = EditableFieldConfiguration['editorType'];
+
+/**
+ * Editor used for a field without an `editorType`, based on its `typeOfField`
+ */
+const DEFAULT_EDITOR_TYPES: Record<DataItemDescription['typeOfField'], NonNullable<EditorType>> = {
+  string: 'text',
+  number: 'number',
+  date: 'date',
+  image: 'text',
+  status: 'text',
+  custom: 'text',
+};
+
+export const isEmptyValue = (value: unknown) =>
+  value == null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Checks an edited value against the validation rules
+ * @returns The error message, undefined when the value is valid
+ * @example
+ * validateFieldValue('', { required: true }); // 'This field is required'
+ */
+export const validateFieldValue = (
+  value: unknown,
+  validation: EditableFieldConfiguration['validation'] = {}
+): string | undefined => {
+  if (isEmptyValue(value)) return validation.required ? 'This field is required' : undefined;
+
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return 'Enter a valid number';
+    if (validation.minValue !== undefined && value < validation.minValue) return `Must be at least ${validation.minValue}`;
+    if (validation.maxValue !== undefined && value > validation.maxValue) return `Must be at most ${validation.maxValue}`;
+  }
+
+  if (typeof value === 'string') {
+    if (validation.minLength !== undefined && value.length < validation.minLength) return `Must be at least ${validation.minLength} characters`;
+    if (validation.maxLength !== undefined && value.length > validation.maxLength) return `Must be at most ${validation.maxLength} characters`;
+    if (validation.pattern && !validation.pattern.test(value)) return 'Invalid format';
+  }
+
+  return undefined;
+};
+
+/**
+ * Converts a field value into the value handled by the editor
+ */
+export const toEditorValue = (value: unknown, editorType: EditorType): unknown => {
+  switch (editorType) {
+    case 'date':
+      return value && dayjs(value as string | Date).isValid() ? dayjs(value as string | Date).toDate() : null;
+    case 'datetime':
+      return value && dayjs(value as string | Date).isValid() ? dayjs(value as string | Date).format('YYYY-MM-DDTHH:mm') : '';
+    case 'checkbox':
+      return !!value;
+    case 'multi-select':
+      return Array.isArray(value) ? value : isEmptyValue(value) ? [] : [value];
+    case 'file':
+      return null;
+    case 'color':
+      return typeof value === 'string' && value ? value : '#000000';
+    default:
+      return value == null ? '' : String(value);
+  }
+};
+
+/**
+ * Converts the editor value back into a field value, dates keep the type (Date or string) of the original value
+ */
+export const fromEditorValue = (editorValue: unknown, originalValue: unknown, editorType: EditorType): unknown => {
+  switch (editorType) {
+    case 'number':
+      return editorValue === '' ? null : Number(editorValue);
+    case 'date':
+      if (!(editorValue instanceof Date)) return null;
+      return originalValue instanceof Date ? editorValue : dayjs(editorValue).format('YYYY-MM-DD');
+    case 'datetime':
+      if (!editorValue) return null;
+      return originalValue instanceof Date ? dayjs(editorValue as string).toDate() : editorValue;
+    default:
+      return editorValue;
+  }
+};
+
+/**
+ * Value kept in the item for an edited value: uploaded files are stored by name
+ * (the File itself is handed to onEdit / onSubmit)
+ */
+export const toStoredValue = (value: unknown) => value instanceof File ? value.name : value;
+
+/**
+ * Editing configuration of a field in the item form.
+ * - edit: only fields with `isEditable` get an editor, the others are read-only
+ * - create: every field gets an editor, except the ones explicitly marked `isEditable: false`
+ * Fields without an `editorType` use the editor of their `typeOfField`.
+ * @returns The configuration, undefined when the field is not part of the form
+ */
+export const getFormFieldConfiguration = (
+  description: DataItemDescription,
+  mode: 'create' | 'edit'
+): EditableFieldConfiguration | undefined => {
+  const configuration = description.editableConfiguration;
+  if (mode === 'create' && configuration?.isEditable === false) return undefined;
+
+  return {
+    ...configuration,
+    isEditable: mode === 'create' || !!configuration?.isEditable,
+    editorType: configuration?.editorType || DEFAULT_EDITOR_TYPES[description.typeOfField],
+  };
+};
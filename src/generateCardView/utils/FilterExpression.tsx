@@ -0,0 +1,113 @@
+import { isFilterExpressionActive } from './FunctionalityHelperFunctionsForCardView';
+import type {
+  FilterExpression,
+  FilterExpressionCondition,
+  FilterExpressionGroup,
+  FilterValues,
+} from './FunctionalityHelperFunctionsForCardView';
+import { getDatePresetLabel } from './DateFilterPresets';
+
+/**
+ * Field of the filter builder, a FilterModal filter
+ * @example
+ * { id: 'rating', name: 'Rating', type: 'range', conditions: ['Greater than', 'Less than'] }
+ */
+export interface FilterExpressionField {
+  id: string;
+  name: string;
+  type: string;
+  conditions?: string[];
+}
+
+const COMPARISON_SYMBOLS: Record<string, string> = {
+  'greater than': '>',
+  'greater than or equal': '≥',
+  'less than': '<',
+  'less than or equal': '≤',
+  'equal to': '=',
+  'not equal to': '≠',
+  'equals': '=',
+  'not equals': '≠',
+};
+
+// Text of a condition value: "in (Active, On Leave)", "> 4", "contains "jo"", "in last 7 days"
+const describeConditionValue = (filterValue: FilterValues[string]): string => {
+  const { condition, value } = filterValue && typeof filterValue === 'object' && 'value' in filterValue
+    ? filterValue
+    : { condition: undefined, value: filterValue };
+  const isExcluded = condition === 'not equals';
+
+  if (Array.isArray(value)) {
+    if (value.length === 2 && value.every(bound => typeof bound === 'number')) return `between ${value[0]} and ${value[1]}`;
+    if (value.length === 1) return `${isExcluded ? '≠' : '='} ${value[0]}`;
+    return `${isExcluded ? 'not in' : 'in'} (${value.join(', ')})`;
+  }
+  if (value && typeof value === 'object') {
+    if (value.preset) return `in ${getDatePresetLabel(value.preset, value.amount).toLowerCase()}`;
+    if (value.start && value.end) return `between ${value.start} and ${value.end}`;
+    return value.start ? `from ${value.start}` : `until ${value.end}`;
+  }
+  if (!condition) return `= ${value}`;
+
+  const lowerCondition = condition.toLowerCase();
+  if (lowerCondition === 'is empty' || lowerCondition === 'is not empty') return lowerCondition;
+  const symbol = COMPARISON_SYMBOLS[lowerCondition];
+  if (symbol) return `${symbol} ${isNaN(Number(value)) ? `"${value}"` : value}`;
+  return `${lowerCondition} "${value}"`;
+};
+
+const formatExpression = (expression: FilterExpression, fields: FilterExpressionField[], isRoot: boolean): string => {
+  let text: string;
+  if (expression.type === 'group') {
+    const parts = expression.children
+      .filter(isFilterExpressionActive)
+      .map(child => formatExpression(child, fields, false));
+    text = parts.join(` ${expression.operator.toUpperCase()} `);
+    if (parts.length > 1 && (!isRoot || expression.negated)) text = `(${text})`;
+  } else {
+    const name = fields.find(field => field.id === expression.field)?.name || expression.field;
+    text = `${name} ${describeConditionValue(expression.value)}`;
+  }
+  return expression.negated ? `NOT ${text}` : text;
+};
+
+/**
+ * Compact text of a filter expression, the inactive parts (conditions without a value, empty groups) are left out
+ * @param fields - Names of the fields (their id otherwise)
+ * @returns The text, empty when nothing is filtered
+ * @example
+ * formatFilterExpression(expression, filterConfigurations)
+ * // '(Status in (Active, On Leave) OR NOT Remote = Yes) AND Rating > 4'
+ */
+export const formatFilterExpression = (expression: FilterExpression | undefined, fields: FilterExpressionField[] = []): string => {
+  if (!expression || !isFilterExpressionActive(expression)) return '';
+  return formatExpression(expression, fields, true);
+};
+
+/**
+ * Empty group of the filter builder
+ */
+export const createFilterGroup = (operator: FilterExpressionGroup['operator'] = 'and'): FilterExpressionGroup => ({
+  type: 'group',
+  operator,
+  children: [],
+});
+
+/**
+ * Condition of the filter builder on a field, with the empty value of its filter type
+ * @example
+ * createFilterCondition({ id: 'name', name: 'Name', type: 'text' })
+ * // { type: 'condition', field: 'name', value: { condition: 'contains', value: '' } }
+ */
+export const createFilterCondition = (field: FilterExpressionField): FilterExpressionCondition => {
+  switch (field.type) {
+    case 'range':
+      return { type: 'condition', field: field.id, value: { condition: field.conditions?.[0] || 'Equal to', value: '' } };
+    case 'text':
+      return { type: 'condition', field: field.id, value: { condition: 'contains', value: '' } };
+    case 'date':
+      return { type: 'condition', field: field.id, value: { value: { start: null, end: null } } };
+    default:
+      return { type: 'condition', field: field.id, value: { value: [] } };
+  }
+};
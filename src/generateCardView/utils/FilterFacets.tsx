@@ -0,0 +1,215 @@
+import dayjs from 'dayjs';
+import { FilterManager } from './FunctionalityHelperFunctionsForCardView';
+import type { Filter, FilterValues } from './FunctionalityHelperFunctionsForCardView';
+
+/**
+ * Values of a field found in the data
+ * @property {string[]} options - Distinct values, sorted (array values are split)
+ * @property {number} [min] - Smallest number
+ * @property {number} [max] - Largest number
+ * @property {{ start: string; end: string }} [dateRange] - First and last day (YYYY-MM-DD)
+ */
+export interface FieldBounds {
+  options: string[];
+  min?: number;
+  max?: number;
+  dateRange?: { start: string; end: string };
+}
+
+/**
+ * Number of items of each option of the filters, keyed by filter id then option
+ * @example
+ * { department: { Engineering: 12, Sales: 0 } }
+ */
+export type FacetCounts = Record<string, Record<string, number>>;
+
+/**
+ * Bounds and display of a range filter
+ * @property {number} [step] - Step of the slider (see getRangeStep)
+ * @property {string} [unit] - Unit written after the values, or before them with `unitPosition: 'before'`
+ * @example
+ * { min: 0, max: 250, step: 5, unit: '$', unitPosition: 'before' }
+ */
+export interface RangeFormat {
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+  unitPosition?: 'before' | 'after';
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const getValues = (item: Record<string, unknown>, field: string): unknown[] => {
+  const value = item[field];
+  if (value == null || value === '') return [];
+  return Array.isArray(value) ? value.filter(entry => entry != null && entry !== '') : [value];
+};
+
+/**
+ * Derives the option list, numeric bounds and date bounds of a field from the data
+ * @example
+ * deriveFieldBounds(employees, 'rating') // { options: ['3', '4.5'], min: 3, max: 4.5 }
+ * deriveFieldBounds(employees, 'hireDate', 'date') // { options: [...], dateRange: { start: '2019-04-01', end: '2024-03-01' } }
+ */
+export const deriveFieldBounds = (
+  data: Record<string, unknown>[],
+  field: string,
+  typeOfField?: string
+): FieldBounds => {
+  const options = new Set<string>();
+  let min: number | undefined;
+  let max: number | undefined;
+  let start: dayjs.Dayjs | undefined;
+  let end: dayjs.Dayjs | undefined;
+
+  data.forEach(item => getValues(item, field).forEach(value => {
+    if (typeof value === 'object' && !(value instanceof Date)) return;
+    options.add(String(value));
+
+    const number = typeof value === 'number' ? value : Number(value);
+    if (typeOfField !== 'date' && typeof value !== 'boolean' && Number.isFinite(number)) {
+      min = min === undefined ? number : Math.min(min, number);
+      max = max === undefined ? number : Math.max(max, number);
+    }
+
+    if (typeOfField === 'date' || value instanceof Date) {
+      const date = dayjs(value as string | Date);
+      if (!date.isValid()) return;
+      if (!start || date.isBefore(start)) start = date;
+      if (!end || date.isAfter(end)) end = date;
+    }
+  }));
+
+  return {
+    options: [...options].sort(collator.compare),
+    min,
+    max,
+    dateRange: start && end ? { start: start.format('YYYY-MM-DD'), end: end.format('YYYY-MM-DD') } : undefined,
+  };
+};
+
+// Items matching the active filters except one, what picking a value of that filter would narrow down
+const getItemsOfOtherFilters = (
+  filterManager: FilterManager,
+  data: Record<string, unknown>[],
+  filters: FilterValues,
+  filterConfig: Filter[],
+  filterId: string
+): Record<string, unknown>[] => {
+  const otherFilters = { ...filters };
+  delete otherFilters[filterId];
+  return filterManager.applyFilters(data, otherFilters, filterConfig);
+};
+
+/**
+ * Counts the items of each option of some filters. Each filter is counted on the items
+ * matching the other active filters, so the counts tell how many items picking an option would show.
+ * @param data - Items to count
+ * @param filters - Active filters (FilterModal values)
+ * @param filterConfig - FilterManager configuration of the filters
+ * @param options - Options to count, keyed by filter id
+ * @param filterManager - Evaluates the filters (with the custom filter types of the view)
+ * @example
+ * getFacetCounts(employees, { status: { value: 'Active' } }, engine.getState().filterConfig, { department: ['Engineering', 'Sales'] });
+ * // { department: { Engineering: 12, Sales: 0 } } (active employees of each department)
+ */
+export const getFacetCounts = (
+  data: Record<string, unknown>[],
+  filters: FilterValues,
+  filterConfig: Filter[],
+  options: Record<string, string[]>,
+  filterManager: FilterManager = new FilterManager()
+): FacetCounts => {
+  const counts: FacetCounts = {};
+
+  Object.entries(options).forEach(([filterId, filterOptions]) => {
+    const matchingItems = getItemsOfOtherFilters(filterManager, data, filters, filterConfig, filterId);
+
+    const optionCounts: Record<string, number> = {};
+    filterOptions.forEach(option => {
+      optionCounts[option] = 0;
+    });
+    matchingItems.forEach(item => {
+      // An item counts once per option, also when its array value repeats it
+      new Set(getValues(item, filterId).map(String)).forEach(value => {
+        if (Object.hasOwn(optionCounts, value)) optionCounts[value]++;
+      });
+    });
+    counts[filterId] = optionCounts;
+  });
+  return counts;
+};
+
+/**
+ * Step of a range slider: the given step, 1 for whole number bounds,
+ * or a hundredth of the range rounded down to a power of ten
+ * @example
+ * getRangeStep(0, 5) // 1
+ * getRangeStep(1.2, 4.8) // 0.01
+ */
+export const getRangeStep = (min: number, max: number, step?: number): number => {
+  if (step && step > 0) return step;
+  if (!(max > min) || (Number.isInteger(min) && Number.isInteger(max))) return 1;
+  return 10 ** Math.floor(Math.log10((max - min) / 100));
+};
+
+/**
+ * Formats a range value with the decimals of the slider step and the unit
+ * @example
+ * formatRangeValue(1250, { min: 0, max: 5000, unit: '$', unitPosition: 'before' }) // '$1,250'
+ * formatRangeValue(4.5, { step: 0.5, unit: '★' }) // '4.5 ★'
+ */
+export const formatRangeValue = (value: number, format: RangeFormat = {}): string => {
+  const step = format.min !== undefined && format.max !== undefined
+    ? getRangeStep(format.min, format.max, format.step)
+    : format.step;
+  const decimals = step ? (String(step).split('.')[1] || '').length : 2;
+  const number = new Intl.NumberFormat(undefined, { maximumFractionDigits: decimals }).format(value);
+  if (!format.unit) return number;
+  return format.unitPosition === 'before' ? `${format.unit}${number}` : `${number} ${format.unit}`;
+};
+
+/**
+ * Distribution of the numbers of a field between two bounds, in bins of equal width
+ * (at most one bin per step, so small whole number ranges get a bar per value)
+ * @example
+ * getRangeHistogram(employees, 'rating', { min: 1, max: 5 }) // [2, 0, 7, 12, 4]
+ */
+export const getRangeHistogram = (
+  data: Record<string, unknown>[],
+  field: string,
+  { min = 0, max = 0, step }: RangeFormat,
+  maxBins = 20
+): number[] => {
+  const binCount = Math.max(1, Math.min(maxBins, Math.floor((max - min) / getRangeStep(min, max, step)) + 1));
+  const bins: number[] = new Array(binCount).fill(0);
+  data.forEach(item => getValues(item, field).forEach(value => {
+    const number = Number(value);
+    if (typeof value === 'boolean' || !Number.isFinite(number) || number < min || number > max) return;
+    const bin = max > min ? Math.floor(((number - min) / (max - min)) * binCount) : 0;
+    bins[Math.min(bin, binCount - 1)]++;
+  }));
+  return bins;
+};
+
+/**
+ * Histograms of some range filters, each computed on the items matching the other active filters
+ * @param ranges - Bounds of the range filters, keyed by filter id
+ * @param filterManager - Evaluates the filters (with the custom filter types of the view)
+ * @example
+ * getFacetHistograms(employees, { department: { value: 'Sales' } }, filterConfig, { salary: { min: 30000, max: 120000 } });
+ * // { salary: [0, 3, 5, ...] } (salaries of the Sales department)
+ */
+export const getFacetHistograms = (
+  data: Record<string, unknown>[],
+  filters: FilterValues,
+  filterConfig: Filter[],
+  ranges: Record<string, RangeFormat>,
+  filterManager: FilterManager = new FilterManager()
+): Record<string, number[]> => {
+  return Object.fromEntries(Object.entries(ranges).map(([filterId, range]) => [
+    filterId,
+    getRangeHistogram(getItemsOfOtherFilters(filterManager, data, filters, filterConfig, filterId), filterId, range),
+  ]));
+};
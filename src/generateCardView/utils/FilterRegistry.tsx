@@ -0,0 +1,74 @@
+import type { ReactNode } from 'react';
+import { FilterManager } from './FunctionalityHelperFunctionsForCardView';
+import type { FilterHandler, FilterValues } from './FunctionalityHelperFunctionsForCardView';
+import type { Filter } from '../modal/FilterModal';
+
+/**
+ * What the FilterModal input of a custom filter type gets
+ * @property {Filter} filter - FilterModal filter (id, name, type, values from `filterOptions` or the data)
+ * @property value - Current FilterModal value of the filter (`{ value, condition? }`), undefined when not set
+ * @property onChange - Sets the value of the filter, null removes it
+ */
+export interface FilterInputProps {
+  filter: Filter;
+  value: FilterValues[string] | undefined;
+  onChange: (value: FilterValues[string] | null) => void;
+}
+
+/**
+ * Custom filter type: how it filters, how it is edited in the FilterModal and how its chip reads
+ * @property {string} type - Name used by `filterConfiguration.filterType`
+ * @property {FilterHandler} handler - Evaluates the FilterModal value on the items
+ * @property renderInput - Input of the FilterModal (and of the filter builder conditions)
+ * @property formatValue - Text of the applied filter chip (the raw value otherwise)
+ * @example
+ * const tagsContainAll: FilterTypeDefinition = {
+ *   type: 'tagsContainAll',
+ *   handler: new TagsContainAllHandler(),
+ *   renderInput: ({ filter, value, onChange }) => (
+ *     <TagPicker tags={filter.values} selected={value?.value || []} onChange={tags => onChange(tags.length ? { value: tags } : null)} />
+ *   ),
+ *   formatValue: value => `all of ${value.value.join(', ')}`,
+ * };
+ */
+export interface FilterTypeDefinition {
+  type: string;
+  handler: FilterHandler;
+  renderInput?: (props: FilterInputProps) => ReactNode;
+  formatValue?: (value: FilterValues[string], filter: Filter) => string;
+}
+
+// Filter types of every card view
+const filterTypes = new Map<string, FilterTypeDefinition>();
+
+/**
+ * Registers a filter type for every card view, its handler is used by every FilterManager
+ * @returns Unregisters the type
+ * @example
+ * const unregister = registerFilterType(tagsContainAll);
+ */
+export const registerFilterType = (definition: FilterTypeDefinition): (() => void) => {
+  filterTypes.set(definition.type, definition);
+  FilterManager.registerHandler(definition.type, definition.handler);
+  return () => unregisterFilterType(definition.type);
+};
+
+/** Removes a filter type registered with registerFilterType */
+export const unregisterFilterType = (type: string): void => {
+  filterTypes.delete(type);
+  FilterManager.unregisterHandler(type);
+};
+
+/**
+ * Definition of a filter type, the types of the view (`CardViewOptions.filterTypes`) come before the registered ones
+ */
+export const resolveFilterType = (type: string, viewFilterTypes?: FilterTypeDefinition[]): FilterTypeDefinition | undefined =>
+  viewFilterTypes?.find(definition => definition.type === type) || filterTypes.get(type);
+
+/**
+ * Handlers of some filter types keyed by type, for a FilterManager of a view
+ * @example
+ * const filterManager = new FilterManager(toFilterHandlers(options.filterTypes));
+ */
+export const toFilterHandlers = (definitions: FilterTypeDefinition[] = []): Record<string, FilterHandler> =>
+  Object.fromEntries(definitions.map(definition => [definition.type, definition.handler]));
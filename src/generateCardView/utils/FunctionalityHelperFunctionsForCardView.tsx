@@ -1,4 +1,4 @@
-import dayjs from 'dayjs';
+import { matchesDateRange, toFilterDay } from './DateFilterPresets';
 
 /**
  * Base interface for all filters
@@ -21,13 +21,16 @@ interface FilterBase {
  *   name: 'Creation Date',
  *   type: 'date',
  *   isRange: true,
- *   allowedDateRange: { start: '2023-01-01', end: '2023-12-31' }
+ *   allowedDateRange: { start: '2023-01-01', end: '2023-12-31' },
+ *   timezone: 'Europe/Paris'
  * }
  */
 interface DateFilter extends FilterBase {
   type: 'date';
   allowedDateRange?: { start: string; end: string };
   isRange?: boolean;
+  /** IANA timezone the days are compared in (default: the browser's) */
+  timezone?: string;
 }
 
 /**
@@ -103,6 +106,38 @@ interface NumberFilter extends FilterBase {
   type: 'number';
 }
 
+/**
+ * Range slider filter, keeps the items with a value between two bounds
+ * @example
+ * {
+ *   id: 'price',
+ *   name: 'Price',
+ *   type: 'range',
+ *   min: 0,
+ *   max: 250
+ * }
+ */
+interface RangeFilter extends FilterBase {
+  type: 'range';
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Filter of a custom type, evaluated by its registered handler (see registerFilterType)
+ * @example
+ * {
+ *   id: 'skills',
+ *   name: 'Skills',
+ *   type: 'tagsContainAll',
+ *   values: ['React', 'TypeScript', 'Go']
+ * }
+ */
+export interface CustomFilter extends FilterBase {
+  type: string;
+  values?: string[];
+}
+
 /**
  * Union type representing all possible filters
  * @example
@@ -122,7 +157,7 @@ interface NumberFilter extends FilterBase {
  * ]
  */
 export type Filter = DateFilter | CheckboxFilter | DropdownFilter |
-              DropdownConditionMatchingFilter | TextFilter | NumberFilter;
+              DropdownConditionMatchingFilter | TextFilter | NumberFilter | RangeFilter | CustomFilter;
 
 /**
  * Single filter's current value
@@ -141,18 +176,87 @@ type FilterValue = any;
  *   category: 'Electronics'
  * }
  */
-type FilterValues = Record<string, FilterValue>;
+export type FilterValues = Record<string, FilterValue>;
+
+/**
+ * Condition of a filter expression: the FilterModal value of a field filter, evaluated by the handler of the field
+ * @example
+ * { type: 'condition', field: 'rating', value: { condition: 'Greater than', value: 4 } }
+ */
+export interface FilterExpressionCondition {
+  type: 'condition';
+  field: string;
+  value: FilterValue;
+  negated?: boolean;
+}
+
+/**
+ * Group of a filter expression, matches when all (`and`) or any (`or`) of its children match
+ * @example
+ * { type: 'group', operator: 'or', children: [activeCondition, onLeaveCondition] }
+ */
+export interface FilterExpressionGroup {
+  type: 'group';
+  operator: 'and' | 'or';
+  children: FilterExpression[];
+  negated?: boolean;
+}
+
+/**
+ * Boolean combination of field conditions, serializable (plain JSON)
+ * @example
+ * // (status is Active OR On Leave) AND rating > 4
+ * const expression: FilterExpression = {
+ *   type: 'group',
+ *   operator: 'and',
+ *   children: [
+ *     { type: 'condition', field: 'status', value: { value: ['Active', 'On Leave'] } },
+ *     { type: 'condition', field: 'rating', value: { condition: 'Greater than', value: 4 } }
+ *   ]
+ * };
+ */
+export type FilterExpression = FilterExpressionCondition | FilterExpressionGroup;
+
+/**
+ * Filter key of a filter expression, its value is `{ value: FilterExpression }`.
+ * The expression is combined (AND) with the filters of the other keys.
+ * @example
+ * const filters: FilterValues = { department: { value: 'Sales' }, [FILTER_EXPRESSION_KEY]: { value: expression } };
+ */
+export const FILTER_EXPRESSION_KEY = '_expression';
+
+const VALUELESS_CONDITIONS = ['is empty', 'is not empty'];
+
+/**
+ * Whether an expression constrains anything: conditions without a value yet and empty groups are ignored
+ * @example
+ * isFilterExpressionActive({ type: 'condition', field: 'status', value: { value: [] } }) // false
+ */
+export const isFilterExpressionActive = (expression?: FilterExpression | null): boolean => {
+  if (!expression) return false;
+  if (expression.type === 'group') return expression.children.some(isFilterExpressionActive);
+  const { condition, value } = expression.value && typeof expression.value === 'object' && 'value' in expression.value
+    ? expression.value
+    : { condition: undefined, value: expression.value };
+  if (condition && VALUELESS_CONDITIONS.includes(condition)) return true;
+  if (value == null || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  // Date range ({ start, end } or { preset })
+  if (typeof value === 'object') return !!(value.start || value.end || value.preset);
+  return true;
+};
 
 /**
- * Abstract base class for all filter handlers
+ * Abstract base class for all filter handlers, extended by the handlers of custom filter types
  * @example
- * class CustomFilterHandler extends FilterHandler {
- *   matches(itemValue, filterValue, filterDef) {
- *     // Custom implementation
+ * class TagsContainAllHandler extends FilterHandler {
+ *   matches(itemValue, filterValue) {
+ *     const tags = Array.isArray(itemValue) ? itemValue : [];
+ *     return (filterValue?.value || []).every(tag => tags.includes(tag));
  *   }
  * }
  */
-abstract class FilterHandler {
+export abstract class FilterHandler {
   abstract matches(itemValue: any, filterValue: FilterValue, filterDef: Filter): boolean;
 
   /**
@@ -179,34 +283,25 @@ abstract class FilterHandler {
 }
 
 /**
- * Handles date-based filtering
+ * Handles date-based filtering, by day in the timezone of the filter.
+ * Range values ({ start, end } or a relative { preset }) are resolved when the filter runs (see DateRangeValue).
  * @example
  * const handler = new DateFilterHandler();
  * const matches = handler.matches('2023-01-15', { start: '2023-01-01', end: '2023-01-31' }, { isRange: true });
+ * const recent = handler.matches('2023-01-15', { value: { preset: 'lastDays', amount: 30 } }, { type: 'date' });
  */
 class DateFilterHandler extends FilterHandler {
   matches(itemValue: any, filterValue: FilterValue, filterDef: DateFilter): boolean {
-    if (!filterValue) return true;
+    // FilterModal values are wrapped ({ value })
+    const value = filterValue && typeof filterValue === 'object' && 'value' in filterValue ? filterValue.value : filterValue;
+    if (!value) return true;
 
-    if (filterDef.isRange) {
-      return this.handleDateRange(itemValue, filterValue);
+    if (typeof value === 'object') {
+      if (!value.preset && !value.start && !value.end) return true;
+      return matchesDateRange(itemValue, value, filterDef.timezone);
     }
-    return dayjs(itemValue).isSame(dayjs(filterValue), 'day');
-  }
-
-  private handleDateRange(fieldValue: string, filterValue: { start?: string; end?: string }): boolean {
-    const fieldDate = dayjs(fieldValue);
-    const startDate = filterValue.start ? dayjs(filterValue.start) : null;
-    const endDate = filterValue.end ? dayjs(filterValue.end) : null;
-
-    if (startDate && endDate) {
-      return fieldDate.isAfter(startDate) && fieldDate.isBefore(endDate);
-    } else if (startDate) {
-      return fieldDate.isAfter(startDate);
-    } else if (endDate) {
-      return fieldDate.isBefore(endDate);
-    }
-    return true;
+    const day = toFilterDay(itemValue, filterDef.timezone);
+    return !!day && day === toFilterDay(value, filterDef.timezone);
   }
 }
 
@@ -243,7 +338,11 @@ class DropdownFilterHandler extends FilterHandler {
       return fieldValues.some(val => normalizedFilters.includes(val));
     }
 
-    return fieldValues.includes(String(filterValue.value));
+    // FilterModal value ({ value, condition? }), 'not equals' excludes the value
+    if (filterValue.value == null || filterValue.value === '' || (Array.isArray(filterValue.value) && !filterValue.value.length)) return true;
+    const selectedValues = Array.isArray(filterValue.value) ? filterValue.value.map(String) : [String(filterValue.value)];
+    const isSelected = fieldValues.some(val => selectedValues.includes(val));
+    return filterValue.condition === 'not equals' ? !isSelected : isSelected;
   }
 }
 
@@ -274,6 +373,11 @@ class TextFilterHandler extends FilterHandler {
   }
 }
 
+const NUMBER_CONDITION_ALIASES: Record<string, string> = {
+  'equal to': 'equals',
+  'not equal to': 'not equals'
+};
+
 /**
  * Handles number filters with range, conditionals, etc.
  * @example
@@ -287,7 +391,9 @@ class NumberFilterHandler extends FilterHandler {
     const numValue = Number(itemValue);
     if (isNaN(numValue)) return false;
 
-    switch (filterValue.condition) {
+    // Conditions of the FilterModal range filter ('Greater than', 'Equal to', ...)
+    const condition = NUMBER_CONDITION_ALIASES[filterValue.condition.toLowerCase()] || filterValue.condition.toLowerCase();
+    switch (condition) {
       case 'equals': return numValue === Number(filterValue.value);
       case 'not equals': return numValue !== Number(filterValue.value);
       case 'greater than': return numValue > Number(filterValue.value);
@@ -307,7 +413,28 @@ class NumberFilterHandler extends FilterHandler {
 }
 
 /**
- * Filter manager responsible for applying all filters to data
+ * Handles range slider filters, the value must be within the selected bounds (inclusive).
+ * Conditions (e.g. `rating:>4` of the search bar) are evaluated like number filters.
+ * @example
+ * const handler = new RangeFilterHandler();
+ * const matches = handler.matches(42, { value: [30, 50] });
+ */
+class RangeFilterHandler extends NumberFilterHandler {
+  matches(itemValue: unknown, filterValue: FilterValue): boolean {
+    const range = filterValue?.value;
+    if (!Array.isArray(range)) return super.matches(itemValue, filterValue);
+
+    const numValue = Number(itemValue);
+    if (itemValue === null || itemValue === undefined || itemValue === '' || isNaN(numValue)) return false;
+    const [from, to] = range.map(Number);
+    return numValue >= from && numValue <= to;
+  }
+}
+
+/**
+ * Filter manager responsible for applying all filters to data.
+ * Custom filter types are evaluated by the handlers given to the constructor (one view),
+ * or registered with FilterManager.registerHandler (every view).
  * @example
  * const filterManager = new FilterManager();
  * const filteredData = filterManager.applyFilters(
@@ -317,6 +444,43 @@ class NumberFilterHandler extends FilterHandler {
  * );
  */
 export class FilterManager {
+  // Handlers of the custom filter types of every FilterManager
+  private static globalHandlers = new Map<string, FilterHandler>();
+
+  /**
+   * Registers the handler of a filter type for every FilterManager (replaces the built-in handler of the type)
+   * @example
+   * FilterManager.registerHandler('tagsContainAll', new TagsContainAllHandler());
+   */
+  static registerHandler(type: string, handler: FilterHandler): void {
+    FilterManager.globalHandlers.set(type, handler);
+  }
+
+  /** Removes the handler registered for a filter type */
+  static unregisterHandler(type: string): void {
+    FilterManager.globalHandlers.delete(type);
+  }
+
+  private customHandlers: Record<string, FilterHandler>;
+
+  /**
+   * @param customHandlers - Handlers of custom filter types, keyed by type (they take precedence over the registered ones)
+   */
+  constructor(customHandlers: Record<string, FilterHandler> = {}) {
+    this.customHandlers = customHandlers;
+  }
+
+  /**
+   * Whether a filter type is evaluated by a custom handler (they are functions, so they can not run in a worker)
+   */
+  hasCustomHandler(type: string): boolean {
+    return Object.hasOwn(this.customHandlers, type) || FilterManager.globalHandlers.has(type);
+  }
+
+  private getHandler(type: string): FilterHandler | undefined {
+    return this.customHandlers[type] || FilterManager.globalHandlers.get(type) || this.handlers[type];
+  }
+
   private handlers: Record<string, FilterHandler> = {
     date: new DateFilterHandler(),
     checkbox: new CheckboxFilterHandler(),
@@ -324,6 +488,7 @@ export class FilterManager {
     dropdownConditionMatching: new ConditionalFilterHandler(),
     text: new TextFilterHandler(),
     number: new NumberFilterHandler(),
+    range: new RangeFilterHandler(),
   };
 
   /**
@@ -341,11 +506,13 @@ export class FilterManager {
 
     return data.filter(item => {
       return Object.entries(filters).every(([filterId, filterValue]) => {
+        if (filterId === FILTER_EXPRESSION_KEY) return this.matchesExpression(item, filterValue?.value, filterConfig);
+
         const filterDef = filterConfig.find(f => f.id === filterId);
       
         if (!filterDef) return true;
 
-        const handler = this.handlers[filterDef.type];
+        const handler = this.getHandler(filterDef.type);
         if (!handler) return true;
 
         const itemValue = item[filterId];
@@ -353,6 +520,35 @@ export class FilterManager {
       });
     });
   }
+
+  /**
+   * Evaluates a filter expression on an item, the inactive parts (see isFilterExpressionActive) are skipped
+   * @example
+   * filterManager.matchesExpression(
+   *   { status: 'On Leave', rating: 4.5 },
+   *   { type: 'group', operator: 'or', children: [
+   *     { type: 'condition', field: 'status', value: { value: ['Active'] } },
+   *     { type: 'condition', field: 'rating', value: { condition: 'Greater than', value: 4 } }
+   *   ] },
+   *   [{ id: 'status', name: 'Status', type: 'dropdown', values: [] }, { id: 'rating', name: 'Rating', type: 'range' }]
+   * ); // true
+   */
+  matchesExpression(item: Record<string, unknown>, expression: FilterExpression | undefined, filterConfig: Filter[]): boolean {
+    if (!expression || !isFilterExpressionActive(expression)) return true;
+
+    let matches: boolean;
+    if (expression.type === 'group') {
+      const children = expression.children.filter(isFilterExpressionActive);
+      matches = expression.operator === 'or'
+        ? children.some(child => this.matchesExpression(item, child, filterConfig))
+        : children.every(child => this.matchesExpression(item, child, filterConfig));
+    } else {
+      const filterDef = filterConfig.find(f => f.id === expression.field);
+      const handler = filterDef && this.getHandler(filterDef.type);
+      matches = handler ? handler.matches(item[expression.field], expression.value, filterDef) : true;
+    }
+    return expression.negated ? !matches : matches;
+  }
 }
 
 /**
@@ -370,6 +566,43 @@ interface SortCriteria {
 
 export type SortConfig = SortCriteria[];
 
+/**
+ * Sort field ranking the items by search relevance (see SearchIndex), 'desc' puts the most relevant items first
+ * @example
+ * const sortConfig: SortConfig = [{ field: RELEVANCE_SORT_KEY, direction: 'desc' }, { field: 'name', direction: 'asc' }];
+ */
+export const RELEVANCE_SORT_KEY = '_relevance';
+
+/**
+ * How DataSorter compares the values of a field (DataItemDescription typeOfField and sortConfiguration)
+ * @example
+ * const fieldOptions: Record<string, SortFieldOptions> = {
+ *   sku: { type: 'string', natural: true },
+ *   name: { type: 'string', locale: 'sv', sensitivity: 'base' },
+ *   status: { type: 'status', rankOrder: ['Active', 'On Leave', 'Inactive'] },
+ *   rating: { type: 'number', nulls: 'first' },
+ * };
+ */
+export interface SortFieldOptions {
+  /**
+   * Type of the values: 'number' and 'date' values are compared as numbers and dates (numeric and date strings
+   * included), other types as text. Without a type, only numbers and Date objects are compared as numbers.
+   */
+  type?: string;
+  /** Natural (alphanumeric) ordering of text, the digits compare by value: "item 2" before "item 10" */
+  natural?: boolean;
+  /** Locale(s) of the text collation (Intl.Collator), the browser's by default */
+  locale?: string | string[];
+  /** Intl.Collator sensitivity, e.g. 'base' ignores the case and the accents */
+  sensitivity?: Intl.CollatorOptions['sensitivity'];
+  /** Where the empty values (null, undefined, '', invalid numbers and dates) go in both directions (default 'last') */
+  nulls?: 'first' | 'last';
+  /** Explicit order of the values (e.g. statuses), the values not listed come after them */
+  rankOrder?: string[];
+  /** Comparator of two non-empty values, replaces the comparison of the type */
+  compareFn?(a: unknown, b: unknown): number;
+}
+
 /**
  * Sorts data based on multiple criteria
  * @example
@@ -379,70 +612,168 @@ export type SortConfig = SortCriteria[];
  * );
  */
 export class DataSorter {
+  // Collators by locale and options, creating them is slow
+  private static collators = new Map<string, Intl.Collator>();
+
   /**
    * Sorts an array of items based on the provided sort configuration
    * @example
    * const sortedProducts = DataSorter.sort(products, [
    *   { field: 'category', direction: 'asc' },
    *   { field: 'price', direction: 'desc' }
-   * ]);
+   * ], undefined, { price: { type: 'number', nulls: 'last' } });
+   * @param getRelevance - Relevance of an item, used by the RELEVANCE_SORT_KEY criteria (items are equal without it)
+   * @param fieldOptions - How the values of each field are compared (see SortFieldOptions)
    */
-  static sort<T extends Record<string, any>>(data: T[], sortConfig: SortConfig): T[] {
+  static sort<T extends Record<string, any>>(
+    data: T[],
+    sortConfig: SortConfig,
+    getRelevance?: (item: T) => number,
+    fieldOptions: Record<string, SortFieldOptions> = {}
+  ): T[] {
     if (!sortConfig || sortConfig.length === 0) return [...data];
 
     return [...data].sort((a, b) => {
       for (const criteria of sortConfig) {
-        const comparison = this.compareValues(a[criteria.field], b[criteria.field]);
-        if (comparison !== 0) {
-          return criteria.direction === 'asc' ? comparison : -comparison;
-        }
+        const comparison = criteria.field === RELEVANCE_SORT_KEY
+          ? (getRelevance ? getRelevance(a) - getRelevance(b) : 0) * (criteria.direction === 'asc' ? 1 : -1)
+          : this.compareField(a[criteria.field], b[criteria.field], criteria.direction, fieldOptions[criteria.field]);
+        if (comparison !== 0) return comparison;
       }
       return 0;
     });
   }
 
   /**
-   * Compares two values of any type for sorting
+   * Compares two values of a field in a direction, empty values are placed by `nulls` whatever the direction
    * @example
-   * compareValues('a', 'b') // returns -1
-   * compareValues(10, 5) // returns 1
+   * compareField('2', '10', 'asc', { type: 'number' }) // returns a negative number
+   * compareField(null, 5, 'desc') // returns 1, empty values go last
    */
-  private static compareValues(a: any, b: any): number {
-    if (a == null && b == null) return 0;
-    if (a == null) return -1;
-    if (b == null) return 1;
-
-    if (this.isDate(a) && this.isDate(b)) {
-      return new Date(a).getTime() - new Date(b).getTime();
+  private static compareField(a: unknown, b: unknown, direction: 'asc' | 'desc', options: SortFieldOptions = {}): number {
+    const left = this.toSortValue(a, options.type);
+    const right = this.toSortValue(b, options.type);
+    if (left == null || right == null) {
+      if (left == null && right == null) return 0;
+      const emptyFirst = options.nulls === 'first' ? -1 : 1;
+      return left == null ? emptyFirst : -emptyFirst;
     }
 
-    if (typeof a === 'number' && typeof b === 'number') {
-      return a - b;
+    const comparison = this.compareValues(left, right, options);
+    return direction === 'asc' ? comparison : -comparison;
+  }
+
+  /**
+   * Compares two non-empty values: custom comparator, rank order, numbers, then text collation
+   * @example
+   * compareValues('item 2', 'item 10', { natural: true }) // returns -1
+   * compareValues('Active', 'Inactive', { rankOrder: ['Inactive', 'Active'] }) // returns 1
+   */
+  private static compareValues(a: unknown, b: unknown, options: SortFieldOptions): number {
+    if (options.compareFn) return options.compareFn(a, b);
+
+    if (options.rankOrder) {
+      const rank = (value: unknown) => {
+        const index = options.rankOrder!.indexOf(String(value));
+        return index === -1 ? options.rankOrder!.length : index;
+      };
+      const comparison = rank(a) - rank(b);
+      if (comparison !== 0) return comparison;
     }
 
-    return String(a).localeCompare(String(b));
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return this.getCollator(options).compare(String(a), String(b));
+  }
+
+  /**
+   * Value compared for a field type, null when the value is empty or not of the type.
+   * Without a type, numbers and Date objects compare as numbers and everything else as text.
+   * @example
+   * toSortValue('10', 'number') // 10
+   * toSortValue('2024-03-01', 'date') // 1709251200000
+   * toSortValue('2024-03-01') // '2024-03-01'
+   */
+  private static toSortValue(value: unknown, type?: string): unknown {
+    if (value == null || value === '') return null;
+
+    switch (type) {
+      case 'number': {
+        const number = typeof value === 'number' ? value : Number(value);
+        return isNaN(number) ? null : number;
+      }
+      case 'date': {
+        const time = value instanceof Date ? value.getTime() : new Date(value as string | number).getTime();
+        return isNaN(time) ? null : time;
+      }
+      default:
+        if (typeof value === 'number') return isNaN(value) ? null : value;
+        if (value instanceof Date) return isNaN(value.getTime()) ? null : value.getTime();
+        return value;
+    }
   }
 
-  private static isDate(value: any): boolean {
-    if (value instanceof Date) return true;
-    return !isNaN(Date.parse(value));
+  private static getCollator({ locale, natural, sensitivity }: SortFieldOptions): Intl.Collator {
+    const key = JSON.stringify([locale, !!natural, sensitivity]);
+    let collator = this.collators.get(key);
+    if (!collator) {
+      collator = new Intl.Collator(locale, { numeric: !!natural, sensitivity });
+      this.collators.set(key, collator);
+    }
+    return collator;
   }
 }
 
+/**
+ * How a search field matches the query
+ * - `contains` → The value contains the query
+ * - `startsWith` → The value starts with the query
+ * - `exact` → The value equals the query
+ */
+export type SearchMatchMode = 'contains' | 'startsWith' | 'exact';
+
+/**
+ * Per field search settings
+ * @example
+ * const options: SearchFieldOptions = { weight: 3, matchMode: 'startsWith' };
+ */
+export interface SearchFieldOptions {
+  /** Relevance of a match in this field, items are ranked by the sum of their matching weights (default 1) */
+  weight?: number;
+  /** How the field matches the query (default 'contains') */
+  matchMode?: SearchMatchMode;
+}
+
+/** Default minimum similarity (0 to 1) of a fuzzy match */
+export const DEFAULT_FUZZY_THRESHOLD = 0.7;
+
 /**
  * Search configuration types
  * @example
  * const searchConfig: SearchConfig = {
  *   fields: ['name', 'description'],
+ *   fieldOptions: { name: { weight: 2 } },
  *   query: 'laptop',
  *   caseSensitive: false
  * }
  */
 export interface SearchConfig {
+  /** Fields to search in, every primitive field of the item is searched when empty */
   fields: string[];
   query: string;
   caseSensitive?: boolean;
+  /** Forces the `exact` match mode on every field */
   exactMatch?: boolean;
+  /**
+   * Typo tolerant matching: every word of the query has to be similar to a word of the field
+   * (edit distance), accents and diacritics are ignored. Takes precedence over the match modes.
+   */
+  fuzzy?: boolean;
+  /** Minimum similarity of a fuzzy match, from 0 to 1 (default DEFAULT_FUZZY_THRESHOLD) */
+  fuzzyThreshold?: number;
+  /** Weight and match mode of each field */
+  fieldOptions?: Record<string, SearchFieldOptions>;
+  /** Restricts the search to a single field */
+  scope?: string;
 }
 
 /**
@@ -455,7 +786,9 @@ export interface SearchConfig {
  */
 export class DataSearcher {
   /**
-   * Searches data based on the provided configuration
+   * Searches data based on the provided configuration.
+   * When `fieldOptions` are provided (or in fuzzy mode), the matching items are ranked by relevance
+   * (sum of the weights of their matching fields), ties keep the data order.
    * @example
    * const matchingItems = DataSearcher.search(
    *   [{ name: 'iPhone' }, { name: 'Samsung' }],
@@ -464,23 +797,136 @@ export class DataSearcher {
    */
   static search<T extends Record<string, any>>(data: T[], config: SearchConfig): T[] {
     if (!config?.query) return [...data];
+    return DataSearcher.score(data, config).map(({ item }) => item);
+  }
 
-    const { fields, query, caseSensitive = false, exactMatch = false } = config;
-    const searchTerm = caseSensitive ? query : query.toLowerCase();
-
-    return data.filter(item => {
-      return fields.some(field => {
+  /**
+   * Same as `search`, with the match score of each item: the sum of the weights of its matching
+   * fields, a fuzzy match counts its weight times its similarity
+   * @example
+   * DataSearcher.score(employees, { fields: ['name'], query: 'jonh', fuzzy: true });
+   * // [{ item: { name: 'John' }, score: 0.75 }]
+   */
+  static score<T extends Record<string, unknown>>(data: T[], config: SearchConfig): { item: T; score: number }[] {
+    if (!config?.query) return data.map(item => ({ item, score: 0 }));
+
+    const { fields, query, caseSensitive = false, exactMatch = false, fieldOptions, scope } = config;
+    const { fuzzy = false, fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD } = config;
+    const searchTerm = fuzzy
+      ? DataSearcher.normalize(query, caseSensitive)
+      : caseSensitive ? query : query.toLowerCase();
+    const queryWords = fuzzy ? DataSearcher.words(searchTerm) : [];
+    const scoredItems: { item: T; score: number }[] = [];
+
+    data.forEach(item => {
+      const searchFields = scope ? [scope] : fields.length ? fields : DataSearcher.primitiveFields(item);
+      const score = searchFields.reduce((total, field) => {
         const fieldValue = item[field];
-        if (fieldValue == null) return false;
+        if (fieldValue == null) return total;
+
+        const { weight = 1, matchMode = 'contains' } = fieldOptions?.[field] || {};
+        if (fuzzy) {
+          const valueToSearch = DataSearcher.normalize(String(fieldValue), caseSensitive);
+          return total + weight * DataSearcher.fuzzyScore(valueToSearch, searchTerm, queryWords, fuzzyThreshold);
+        }
 
         const valueToSearch = caseSensitive 
           ? String(fieldValue) 
           : String(fieldValue).toLowerCase();
 
-        return exactMatch
-          ? valueToSearch === searchTerm
-          : valueToSearch.includes(searchTerm);
-      });
+        return DataSearcher.matches(valueToSearch, searchTerm, exactMatch ? 'exact' : matchMode)
+          ? total + weight
+          : total;
+      }, 0);
+
+      if (score > 0) scoredItems.push({ item, score });
     });
+
+    // Array.prototype.sort is stable, items with the same score keep their order
+    if (fieldOptions || fuzzy) scoredItems.sort((a, b) => b.score - a.score);
+    return scoredItems;
+  }
+
+  /**
+   * Removes accents and diacritics (and the case unless case sensitive)
+   * @example
+   * DataSearcher.normalize('José Müller') // 'jose muller'
+   */
+  static normalize(value: string, caseSensitive = false): string {
+    const text = value.normalize('NFD').replace(/\p{M}/gu, '');
+    return caseSensitive ? text : text.toLowerCase();
+  }
+
+  /**
+   * Similarity of two words from 0 to 1, based on their edit distance
+   * (insertions, deletions, substitutions and transpositions of adjacent characters)
+   * @example
+   * DataSearcher.similarity('jonh', 'john') // 0.75
+   */
+  static similarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    return longest ? 1 - DataSearcher.editDistance(a, b) / longest : 1;
   }
-}
\ No newline at end of file
+
+  /**
+   * Similarity of a field value with the query: 1 when it contains the query,
+   * otherwise the average of the best similarity of each query word with the words
+   * (or their beginning) of the value, 0 when a query word is below the threshold
+   */
+  private static fuzzyScore(value: string, searchTerm: string, queryWords: string[], threshold: number): number {
+    if (value.includes(searchTerm)) return 1;
+    const valueWords = DataSearcher.words(value);
+    if (!queryWords.length || !valueWords.length) return 0;
+
+    let total = 0;
+    for (const queryWord of queryWords) {
+      const best = Math.max(...valueWords.map(word => Math.max(
+        DataSearcher.similarity(queryWord, word),
+        // Words starting with a (misspelled) query word, e.g. "jonat" → "jonathan"
+        word.length > queryWord.length ? DataSearcher.similarity(queryWord, word.slice(0, queryWord.length)) : 0
+      )));
+      if (best < threshold) return 0;
+      total += best;
+    }
+    return total / queryWords.length;
+  }
+
+  /** Optimal string alignment distance */
+  private static editDistance(a: string, b: string): number {
+    const rows: number[][] = [];
+    for (let i = 0; i <= a.length; i++) {
+      rows[i] = [i];
+      for (let j = 1; j <= b.length; j++) {
+        if (i === 0) {
+          rows[i][j] = j;
+          continue;
+        }
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+        }
+      }
+    }
+    return rows[a.length][b.length];
+  }
+
+  private static words(value: string): string[] {
+    return value.match(/[\p{L}\p{N}]+/gu) || [];
+  }
+
+  private static matches(value: string, searchTerm: string, matchMode: SearchMatchMode): boolean {
+    switch (matchMode) {
+      case 'exact':
+        return value === searchTerm;
+      case 'startsWith':
+        return value.startsWith(searchTerm);
+      default:
+        return value.includes(searchTerm);
+    }
+  }
+
+  private static primitiveFields(item: Record<string, unknown>): string[] {
+    return Object.keys(item).filter(key => ['string', 'number', 'boolean'].includes(typeof item[key]));
+  }
+}
@@ -0,0 +1,179 @@
+import { DataSearcher, DEFAULT_FUZZY_THRESHOLD } from './FunctionalityHelperFunctionsForCardView';
+import type { SearchConfig } from './FunctionalityHelperFunctionsForCardView';
+import type { CSSProperties } from 'react';
+
+/** Start (inclusive) and end (exclusive) of a highlighted part of a value */
+export type HighlightRange = [number, number];
+
+/**
+ * Search of the card view, with how it was run
+ * @property {object} [indexed] - The query was run on the search index (whole terms, or terms starting with a query term)
+ * @example
+ * { fields: ['name', 'email'], query: 'jo', indexed: { prefix: true } }
+ */
+export interface HighlightSearch extends SearchConfig {
+  indexed?: { prefix?: boolean };
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Value in the form compared by the search (lower case, without accents in fuzzy mode),
+ * with the position of each of its characters in the original value
+ */
+const toComparable = (value: string, search: HighlightSearch) => {
+  let text = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+  for (const char of value) {
+    const comparable = search.fuzzy
+      ? DataSearcher.normalize(char, !!search.caseSensitive)
+      : search.caseSensitive ? char : char.toLowerCase();
+    for (let i = 0; i < comparable.length; i++) {
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    text += comparable;
+    index += char.length;
+  }
+  const toOriginal = ([start, end]: HighlightRange): HighlightRange => [starts[start], ends[end - 1]];
+  return { text, toOriginal };
+};
+
+const findAll = (text: string, term: string): HighlightRange[] => {
+  const ranges: HighlightRange[] = [];
+  if (!term) return ranges;
+  for (let start = text.indexOf(term); start !== -1; start = text.indexOf(term, start + term.length)) {
+    ranges.push([start, start + term.length]);
+  }
+  return ranges;
+};
+
+const findWords = (text: string) => [...text.matchAll(WORD)].map(match => ({ word: match[0], start: match.index ?? 0 }));
+
+const mergeRanges = (ranges: HighlightRange[]): HighlightRange[] => ranges
+  .sort((a, b) => a[0] - b[0])
+  .reduce<HighlightRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+    return merged;
+  }, []);
+
+// Words similar enough to a query word, like DataSearcher's fuzzy score
+const getFuzzyRanges = (text: string, query: string, threshold: number): HighlightRange[] => {
+  if (text.includes(query)) return findAll(text, query);
+  const queryWords = findWords(query).map(({ word }) => word);
+  return findWords(text)
+    .filter(({ word }) => queryWords.some(queryWord => Math.max(
+      DataSearcher.similarity(queryWord, word),
+      word.length > queryWord.length ? DataSearcher.similarity(queryWord, word.slice(0, queryWord.length)) : 0
+    ) >= threshold))
+    .map(({ word, start }) => [start, start + word.length]);
+};
+
+// Whole terms, or the beginning of the terms starting with a query term, like SearchIndex
+const getTermRanges = (text: string, query: string, prefix: boolean): HighlightRange[] => {
+  const queryTerms = findWords(query).map(({ word }) => word);
+  return findWords(text).flatMap(({ word, start }): HighlightRange[] => {
+    if (queryTerms.includes(word)) return [[start, start + word.length]];
+    if (!prefix) return [];
+    const longest = queryTerms
+      .filter(term => word.startsWith(term))
+      .reduce((best, term) => Math.max(best, term.length), 0);
+    return longest ? [[start, start + longest]] : [];
+  });
+};
+
+/**
+ * Fields searched by a search in an item (the scope, the search fields or every primitive field)
+ */
+export const getSearchedFields = (item: Record<string, unknown>, search: HighlightSearch): string[] => {
+  if (search.scope) return [search.scope];
+  if (search.fields.length) return search.fields;
+  return Object.keys(item).filter(key => ['string', 'number', 'boolean'].includes(typeof item[key]));
+};
+
+/**
+ * Parts of a field value matched by the search, following the mode the search ran with
+ * (match mode of the field, exact match, indexed terms or fuzzy words)
+ * @param value - Field value, only strings, numbers and booleans are highlighted
+ * @param search - Search of the card view
+ * @param field - Field of the value, for its match mode
+ * @returns The merged ranges in the original value, empty when nothing matches
+ * @example
+ * getHighlightRanges('John Johnson', { fields: [], query: 'john' }) // [[0, 4], [5, 9]]
+ * getHighlightRanges('José', { fields: [], query: 'jose', fuzzy: true }) // [[0, 4]]
+ */
+export const getHighlightRanges = (value: unknown, search: HighlightSearch, field?: string): HighlightRange[] => {
+  if (!search.query?.trim() || value == null || typeof value === 'object') return [];
+  const { text, toOriginal } = toComparable(String(value), search);
+  const query = toComparable(search.query.trim(), search).text;
+  const matchMode = search.exactMatch ? 'exact' : (field && search.fieldOptions?.[field]?.matchMode) || 'contains';
+
+  let ranges: HighlightRange[];
+  if (search.fuzzy) {
+    ranges = getFuzzyRanges(text, query, search.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD);
+  } else if (search.indexed) {
+    ranges = getTermRanges(text, query, search.indexed.prefix !== false && matchMode !== 'exact');
+  } else if (matchMode === 'exact') {
+    ranges = text === query ? [[0, text.length]] : [];
+  } else if (matchMode === 'startsWith') {
+    ranges = text.startsWith(query) ? [[0, query.length]] : [];
+  } else {
+    ranges = findAll(text, query);
+  }
+  return mergeRanges(ranges).map(toOriginal);
+};
+
+/**
+ * Searched fields of an item with a highlighted match
+ * @example
+ * getMatchedFields(employee, { fields: ['name', 'email'], query: 'acme' }) // ['email']
+ */
+export const getMatchedFields = (item: Record<string, unknown>, search: HighlightSearch): string[] =>
+  getSearchedFields(item, search).filter(field => getHighlightRanges(item[field], search, field).length > 0);
+
+/**
+ * Converts React styles into a CSS declaration list, for HTML templates
+ * @example
+ * toCssText({ backgroundColor: '#fff3bf', borderRadius: 2 }) // 'background-color:#fff3bf;border-radius:2px'
+ */
+export const toCssText = (style: CSSProperties = {}): string => Object.entries(style)
+  .filter(([, value]) => value != null && value !== '')
+  .map(([property, value]) => {
+    const name = property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+    const unitless = ['opacity', 'fontWeight', 'lineHeight', 'zIndex', 'flex'].includes(property);
+    return `${name}:${typeof value === 'number' && !unitless ? `${value}px` : value}`;
+  })
+  .join(';');
+
+const HTML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+/**
+ * Escapes a text for HTML content and attribute values
+ * @example
+ * escapeHtml('a & <b>') // 'a &amp; &lt;b&gt;'
+ */
+export const escapeHtml = (text: string): string => text.replace(/[&<>"']/g, character => HTML_ENTITIES[character]);
+
+/**
+ * Wraps the highlighted parts of a plain text in `<mark>` tags, for HTML templates.
+ * The text and the attribute values are escaped.
+ * @param attributes - Attributes of the mark tags, e.g. `{ class: 'highlight', style: 'background:#ff0' }`
+ * @example
+ * highlightHtml('a & b', [[4, 5]], { class: 'hit' }) // 'a &amp; <mark class="hit">b</mark>'
+ */
+export const highlightHtml = (text: string, ranges: HighlightRange[], attributes: Record<string, string> = {}): string => {
+  const markAttributes = Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+    .join('');
+  let html = '';
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    html += `${escapeHtml(text.slice(position, start))}<mark${markAttributes}>${escapeHtml(text.slice(start, end))}</mark>`;
+    position = end;
+  });
+  return html + escapeHtml(text.slice(position));
+};
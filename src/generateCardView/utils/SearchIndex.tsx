@@ -0,0 +1,216 @@
+import type { SearchFieldOptions } from './FunctionalityHelperFunctionsForCardView';
+import type { DataItem } from '../InterfacesForCardView';
+
+/**
+ * How the terms of a multi-term query are combined
+ * - `and` → Every term has to match (default)
+ * - `or` → At least one term has to match
+ */
+export type SearchIndexOperator = 'and' | 'or';
+
+/**
+ * Options of a SearchIndex query
+ * @example
+ * const options: SearchIndexQueryOptions = { operator: 'or', prefix: true, fieldOptions: { name: { weight: 3 } } };
+ */
+export interface SearchIndexQueryOptions {
+  operator?: SearchIndexOperator;
+  /** Query terms also match the indexed terms starting with them (default true) */
+  prefix?: boolean;
+  /** Only matches whole terms, like the `exact` match mode of a field */
+  exactMatch?: boolean;
+  /** Weight of each field, fields with the `exact` match mode only match whole terms */
+  fieldOptions?: Record<string, SearchFieldOptions>;
+  /** Restricts the search to a single field */
+  scope?: string;
+}
+
+// A prefix match counts less than a whole term match
+const PREFIX_MATCH_FACTOR = 0.5;
+
+/**
+ * Inverted index of the searchable fields of the items.
+ *
+ * Every field value is split into terms once, and each term points to the items
+ * (and fields) containing it with the number of occurrences. Queries then only
+ * look up their terms instead of scanning every item, and the items are kept
+ * up to date one by one with `add`/`update`/`remove` (or `sync` for a new array).
+ *
+ * The relevance of an item is the sum, over the matched terms and fields, of the
+ * field weight times the term frequency (prefix matches count half).
+ *
+ * @example
+ * const index = new SearchIndex<Employee>(['name', 'department']);
+ * index.sync(employees);
+ * const scores = index.search('jo eng', { operator: 'and', fieldOptions: { name: { weight: 2 } } });
+ * // Map { 'emp-1' => 3, 'emp-7' => 1.5 }
+ */
+export class SearchIndex<T extends DataItem = DataItem> {
+  private fields: string[];
+  private caseSensitive: boolean;
+  // term → item id → field → term frequency
+  private postings = new Map<string, Map<string, Map<string, number>>>();
+  private items = new Map<string, T>();
+  private itemTerms = new Map<string, Set<string>>();
+  // Sorted terms for prefix lookups, rebuilt after new terms were added
+  private sortedTerms: string[] | null = null;
+
+  /**
+   * @param fields - Indexed fields, every primitive field of the item is indexed when empty
+   * @param caseSensitive - Whether terms keep their case
+   */
+  constructor(fields: string[] = [], caseSensitive = false) {
+    this.fields = fields;
+    this.caseSensitive = caseSensitive;
+  }
+
+  /** Number of indexed items */
+  get size(): number {
+    return this.items.size;
+  }
+
+  /** Whether the index was built for these fields and case sensitivity */
+  isBuiltFor(fields: string[], caseSensitive: boolean): boolean {
+    return caseSensitive === this.caseSensitive
+      && fields.length === this.fields.length
+      && fields.every((field, index) => field === this.fields[index]);
+  }
+
+  /**
+   * Brings the index in line with a data array: new and changed items (by reference)
+   * are indexed again, items that are no longer in the array are removed
+   */
+  sync(items: T[]): void {
+    const ids = new Set<string>();
+    items.forEach(item => {
+      ids.add(item.id);
+      if (this.items.get(item.id) !== item) this.update(item);
+    });
+    [...this.items.keys()].filter(id => !ids.has(id)).forEach(id => this.remove(id));
+  }
+
+  /** Indexes an item */
+  add(item: T): void {
+    if (this.items.has(item.id)) this.remove(item.id);
+    this.items.set(item.id, item);
+
+    const terms = new Set<string>();
+    this.getFields(item).forEach(field => {
+      this.tokenize(item[field]).forEach(term => {
+        terms.add(term);
+        let itemFields = this.postings.get(term);
+        if (!itemFields) {
+          itemFields = new Map();
+          this.postings.set(term, itemFields);
+          this.sortedTerms = null;
+        }
+        let frequencies = itemFields.get(item.id);
+        if (!frequencies) {
+          frequencies = new Map();
+          itemFields.set(item.id, frequencies);
+        }
+        frequencies.set(field, (frequencies.get(field) || 0) + 1);
+      });
+    });
+    this.itemTerms.set(item.id, terms);
+  }
+
+  /** Indexes the new version of an item */
+  update(item: T): void {
+    this.add(item);
+  }
+
+  /** Removes an item from the index */
+  remove(id: string): void {
+    this.itemTerms.get(id)?.forEach(term => {
+      const itemFields = this.postings.get(term);
+      itemFields?.delete(id);
+      if (itemFields && !itemFields.size) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    });
+    this.itemTerms.delete(id);
+    this.items.delete(id);
+  }
+
+  /** Removes every item */
+  clear(): void {
+    this.postings.clear();
+    this.items.clear();
+    this.itemTerms.clear();
+    this.sortedTerms = null;
+  }
+
+  /**
+   * Finds the items matching a query
+   * @returns The relevance score of each matching item id
+   */
+  search(query: string, options: SearchIndexQueryOptions = {}): Map<string, number> {
+    const { operator = 'and', prefix = true, exactMatch = false, fieldOptions, scope } = options;
+    const queryTerms = [...new Set(this.tokenize(query))];
+    const scores = new Map<string, number>();
+    if (!queryTerms.length) return scores;
+
+    const matchCounts = new Map<string, number>();
+    queryTerms.forEach(queryTerm => {
+      const termScores = new Map<string, number>();
+      const candidates = prefix && !exactMatch ? this.termsStartingWith(queryTerm) : [queryTerm];
+
+      candidates.forEach(term => {
+        const isWholeTerm = term === queryTerm;
+        this.postings.get(term)?.forEach((frequencies, id) => {
+          frequencies.forEach((frequency, field) => {
+            if (scope && field !== scope) return;
+            const { weight = 1, matchMode } = fieldOptions?.[field] || {};
+            if (!isWholeTerm && matchMode === 'exact') return;
+            const score = weight * frequency * (isWholeTerm ? 1 : PREFIX_MATCH_FACTOR);
+            termScores.set(id, (termScores.get(id) || 0) + score);
+          });
+        });
+      });
+
+      termScores.forEach((score, id) => {
+        scores.set(id, (scores.get(id) || 0) + score);
+        matchCounts.set(id, (matchCounts.get(id) || 0) + 1);
+      });
+    });
+
+    if (operator === 'and') {
+      matchCounts.forEach((count, id) => {
+        if (count < queryTerms.length) scores.delete(id);
+      });
+    }
+    return scores;
+  }
+
+  /** Splits a value into terms (letters and digits) */
+  tokenize(value: unknown): string[] {
+    if (value == null || (typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date))) return [];
+    const text = this.caseSensitive ? String(value) : String(value).toLowerCase();
+    return text.match(/[\p{L}\p{N}]+/gu) || [];
+  }
+
+  private getFields(item: T): string[] {
+    if (this.fields.length) return this.fields;
+    return Object.keys(item).filter(key => ['string', 'number', 'boolean'].includes(typeof item[key]));
+  }
+
+  /** Binary search of the first term >= prefix, then every following term starting with it */
+  private termsStartingWith(prefix: string): string[] {
+    if (!this.sortedTerms) this.sortedTerms = [...this.postings.keys()].sort();
+    const terms = this.sortedTerms;
+
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (terms[middle] < prefix) low = middle + 1;
+      else high = middle;
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) matches.push(terms[i]);
+    return matches;
+  }
+}
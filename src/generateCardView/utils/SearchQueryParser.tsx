@@ -0,0 +1,280 @@
+import dayjs from 'dayjs';
+import type { FilterValues } from './FunctionalityHelperFunctionsForCardView';
+import type { DataItemDescription } from '../InterfacesForCardView';
+
+/**
+ * Error of a search query token, with its position in the query
+ * @example
+ * { token: 'rating:>high', start: 11, end: 22, message: "'high' is not a number" }
+ */
+export interface SearchQueryError {
+  token: string;
+  start: number;
+  end: number;
+  message: string;
+}
+
+/**
+ * Result of parseSearchQuery
+ * @property {string} text - Free text searched by DataSearcher (bare words and quoted phrases)
+ * @property {FilterValues} filters - FilterModal values of the field conditions, keyed by field key
+ * @property {SearchQueryError[]} errors - Tokens that could not be parsed (they are ignored)
+ */
+export interface ParsedSearchQuery {
+  text: string;
+  filters: FilterValues;
+  errors: SearchQueryError[];
+}
+
+type ComparisonOperator = '>' | '>=' | '<' | '<=' | '=';
+
+// Range filter conditions (FilterModal) of each operator, and of its negation
+const NUMBER_CONDITIONS: Record<ComparisonOperator, { condition: string; negated: string }> = {
+  '>': { condition: 'Greater than', negated: 'Less than or equal' },
+  '>=': { condition: 'Greater than or equal', negated: 'Less than' },
+  '<': { condition: 'Less than', negated: 'Greater than or equal' },
+  '<=': { condition: 'Less than or equal', negated: 'Greater than' },
+  '=': { condition: 'Equal to', negated: 'Not equal to' },
+};
+
+// Text filter conditions of `field:value` and `field:=value`, and of their negation
+const TEXT_CONDITIONS = {
+  contains: { condition: 'contains', negated: 'does not contain' },
+  equals: { condition: 'equals', negated: 'not equals' },
+};
+
+// -field:"quoted value" | field:>=value | "free text" | word
+const FIELD_TOKEN = /^(-?)("([^"]+)"|[^\s":]+):(>=|<=|>|<|=)?(.*)$/;
+
+/**
+ * Splits the query on whitespace outside quotes
+ */
+const tokenize = (query: string) => {
+  const tokens: { token: string; start: number; end: number }[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let inQuotes = false;
+    while (i < query.length && (inQuotes || !/\s/.test(query[i]))) {
+      if (query[i] === '"') inQuotes = !inQuotes;
+      i++;
+    }
+    tokens.push({ token: query.slice(start, i), start, end: i });
+  }
+  return tokens;
+};
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Finds the described field of a name: its key or its label (case and spaces are ignored)
+ */
+export const resolveQueryField = (name: string, descriptions: DataItemDescription[]) => {
+  const normalized = normalizeName(name);
+  return descriptions.find(description => normalizeName(description.key) === normalized)
+    || descriptions.find(description => normalizeName(description.label) === normalized);
+};
+
+/**
+ * Converts a field condition into the FilterModal value of the field filter
+ * @param options - Options of the select filter, `filterOptions` or the ones derived from the data
+ * @returns The filter value, or the error message
+ */
+const toFilterValue = (
+  description: DataItemDescription,
+  operator: ComparisonOperator | undefined,
+  value: string,
+  negated: boolean,
+  options: string[] = []
+): { value: FilterValues[string] } | { error: string } => {
+  const { filterType = 'text' } = description.filterConfiguration!;
+  const filterOptions = description.filterConfiguration?.filterOptions || options;
+  const isComparison = operator && operator !== '=';
+
+  if (isComparison && description.typeOfField !== 'number') {
+    return { error: `'${operator}' only applies to number fields, '${description.label}' is a ${description.typeOfField} field` };
+  }
+
+  switch (filterType) {
+    case 'range': {
+      if (description.typeOfField !== 'number') return { error: `'${description.label}' can not be filtered from the search bar` };
+      if (value === '' || isNaN(Number(value))) return { error: `'${value}' is not a number` };
+      const conditions = NUMBER_CONDITIONS[operator || '='];
+      return { value: { condition: negated ? conditions.negated : conditions.condition, value } };
+    }
+    case 'select': {
+      if (isComparison) return { error: `'${description.label}' does not support '${operator}'` };
+      const option = filterOptions.find(filterOption => filterOption.toLowerCase() === value.toLowerCase());
+      if (!option) return { error: `'${value}' is not a ${description.label} (${filterOptions.join(', ')})` };
+      return { value: negated ? { condition: 'not equals', value: option } : { value: option } };
+    }
+    case 'date': {
+      if (isComparison || negated) return { error: `'${description.label}' only matches a day (${description.key}:YYYY-MM-DD)` };
+      const date = dayjs(value);
+      if (!date.isValid()) return { error: `'${value}' is not a date` };
+      return { value: { value: date.format('YYYY-MM-DD') } };
+    }
+    case 'text': {
+      if (isComparison) return { error: `'${description.label}' does not support '${operator}'` };
+      const conditions = operator === '=' ? TEXT_CONDITIONS.equals : TEXT_CONDITIONS.contains;
+      return { value: { condition: negated ? conditions.negated : conditions.condition, value } };
+    }
+    // Custom filter types (see registerFilterType) have their own values
+    default:
+      return { error: `'${description.label}' can not be filtered from the search bar` };
+  }
+};
+
+/**
+ * Parses the structured search bar syntax into FilterModal filter values and free text.
+ *
+ * - `field:value` filters a field, the field is a key or a label of the data item descriptions
+ *   (`"hire date":2024-03-01` for labels with spaces)
+ * - `field:>4.5`, `>=`, `<`, `<=` compare number fields, `field:=value` matches a text exactly
+ * - `-field:value` excludes the value
+ * - `"quoted phrases"` and other words are searched as free text
+ *
+ * Only fields with a filterConfiguration can be used, the values follow their filterType
+ * (select options, range conditions, day of a date filter, text conditions).
+ * The tokens that can not be parsed are reported in `errors` and ignored.
+ *
+ * @param selectOptions - Options of the select filters keyed by field, for the fields without `filterOptions`
+ *   (the options derived from the data, see useValuesForFunctionalitiesButtons)
+ * @example
+ * parseSearchQuery('department:Engineering rating:>4.5 "senior dev" -status:terminated', descriptions);
+ * // {
+ * //   text: 'senior dev',
+ * //   filters: {
+ * //     department: { value: 'Engineering' },
+ * //     rating: { condition: 'Greater than', value: '4.5' },
+ * //     status: { condition: 'not equals', value: 'Terminated' }
+ * //   },
+ * //   errors: []
+ * // }
+ */
+export const parseSearchQuery = (
+  query: string,
+  descriptions: DataItemDescription[],
+  selectOptions: Record<string, string[]> = {}
+): ParsedSearchQuery => {
+  const textParts: string[] = [];
+  const filters: FilterValues = {};
+  const errors: SearchQueryError[] = [];
+
+  tokenize(query).forEach(({ token, start, end }) => {
+    const reportError = (message: string) => errors.push({ token, start, end, message });
+
+    if ((token.match(/"/g) || []).length % 2) {
+      reportError('Missing closing quote');
+      return;
+    }
+
+    const fieldMatch = token.match(FIELD_TOKEN);
+    if (!fieldMatch) {
+      if (token.startsWith('-') && token.length > 1) {
+        reportError(`'-' excludes a field value, e.g. -status:${token.slice(1)}`);
+        return;
+      }
+      textParts.push(unquote(token));
+      return;
+    }
+
+    const [, minus, rawName, quotedName, operator, rawValue] = fieldMatch;
+    const name = quotedName ?? rawName;
+    const value = unquote(rawValue);
+    const description = resolveQueryField(name, descriptions);
+
+    if (!description) {
+      reportError(`Unknown field '${name}'`);
+      return;
+    }
+    if (!description.filterConfiguration?.canFilter) {
+      reportError(`'${description.label}' can not be filtered`);
+      return;
+    }
+    if (!value) {
+      reportError(`Missing value for '${description.label}'`);
+      return;
+    }
+
+    const result = toFilterValue(description, operator as ComparisonOperator | undefined, value, !!minus, selectOptions[description.key]);
+    if ('error' in result) {
+      reportError(result.error);
+      return;
+    }
+    filters[description.key] = result.value;
+  });
+
+  return { text: textParts.join(' '), filters, errors };
+};
+
+/** Quotes a field name or value of the query syntax when it contains spaces, quotes or colons */
+export const quoteQueryValue = (value: string) => (/[\s":]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+/**
+ * Converts a FilterModal value back into its search bar condition
+ * @returns The condition, or null when the syntax can not express it (e.g. 'starts with')
+ */
+const toQueryCondition = (description: DataItemDescription, filterValue: FilterValues[string]): string | null => {
+  const { condition, value } = filterValue || {};
+  if (value == null || value === '' || typeof value === 'object') return null;
+  const key = quoteQueryValue(description.key);
+  const text = quoteQueryValue(String(value));
+
+  switch (description.filterConfiguration?.filterType || 'text') {
+    case 'range': {
+      const entry = Object.entries(NUMBER_CONDITIONS)
+        .find(([, conditions]) => conditions.condition === condition || conditions.negated === condition);
+      if (!entry) return null;
+      const [operator, conditions] = entry;
+      const prefix = conditions.negated === condition ? '-' : '';
+      return `${prefix}${key}:${operator === '=' ? '' : operator}${text}`;
+    }
+    case 'select':
+      return `${condition === 'not equals' ? '-' : ''}${key}:${text}`;
+    case 'date':
+      return condition ? null : `${key}:${text}`;
+    case 'text': {
+      const entry = Object.entries(TEXT_CONDITIONS)
+        .find(([, conditions]) => conditions.condition === condition || conditions.negated === condition);
+      if (!entry) return null;
+      const [kind, conditions] = entry;
+      const prefix = conditions.negated === condition ? '-' : '';
+      return `${prefix}${key}:${kind === 'equals' ? '=' : ''}${text}`;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Writes free text and FilterModal filter values back in the search bar syntax (inverse of parseSearchQuery)
+ * @returns The query, and the filters the syntax can not express (kept when the query is applied again)
+ * @example
+ * serializeSearchQuery('senior dev', { rating: { condition: 'Greater than', value: '4.5' } }, descriptions);
+ * // { query: 'rating:>4.5 "senior dev"', remainingFilters: {} }
+ */
+export const serializeSearchQuery = (
+  text: string,
+  filters: FilterValues,
+  descriptions: DataItemDescription[]
+): { query: string; remainingFilters: FilterValues } => {
+  const conditions: string[] = [];
+  const remainingFilters: FilterValues = {};
+
+  Object.entries(filters || {}).forEach(([key, filterValue]) => {
+    const description = descriptions.find(item => item.key === key);
+    const condition = description ? toQueryCondition(description, filterValue) : null;
+    if (condition) conditions.push(condition);
+    else remainingFilters[key] = filterValue;
+  });
+
+  const freeText = text && /\s/.test(text.trim()) ? `"${text.trim()}"` : text.trim();
+  return { query: [...conditions, freeText].filter(Boolean).join(' '), remainingFilters };
+};
@@ -0,0 +1,174 @@
+import { DataSearcher } from './FunctionalityHelperFunctionsForCardView';
+import { quoteQueryValue, resolveQueryField } from './SearchQueryParser';
+import type { DataItem, DataItemDescription } from '../InterfacesForCardView';
+
+/**
+ * Kind of a search bar suggestion
+ * - `recent` → A previous search of the view
+ * - `value` → A value of a searchable field (or of the field of a `field:` condition)
+ * - `field` → A field name completion of the query syntax (`dep` → `department:`)
+ */
+export type SearchSuggestionType = 'recent' | 'value' | 'field';
+
+/**
+ * Suggestion shown under the search input
+ * @property {string} label - Text of the suggestion
+ * @property {string} query - Query written in the input when the suggestion is picked
+ * @property {string} [description] - Secondary text, e.g. the field of a value
+ * @example
+ * { type: 'value', label: 'Engineering', query: 'senior Engineering', description: 'Department' }
+ */
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  label: string;
+  query: string;
+  description?: string;
+}
+
+/**
+ * What a suggestion source gets with the typed query
+ * @property {string} token - Word being typed (the last word of the query, quotes included)
+ * @property {string} prefix - Query before the word, `prefix + completion` is the suggested query
+ * @property {string} [field] - Field selected in the field dropdown
+ * @property {number} limit - Maximum number of suggestions shown
+ */
+export interface SearchSuggestionContext {
+  token: string;
+  prefix: string;
+  field?: string;
+  limit: number;
+}
+
+/**
+ * Provides the suggestions of a query, synchronously or from a server
+ * @example
+ * const source: SearchSuggestionSource = async (query, { token, prefix, limit }) => {
+ *   const names = await api.completeNames(token, limit);
+ *   return names.map(name => ({ type: 'value', label: name, query: `${prefix}${name}` }));
+ * };
+ */
+export type SearchSuggestionSource = (
+  query: string,
+  context: SearchSuggestionContext
+) => SearchSuggestion[] | Promise<SearchSuggestion[]>;
+
+// -field:partial value of a query syntax condition
+const CONDITION_TOKEN = /^(-?)("[^"]+"|[^\s":]+):(.*)$/;
+
+/**
+ * Splits a query into the word being typed and the text before it (whitespace inside quotes does not split)
+ * @example
+ * splitLastToken('rating:>4 "senior de') // { prefix: 'rating:>4 ', token: '"senior de' }
+ */
+export const splitLastToken = (query: string): { prefix: string; token: string } => {
+  let tokenStart = 0;
+  let inQuotes = false;
+  for (let i = 0; i < query.length; i++) {
+    if (query[i] === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && /\s/.test(query[i])) tokenStart = i + 1;
+  }
+  return { prefix: query.slice(0, tokenStart), token: query.slice(tokenStart) };
+};
+
+/**
+ * Distinct values of some fields matching a text, the values starting with it come first
+ */
+const findFieldValues = (
+  data: DataItem[],
+  fields: { value: string; label: string }[],
+  text: string,
+  limit: number
+) => {
+  const needle = DataSearcher.normalize(text, false);
+  const starting: { value: string; field: string }[] = [];
+  const containing: { value: string; field: string }[] = [];
+  const seen = new Set<string>();
+
+  for (const item of data) {
+    for (const field of fields) {
+      const raw = item[field.value];
+      if (raw == null || typeof raw === 'object') continue;
+      const value = String(raw);
+      if (seen.has(value)) continue;
+      const normalized = DataSearcher.normalize(value, false);
+      if (normalized.startsWith(needle)) starting.push({ value, field: field.label });
+      else if (normalized.includes(needle)) containing.push({ value, field: field.label });
+      else continue;
+      seen.add(value);
+    }
+    if (starting.length >= limit) break;
+  }
+  return [...starting, ...containing].slice(0, limit);
+};
+
+/**
+ * Suggestion source of the items loaded in the browser.
+ *
+ * - Values of the searchable fields (or of the field selected in the dropdown) matching the typed word
+ * - With the query syntax (`descriptions` provided): field name completions of the filterable fields,
+ *   and the options or values of the field of a `field:` condition
+ *
+ * In server-side mode only the loaded items are known, a custom source can query the server instead.
+ *
+ * @param data - Items searched for values
+ * @param fields - Searchable fields
+ * @param descriptions - Data item descriptions, enables the query syntax suggestions
+ * @example
+ * const source = createLocalSuggestionSource(employees, [{ value: 'name', label: 'Name' }], dataItemDescription);
+ * source('dep', { token: 'dep', prefix: '', limit: 8 });
+ * // [{ type: 'field', label: 'department:', query: 'department:', description: 'Department' }, ...]
+ */
+export const createLocalSuggestionSource = (
+  data: DataItem[],
+  fields: { value: string; label: string }[],
+  descriptions?: DataItemDescription[]
+): SearchSuggestionSource => (_query, { token, prefix, field, limit }) => {
+  if (!token) return [];
+  const suggestions: SearchSuggestion[] = [];
+
+  if (descriptions) {
+    const condition = token.match(CONDITION_TOKEN);
+    if (condition) {
+      const [, minus, name, partialValue] = condition;
+      const description = resolveQueryField(name.replace(/"/g, ''), descriptions);
+      if (!description?.filterConfiguration?.canFilter) return [];
+      // Comparison operators are kept in front of the suggested value
+      const [, operator, text] = partialValue.match(/^(>=|<=|>|<|=)?"?(.*?)"?$/) || [];
+      const { filterOptions } = description.filterConfiguration;
+      const values = filterOptions?.length
+        ? filterOptions.filter(option => DataSearcher.normalize(option, false).includes(DataSearcher.normalize(text, false)))
+        : findFieldValues(data, [{ value: description.key, label: description.label }], text, limit).map(match => match.value);
+      return values.slice(0, limit).map(value => ({
+        type: 'value',
+        label: value,
+        query: `${prefix}${minus}${name}:${operator || ''}${quoteQueryValue(value)} `,
+        description: description.label,
+      }));
+    }
+
+    const minus = token.startsWith('-') ? '-' : '';
+    const name = DataSearcher.normalize(token.slice(minus.length), false).replace(/["\s]+/g, '');
+    descriptions
+      .filter(description => description.filterConfiguration?.canFilter)
+      .filter(description => [description.key, description.label]
+        .some(candidate => DataSearcher.normalize(candidate, false).replace(/\s+/g, '').startsWith(name)))
+      .slice(0, limit)
+      .forEach(description => suggestions.push({
+        type: 'field',
+        label: `${minus}${quoteQueryValue(description.key)}:`,
+        query: `${prefix}${minus}${quoteQueryValue(description.key)}:`,
+        description: description.label,
+      }));
+  }
+
+  const searchedFields = field ? fields.filter(searchField => searchField.value === field) : fields;
+  const text = token.replace(/"/g, '');
+  findFieldValues(data, searchedFields, text, limit - suggestions.length).forEach(match => suggestions.push({
+    type: 'value',
+    label: match.value,
+    // Values with spaces stay a single phrase of the query syntax
+    query: `${prefix}${descriptions ? quoteQueryValue(match.value) : match.value}`,
+    description: match.field,
+  }));
+  return suggestions;
+};
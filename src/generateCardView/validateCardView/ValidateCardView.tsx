@@ -3,7 +3,9 @@ import
 type
 {
   CardViewOptions,
+  CardFunctionalities,
   DataItem,
+  DataItemShape,
   CardInteractions,
   DataOperations,
   PaginationConfig,
@@ -20,6 +22,7 @@ type
 } from "../InterfacesForCardView";
 import styles from "./validateCardView.module.css"
 import RenderCardView from "../cardViewComponents/RenderCardView";
+import type { CardViewEngine } from "../utils/CardViewEngine";
 
 // Interface for the exposed methods of the component via ref
 interface CardViewRef {
@@ -135,6 +138,10 @@ const validatePagination = (pagination?: PaginationConfig): string[] => {
       errors.push("'variant' must be either 'basic' or 'advanced'");
     }
 
+    if (pagination.mode && !['pages', 'infinite', 'load-more'].includes(pagination.mode)) {
+      errors.push("'mode' must be either 'pages', 'infinite' or 'load-more'");
+    }
+
     if (pagination.align && !['left', 'center', 'right'].includes(pagination.align)) {
       errors.push("'align' must be either 'left', 'center', or 'right'");
     }
@@ -445,8 +452,9 @@ const validateDataItemDescriptions = (descriptions?: DataItemDescription[]): str
 
 /**
  * Validates segregated data configuration
+ * (sections without 'content' use the view level 'content', when provided)
  */
-const validateSegregatedData = (segregatedData?: SegregatedData): string[] => {
+const validateSegregatedData = (segregatedData?: SegregatedData, fallbackContent?: CardContentConfig): string[] => {
   const errors: string[] = [];
 
   if (!segregatedData) return errors;
@@ -461,7 +469,9 @@ const validateSegregatedData = (segregatedData?: SegregatedData): string[] => {
       errors.push(`Section at index ${index} must have a string 'id'`);
     }
     if (!section.content) {
-      errors.push(`Section '${section.id}' must have 'content' configuration`);
+      if (!fallbackContent) {
+        errors.push(`Section '${section.id}' must have 'content' configuration`);
+      }
     } else {
       errors.push(...validateContent(section.content));
     }
@@ -486,8 +496,12 @@ const validateCardViewProps = (props: CardViewOptions): string[] => {
 
   // Validate data based on mode
   if (props.dataMode === 'normal') {
-    if (!props.data) {
-      errors.push("'data' is required for normal data mode");
+    if (props.dataSource) {
+      if (typeof props.dataSource.fetch !== 'function') {
+        errors.push("'dataSource.fetch' must be a function");
+      }
+    } else if (!props.data) {
+      errors.push("'data' is required for normal data mode (or a 'dataSource')");
     } else {
       errors.push(...validateDataItems(props.data));
     }
@@ -495,7 +509,7 @@ const validateCardViewProps = (props: CardViewOptions): string[] => {
     if (!props.segregatedData) {
       errors.push("'segregatedData' is required for segregated data mode");
     } else {
-      errors.push(...validateSegregatedData(props.segregatedData));
+      errors.push(...validateSegregatedData(props.segregatedData, props.content));
     }
   }
 
@@ -504,9 +518,11 @@ const validateCardViewProps = (props: CardViewOptions): string[] => {
     errors.push("'renderCard' must be a function");
   }
 
-  // Validate content configuration
+  // Validate content configuration (sections carry their own content in segregated mode)
   if (!props.content) {
-    errors.push("'content' is required");
+    if (props.dataMode !== 'segregated') {
+      errors.push("'content' is required");
+    }
   } else {
     errors.push(...validateContent(props.content));
   }
@@ -528,10 +544,14 @@ const validateCardViewProps = (props: CardViewOptions): string[] => {
   if (props.paginationOptions) errors.push(...validatePagination(props.paginationOptions));
   if (props.zoom) errors.push(...validateZoom(props.zoom));
 
-  if (props.virtualScroll && props.layout?.type !== 'grid') {
+  if (props.virtualScroll && (props.layout?.type || 'grid') !== 'grid') {
     errors.push("'virtualScroll' requires layout type to be 'grid'");
   }
 
+  if (props.searchIndex?.operator && !['and', 'or'].includes(props.searchIndex.operator)) {
+    errors.push("'searchIndex.operator' must be either 'and' or 'or'");
+  }
+
   if (props.lazyLoad && !props.virtualScroll) {
     errors.push("'lazyLoad' requires 'virtualScroll' to be enabled");
   }
@@ -539,8 +559,10 @@ const validateCardViewProps = (props: CardViewOptions): string[] => {
   return errors;
 };
 
-type ValidateCardViewProps = {
-  options: CardViewOptions;
+type ValidateCardViewProps<T extends DataItemShape = DataItem> = {
+  options: CardViewOptions<T>;
+  /** Optional engine to drive the card view from plain TypeScript */
+  engine?: CardViewEngine;
 };
 
 /**
@@ -548,7 +570,7 @@ type ValidateCardViewProps = {
  * and displays error list if invalid
  */
 const ValidateCardView = forwardRef<any, ValidateCardViewProps>(
-  ({ options }, refForFunctionalities) => {
+  ({ options, engine }, refForFunctionalities) => {
     const errors = validateCardViewProps(options)
   if (errors.length > 0) {
     console.error("CardView validation errors:", errors);
@@ -568,10 +590,22 @@ const ValidateCardView = forwardRef<any, ValidateCardViewProps>(
      <RenderCardView
       options={options}
       refForFunctionalities={refForFunctionalities}
+      engine={engine}
     />
   );
 });
 
 ValidateCardView.displayName = "ValidateCardView";
 
-export default ValidateCardView;
+/**
+ * Typed signature of ValidateCardView: the item type is inferred from `options`
+ * (or given explicitly) so that field keys in the options are checked at compile time.
+ * Untyped options fall back to DataItem.
+ * @example
+ * <ValidateCardView<Employee> options={employeeOptions} ref={ref} />
+ */
+type TypedValidateCardView = <T extends DataItemShape = DataItem>(
+  props: ValidateCardViewProps<T> & React.RefAttributes<CardFunctionalities<T>>
+) => React.ReactNode;
+
+export default ValidateCardView as TypedValidateCardView;